@@ -1,11 +1,10 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { generateMnemonic, validateMnemonic } from "bip39";
 import { motion } from "framer-motion";
-import { Grid2X2, List } from "lucide-react";
+import { Grid2X2, List, ArrowRightLeft, KeyRound, ScanSearch, Wrench } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -17,28 +16,222 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Wallet, PATH_TYPE_NAMES } from "@/lib/wallet-types";
+import { RpcSettings, Trash, Vault, Wallet } from "@/lib/wallet-types";
+import {
+  getChainAdapter,
+  getChainNetwork,
+  InvalidPrivateKeyError,
+  MessageSigningError,
+} from "@/lib/chains";
+import { ethereumAdapter } from "@/lib/chains/ethereum";
 import {
   generateWalletFromMnemonic,
+  deriveMigrationTarget,
+  getSeedFingerprint,
+  isLegacyEthereumWallet,
   UnsupportedPathTypeError,
 } from "@/lib/wallet-derivation";
+import { InvalidDerivationPathError } from "@/lib/derivation-paths";
 import {
+  clearWalletStorage,
+  exportRawStorage,
+  isStorageEncrypted,
   loadWalletsFromStorage,
   saveWalletsToStorage,
-  clearWalletStorage,
+  setStoragePassword,
+  StorageCorruptionError,
+  StoredWalletData,
+  unlockStorage,
 } from "@/lib/wallet-storage";
+import { downloadFile } from "@/lib/download";
+import {
+  recoverMnemonicFromShares,
+  Slip39Error,
+  Slip39Group,
+  Slip39ShareSet,
+  splitMnemonicIntoShares,
+} from "@/lib/slip39";
+import {
+  DEFAULT_MNEMONIC_LANGUAGE,
+  detectMnemonicLanguage,
+  diagnoseMnemonic,
+  getMnemonicLanguage,
+  generateMnemonicWords,
+  joinMnemonic,
+  MnemonicLength,
+  splitMnemonic,
+} from "@/lib/mnemonic";
+import { IncorrectPasswordError, StorageKey } from "@/lib/storage-encryption";
+import {
+  decryptKeystore,
+  encryptKeystore,
+  InvalidKeystoreError,
+  KeystorePreset,
+  KeystoreProgress,
+} from "@/lib/keystore";
+import { signTypedData, TypedData } from "@/lib/typed-data";
+import {
+  getTransferKind,
+  SignedTransaction,
+  signInspectedTransaction,
+  signTransfer,
+  TransactionBuildError,
+  TransactionDecodeError,
+  TransferInput,
+} from "@/lib/transactions";
+import {
+  AccountBalance,
+  DEFAULT_RPC_SETTINGS,
+  fetchBalance,
+  getRpcEndpoint,
+  RpcError,
+  RpcGuardError,
+} from "@/lib/rpc";
+import {
+  prepareSweep,
+  submitSweep,
+  SweepDestination,
+  SweepError,
+  SweepPlan,
+} from "@/lib/sweep";
+import { AccountDiscovery, DiscoveredAccount, discoverAccounts } from "@/lib/account-discovery";
+import {
+  applyBackupImport,
+  BackupImportMode,
+  createBackup,
+  diffBackup,
+  InvalidBackupError,
+  openBackup,
+  VaultImportDiff,
+} from "@/lib/vault-backup";
+import {
+  addVaultChain,
+  addVaultWallet,
+  createVault,
+  getChainWallets,
+  getDeletedAccountIndexes,
+  getNextAccountIndex,
+  nextVaultName,
+  removeVault,
+  removeVaultChain,
+  removeVaultWallet,
+  setVaultWallets,
+} from "@/lib/vaults";
+import {
+  EMPTY_TRASH,
+  purgeExpiredTrash,
+  removeTrashItem,
+  restoreTrashItem,
+  trashVault,
+  trashWallets,
+  TrashRestoreError,
+} from "@/lib/trash";
 import ChainSelector from "@/components/wallet/ChainSelector";
+import ChainTabs from "@/components/wallet/ChainTabs";
 import MnemonicInput from "@/components/wallet/MnemonicInput";
 import MnemonicDisplay from "@/components/wallet/MnemonicDisplay";
 import WalletCard from "@/components/wallet/WalletCard";
+import PathTemplateSelector from "@/components/wallet/PathTemplateSelector";
+import VaultSwitcher from "@/components/wallet/VaultSwitcher";
+import UnlockScreen from "@/components/wallet/UnlockScreen";
+import SecurityPanel from "@/components/wallet/SecurityPanel";
+import RecoveryScreen from "@/components/wallet/RecoveryScreen";
+import PassphrasePrompt from "@/components/wallet/PassphrasePrompt";
+import BackupQuiz from "@/components/wallet/BackupQuiz";
+import BackupBanner from "@/components/wallet/BackupBanner";
+import ShamirSplitPanel from "@/components/wallet/ShamirSplitPanel";
+import BackupPanel from "@/components/wallet/BackupPanel";
+import BackupImportPreview from "@/components/wallet/BackupImportPreview";
+import KeyImportPanel from "@/components/wallet/KeyImportPanel";
+import DeletedAccounts from "@/components/wallet/DeletedAccounts";
+import TrashPanel from "@/components/wallet/TrashPanel";
+import MessageVerifyPanel from "@/components/wallet/MessageVerifyPanel";
+import TypedDataPanel from "@/components/wallet/TypedDataPanel";
+import TransactionComposer from "@/components/wallet/TransactionComposer";
+import TransactionInspector from "@/components/wallet/TransactionInspector";
+import RpcSettingsPanel from "@/components/wallet/RpcSettingsPanel";
+import AccountDiscoveryPanel from "@/components/wallet/AccountDiscoveryPanel";
+
+/**
+ * Blank word fields for the mnemonic entry grid.
+ */
+const emptyMnemonicEntry = (length: number): string[] => Array<string>(length).fill("");
+
+/**
+ * Network and path template for the next wallet on a chain tab, following
+ * the chain's most recent wallet.
+ */
+const getChainTabDefaults = (wallets: Wallet[], chain: string) => {
+  const lastWallet = wallets.filter((wallet) => wallet.chain === chain).pop();
+  return {
+    network: lastWallet?.network,
+    pathTemplate:
+      lastWallet?.pathTemplate ?? getChainAdapter(chain)?.defaultPathTemplate ?? "",
+  };
+};
+
+/**
+ * Every secret held in memory, for the RPC guard: mnemonics, passphrases
+ * and private keys of all vaults, including those in the trash.
+ */
+const getKnownSecrets = (
+  vaults: Vault[],
+  trash: Trash,
+  sessionPassphrases: Record<string, string>
+): string[] => {
+  const allVaults = [
+    ...vaults,
+    ...trash.items.flatMap((item) => (item.kind === "vault" ? [item.vault] : [])),
+  ];
+  const allWallets = [
+    ...allVaults.flatMap((vault) => vault.wallets),
+    ...trash.items.flatMap((item) => (item.kind === "wallets" ? item.wallets : [])),
+  ];
+  return [
+    ...allVaults.flatMap((vault) => [vault.mnemonic.join(" "), vault.passphrase ?? ""]),
+    ...Object.values(sessionPassphrases),
+    ...allWallets.flatMap((wallet) => [
+      wallet.privateKey,
+      ...(wallet.addresses ?? []).map((address) => address.privateKey),
+    ]),
+  ];
+};
+
+/**
+ * Stored wallets a wallet can be swept to: those on the same chain in any
+ * vault, except the wallet's own address.
+ */
+const getSweepDestinations = (vaults: Vault[], wallet: Wallet): SweepDestination[] => {
+  const destinations: SweepDestination[] = [];
+  for (const vault of vaults) {
+    for (const candidate of vault.wallets) {
+      const isSelf = candidate.publicKey.toLowerCase() === wallet.publicKey.toLowerCase();
+      if (
+        candidate.chain !== wallet.chain ||
+        isSelf ||
+        destinations.some((destination) => destination.address === candidate.publicKey)
+      ) {
+        continue;
+      }
+      destinations.push({
+        label: `${
+          candidate.index !== undefined ? `Wallet ${candidate.index + 1}` : "Imported Wallet"
+        } · ${vault.name}`,
+        address: candidate.publicKey,
+      });
+    }
+  }
+  return destinations;
+};
 
 /**
  * WalletGenerator - Orchestrating component for HD wallet generation.
  * 
  * Responsibilities:
- * - State ownership for wallets, mnemonic, visibility, and UI preferences
+ * - State ownership for vaults (mnemonic + wallets), visibility, and UI preferences
  * - Coordination between UI subcomponents and wallet logic
- * - localStorage persistence (via wallet-storage module)
+ * - localStorage persistence (via wallet-storage module), optionally
+ *   password-encrypted; decrypted state only exists while unlocked
  * - User feedback via toast notifications
  * 
  * Security invariants enforced here:
@@ -48,196 +241,1522 @@ import WalletCard from "@/components/wallet/WalletCard";
  */
 const WalletGenerator = () => {
   // Core wallet state
-  const [mnemonicWords, setMnemonicWords] = useState<string[]>(
-    Array(12).fill(" ")
-  );
-  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [vaults, setVaults] = useState<Vault[]>([]);
+  const [activeVaultId, setActiveVaultId] = useState<string | null>(null);
+  // Active chain tab of the active vault, or the chain picked for a new vault
   const [chain, setChain] = useState<string>("");
+  const [network, setNetwork] = useState<string | undefined>(undefined);
+  const [pathTemplate, setPathTemplate] = useState<string>("");
+  // Deleted vaults and wallets, persisted with the vaults
+  const [trash, setTrash] = useState<Trash>(EMPTY_TRASH);
+  // Opt-in balance lookups, persisted with the vaults
+  const [rpc, setRpc] = useState<RpcSettings>(DEFAULT_RPC_SETTINGS);
+
+  // Storage encryption state
+  const [storageKey, setStorageKey] = useState<StorageKey | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState<boolean>(false);
+  const [isLocked, setIsLocked] = useState<boolean>(false);
+  const [storageError, setStorageError] = useState<StorageCorruptionError | null>(null);
+  // Decrypted backup awaiting review; never persisted as is
+  const [pendingImport, setPendingImport] = useState<VaultImportDiff[] | null>(null);
 
   // UI state
   const [showMnemonic, setShowMnemonic] = useState<boolean>(false);
-  const [mnemonicInput, setMnemonicInput] = useState<string>("");
-  const [visiblePrivateKeys, setVisiblePrivateKeys] = useState<boolean[]>([]);
-  const [visiblePhrases, setVisiblePhrases] = useState<boolean[]>([]);
+  const [showBackupQuiz, setShowBackupQuiz] = useState<boolean>(false);
+  const [showShamirSplit, setShowShamirSplit] = useState<boolean>(false);
+  // Generated SLIP-39 shares; never persisted
+  const [shamirShares, setShamirShares] = useState<Slip39ShareSet | null>(null);
+  const [mnemonicEntry, setMnemonicEntry] = useState<string[]>(emptyMnemonicEntry(12));
+  const [vaultNameInput, setVaultNameInput] = useState<string>("");
+  const [mnemonicLanguage, setMnemonicLanguage] = useState<string>(DEFAULT_MNEMONIC_LANGUAGE);
+  const [passphraseInput, setPassphraseInput] = useState<string>("");
+  const [rememberPassphrase, setRememberPassphrase] = useState<boolean>(false);
+  const [scanOnImport, setScanOnImport] = useState<boolean>(false);
+  // BIP39 passphrases the user chose not to persist, by vault id
+  const [sessionPassphrases, setSessionPassphrases] = useState<Record<string, string>>({});
+  // Revealed private keys, by wallet id
+  const [visiblePrivateKeys, setVisiblePrivateKeys] = useState<Record<string, boolean>>({});
   const [gridView, setGridView] = useState<boolean>(false);
+  const [showMigration, setShowMigration] = useState<boolean>(false);
+  const [showKeyImport, setShowKeyImport] = useState<boolean>(false);
+  // Fetched balances and in-flight lookups, by wallet id; never persisted
+  const [balances, setBalances] = useState<Record<string, AccountBalance>>({});
+  const [loadingBalances, setLoadingBalances] = useState<Record<string, boolean>>({});
+  // Account discovery scan of the active chain tab; never persisted
+  const [showDiscovery, setShowDiscovery] = useState<boolean>(false);
+  const [showTools, setShowTools] = useState<boolean>(false);
+  const [discovery, setDiscovery] = useState<AccountDiscovery | null>(null);
+  const discoveryAbortRef = useRef<AbortController | null>(null);
+
+  const { toast } = useToast();
+
+  const activeVault = vaults.find((vault) => vault.id === activeVaultId);
+  // Wallets of the active chain tab
+  const wallets = useMemo<Wallet[]>(
+    () => (activeVault ? getChainWallets(activeVault, chain) : []),
+    [activeVault, chain]
+  );
+  const walletCounts = useMemo<Record<string, number>>(() => {
+    const counts: Record<string, number> = {};
+    activeVault?.wallets.forEach((wallet) => {
+      counts[wallet.chain] = (counts[wallet.chain] ?? 0) + 1;
+    });
+    return counts;
+  }, [activeVault]);
+  const nextAccountIndex = activeVault ? getNextAccountIndex(activeVault, chain) : 0;
+  const deletedAccountIndexes = useMemo<number[]>(
+    () => (activeVault ? getDeletedAccountIndexes(activeVault, chain) : []),
+    [activeVault, chain]
+  );
+  const mnemonicWords = useMemo<string[]>(() => activeVault?.mnemonic ?? [], [activeVault]);
+
+  // undefined means the vault has a passphrase that is not known this session
+  const activePassphrase = activeVault
+    ? activeVault.passphrase ??
+      sessionPassphrases[activeVault.id] ??
+      (activeVault.hasPassphrase ? undefined : "")
+    : undefined;
+
+  // Vaults created before passphrase support have no stored fingerprint.
+  const activeFingerprint = useMemo<string | undefined>(() => {
+    if (!activeVault || activeVault.fingerprint || activePassphrase === undefined) {
+      return activeVault?.fingerprint;
+    }
+    return getSeedFingerprint(activeVault.mnemonic.join(" "), activePassphrase);
+  }, [activeVault, activePassphrase]);
+
+  const detectedLanguage = useMemo<string | null>(
+    () =>
+      mnemonicEntry.every(Boolean) ? detectMnemonicLanguage(mnemonicEntry.join(" ")) : null,
+    [mnemonicEntry]
+  );
+  const fingerprintPreview = useMemo<string | null>(
+    () =>
+      detectedLanguage
+        ? getSeedFingerprint(splitMnemonic(mnemonicEntry.join(" ")).join(" "), passphraseInput)
+        : null,
+    [detectedLanguage, mnemonicEntry, passphraseInput]
+  );
+
+  const chainAdapter = getChainAdapter(chain);
+  const chainNetwork = chainAdapter && getChainNetwork(chainAdapter, network);
+  const pathTypeName = [
+    chainAdapter?.name,
+    chainNetwork && chainNetwork.id !== chainAdapter?.networks?.[0].id
+      ? chainNetwork.name
+      : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const hasLegacyWallets = wallets.some(isLegacyEthereumWallet);
+  const discoveryEndpoint = getRpcEndpoint(rpc, chain);
+
+  // Re-deriving costs a full PBKDF2 seed stretch, so only do it while the
+  // user is actually looking at the migration view.
+  const migrationWallets = useMemo<(Wallet | null)[]>(() => {
+    // Without the passphrase the standard address is unknown, not the
+    // passphrase-less one.
+    if (!showMigration || activePassphrase === undefined) {
+      return [];
+    }
+    const mnemonic = mnemonicWords.join(" ");
+    return wallets.map((wallet) =>
+      isLegacyEthereumWallet(wallet)
+        ? deriveMigrationTarget(wallet, mnemonic, activePassphrase)
+        : null
+    );
+  }, [showMigration, wallets, mnemonicWords, activePassphrase]);
+
+  /**
+   * Stops a running account discovery scan and closes its panel.
+   */
+  const closeDiscovery = useCallback(() => {
+    discoveryAbortRef.current?.abort();
+    discoveryAbortRef.current = null;
+    setShowDiscovery(false);
+    setDiscovery(null);
+  }, []);
+
+  /**
+   * Makes a vault active and resets per-vault UI state. The chain tab,
+   * network and path template follow the vault's most recent wallet.
+   */
+  const activateVault = useCallback((vault: Vault | undefined) => {
+    const activeChain =
+      vault?.wallets[vault.wallets.length - 1]?.chain ?? vault?.chains[0] ?? "";
+    const defaults = getChainTabDefaults(vault?.wallets ?? [], activeChain);
+
+    setActiveVaultId(vault?.id ?? null);
+    setChain(activeChain);
+    setNetwork(defaults.network);
+    setPathTemplate(defaults.pathTemplate);
+    setVisiblePrivateKeys({});
+    setShowMnemonic(false);
+    setShowMigration(false);
+    setShowBackupQuiz(false);
+    setShowKeyImport(false);
+    setShowShamirSplit(false);
+    setShamirShares(null);
+    closeDiscovery();
+  }, [closeDiscovery]);
+
+  /**
+   * Updates vault (and optionally trash) state and synchronizes it to
+   * localStorage.
+   */
+  const persistVaults = (
+    updatedVaults: Vault[],
+    updatedActiveVaultId: string | null,
+    updatedTrash: Trash = trash
+  ) => {
+    setVaults(updatedVaults);
+    setActiveVaultId(updatedActiveVaultId);
+    setTrash(updatedTrash);
+    saveWalletsToStorage(
+      { vaults: updatedVaults, activeVaultId: updatedActiveVaultId, trash: updatedTrash, rpc },
+      storageKey
+    ).catch(() => {
+      toast({
+        description: "Failed to save wallets.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  /**
+   * Loads stored data into state. Trash items past the retention period
+   * are purged here and the purge is written back to storage.
+   */
+  const hydrate = useCallback(
+    (storedData: StoredWalletData | null, key: StorageKey | null) => {
+      if (storedData) {
+        const purgedTrash = purgeExpiredTrash(storedData.trash);
+        setVaults(storedData.vaults);
+        setTrash(purgedTrash);
+        setRpc(storedData.rpc);
+        activateVault(
+          storedData.vaults.find((vault) => vault.id === storedData.activeVaultId)
+        );
+        if (purgedTrash !== storedData.trash) {
+          // A failed write is retried by the next save, which includes the trash.
+          saveWalletsToStorage({ ...storedData, trash: purgedTrash }, key).catch(() => undefined);
+        }
+      }
+    },
+    [activateVault]
+  );
+
+  // Hydrate state from localStorage on mount. Encrypted data waits for
+  // the unlock screen; unreadable data shows the recovery screen.
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (isStorageEncrypted()) {
+          setIsEncrypted(true);
+          setIsLocked(true);
+          return;
+        }
+        hydrate(await loadWalletsFromStorage(), null);
+      } catch (error) {
+        setStorageError(
+          error instanceof StorageCorruptionError
+            ? error
+            : new StorageCorruptionError("Stored data could not be loaded.", error)
+        );
+      }
+    };
+    load();
+  }, [hydrate]);
+
+  /**
+   * Decrypts stored data with the user's password and hydrates state.
+   */
+  const handleUnlock = async (password: string) => {
+    try {
+      const key = await unlockStorage(password);
+      const storedData = await loadWalletsFromStorage(key);
+      setStorageKey(key);
+      setIsLocked(false);
+      hydrate(storedData, key);
+    } catch (error) {
+      if (error instanceof StorageCorruptionError) {
+        setStorageError(error);
+        return;
+      }
+      toast({
+        description:
+          error instanceof IncorrectPasswordError
+            ? "Incorrect password."
+            : "Failed to unlock wallets.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Downloads the raw contents of wallet storage from the recovery screen.
+   */
+  const handleExportRawStorage = () => {
+    downloadFile(
+      `forgesphere-raw-${new Date().toISOString().slice(0, 10)}.json`,
+      JSON.stringify(exportRawStorage(), null, 2)
+    );
+  };
+
+  /**
+   * Wipes unreadable storage and starts fresh.
+   * Requires prior user confirmation via AlertDialog.
+   */
+  const handleResetStorage = () => {
+    clearWalletStorage();
+    setStorageError(null);
+    setStorageKey(null);
+    setIsEncrypted(false);
+    setIsLocked(false);
+    setVaults([]);
+    setTrash(EMPTY_TRASH);
+    setRpc(DEFAULT_RPC_SETTINGS);
+    setBalances({});
+    activateVault(undefined);
+    toast({
+      description: "Wallet storage reset.",
+    });
+  };
+
+  /**
+   * Drops all decrypted state and the storage key from memory.
+   */
+  const handleLock = () => {
+    setStorageKey(null);
+    setVaults([]);
+    setTrash(EMPTY_TRASH);
+    setRpc(DEFAULT_RPC_SETTINGS);
+    setBalances({});
+    activateVault(undefined);
+    setMnemonicEntry(emptyMnemonicEntry(mnemonicEntry.length));
+    setVaultNameInput("");
+    setPassphraseInput("");
+    setSessionPassphrases({});
+    setPendingImport(null);
+    setIsLocked(true);
+    toast({
+      description: "Wallets locked.",
+    });
+  };
+
+  /**
+   * Enables encryption, or re-encrypts under a new password.
+   */
+  const handleSetPassword = async (password: string) => {
+    try {
+      const key = await setStoragePassword({ vaults, activeVaultId, trash, rpc }, password);
+      setStorageKey(key);
+      setIsEncrypted(true);
+      toast({
+        description: "Password saved. Wallets are encrypted.",
+      });
+    } catch {
+      toast({
+        description: "Failed to encrypt wallets.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Disables encryption. Requires prior confirmation via AlertDialog.
+   */
+  const handleRemovePassword = async () => {
+    try {
+      await saveWalletsToStorage({ vaults, activeVaultId, trash, rpc }, null);
+      setStorageKey(null);
+      setIsEncrypted(false);
+      toast({
+        description: "Password removed.",
+      });
+    } catch {
+      toast({
+        description: "Failed to save wallets.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Downloads all vaults as a password-encrypted backup file.
+   */
+  const handleExportBackup = async (password: string) => {
+    try {
+      downloadFile(
+        `forgesphere-backup-${new Date().toISOString().slice(0, 10)}.json`,
+        await createBackup({ vaults, activeVaultId, trash, rpc }, password)
+      );
+      toast({
+        description: "Backup downloaded.",
+      });
+    } catch {
+      toast({
+        description: "Failed to create backup.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Decrypts a backup file and compares it with the current vaults.
+   * Nothing is written until the diff is confirmed.
+   * 
+   * @returns true if the backup was opened
+   */
+  const handleOpenBackup = async (content: string, password: string): Promise<boolean> => {
+    try {
+      const data = await openBackup(content, password);
+      setPendingImport(diffBackup(vaults, data.vaults));
+      return true;
+    } catch (error) {
+      toast({
+        description:
+          error instanceof IncorrectPasswordError
+            ? "Incorrect backup password, or the file was modified."
+            : error instanceof InvalidBackupError
+              ? error.message
+              : "Failed to open backup.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Writes a reviewed backup import. Replacing requires prior user
+   * confirmation via AlertDialog in BackupImportPreview; wallets it
+   * drops go to the trash.
+   */
+  const handleApplyImport = (mode: BackupImportMode) => {
+    if (!pendingImport) {
+      return;
+    }
+    const updatedVaults = applyBackupImport(vaults, pendingImport, mode);
+    const updatedActiveVaultId = activeVaultId ?? updatedVaults[0]?.id ?? null;
+    const updatedTrash =
+      mode === "replace"
+        ? pendingImport.reduce(
+            (current, diff) =>
+              diff.existing && diff.status === "changed"
+                ? trashWallets(current, diff.existing, diff.removedWallets)
+                : current,
+            trash
+          )
+        : trash;
+
+    persistVaults(updatedVaults, updatedActiveVaultId, updatedTrash);
+    activateVault(updatedVaults.find((vault) => vault.id === updatedActiveVaultId));
+    setPendingImport(null);
+
+    const added = pendingImport.filter((diff) => diff.status === "new").length;
+    const updated = pendingImport.filter((diff) => diff.status === "changed").length;
+    toast({
+      description: `Backup imported: ${added} new, ${updated} ${mode === "merge" ? "merged" : "replaced"}.`,
+    });
+  };
+
+  /**
+   * Handles chain selection from ChainSelector component.
+   */
+  const handleSelectChain = (pathType: string, networkId?: string) => {
+    setChain(pathType);
+    setNetwork(networkId);
+    setPathTemplate(getChainAdapter(pathType)?.defaultPathTemplate ?? "");
+    toast({
+      description: "Wallet selected. Please generate a wallet to continue.",
+    });
+  };
+
+  /**
+   * Switches the active vault's chain tab.
+   */
+  const handleSelectChainTab = (chainId: string) => {
+    const defaults = getChainTabDefaults(activeVault?.wallets ?? [], chainId);
+    setChain(chainId);
+    setNetwork(defaults.network);
+    setPathTemplate(defaults.pathTemplate);
+    setShowMigration(false);
+    setShowKeyImport(false);
+    closeDiscovery();
+  };
+
+  /**
+   * Adds a chain tab to the active vault. Its wallets are derived from
+   * the same seed with "Add Wallet".
+   */
+  const handleAddChain = (chainId: string, networkId?: string) => {
+    if (!activeVault) {
+      return;
+    }
+    persistVaults(addVaultChain(vaults, activeVault.id, chainId), activeVault.id);
+    setChain(chainId);
+    setNetwork(networkId);
+    setPathTemplate(getChainAdapter(chainId)?.defaultPathTemplate ?? "");
+    setShowMigration(false);
+    setShowKeyImport(false);
+    closeDiscovery();
+    toast({
+      description: `${getChainAdapter(chainId)?.name ?? "Chain"} added. Add a wallet to continue.`,
+    });
+  };
+
+  /**
+   * Closes an empty chain tab and switches to the vault's first chain.
+   */
+  const handleRemoveChain = (chainId: string) => {
+    if (!activeVault) {
+      return;
+    }
+    const updatedVaults = removeVaultChain(vaults, activeVault.id, chainId);
+    persistVaults(updatedVaults, activeVault.id);
+    if (chainId === chain) {
+      handleSelectChainTab(
+        updatedVaults.find((vault) => vault.id === activeVault.id)?.chains[0] ?? ""
+      );
+    }
+  };
+
+  /**
+   * Switches to another vault.
+   */
+  const handleSelectVault = (vaultId: string) => {
+    const vault = vaults.find((v) => v.id === vaultId);
+    activateVault(vault);
+    persistVaults(vaults, vault?.id ?? null);
+  };
+
+  /**
+   * Leaves the active vault and returns to the setup flow for a new one.
+   */
+  const handleNewVault = () => {
+    activateVault(undefined);
+    setMnemonicEntry(emptyMnemonicEntry(mnemonicEntry.length));
+    setVaultNameInput("");
+    setPassphraseInput("");
+    setRememberPassphrase(false);
+  };
+
+  /**
+   * Moves one wallet of the active vault to the trash. Its account index
+   * is not reused by "Add Wallet" but can be re-added on purpose.
+   * Requires prior user confirmation via AlertDialog in WalletCard.
+   */
+  const handleDeleteWallet = (walletId: string) => {
+    const wallet = wallets.find((w) => w.id === walletId);
+    if (!activeVault || !wallet) {
+      return;
+    }
+    persistVaults(
+      removeVaultWallet(vaults, activeVault.id, walletId),
+      activeVault.id,
+      trashWallets(trash, activeVault, [wallet])
+    );
+    toast({
+      description: "Wallet moved to the trash.",
+    });
+  };
+
+  /**
+   * Moves all wallets of the active chain tab to the trash as one item.
+   * The vault and its mnemonic are kept, so wallets can be derived again.
+   * Requires prior user confirmation via AlertDialog.
+   */
+  const handleClearWallets = () => {
+    if (!activeVault) {
+      return;
+    }
+    persistVaults(
+      setVaultWallets(
+        vaults,
+        activeVault.id,
+        activeVault.wallets.filter((wallet) => wallet.chain !== chain)
+      ),
+      activeVault.id,
+      trashWallets(trash, activeVault, wallets)
+    );
+    setVisiblePrivateKeys({});
+    toast({
+      description: "All wallets moved to the trash.",
+    });
+  };
+
+  /**
+   * Moves the active vault, including its mnemonic and wallets, to the
+   * trash. Requires prior user confirmation via AlertDialog.
+   */
+  const handleDeleteVault = () => {
+    if (!activeVault) {
+      return;
+    }
+    const updatedVaults = removeVault(vaults, activeVault.id);
+    const nextVault = updatedVaults[0];
+
+    activateVault(nextVault);
+    persistVaults(updatedVaults, nextVault?.id ?? null, trashVault(trash, activeVault));
+    toast({
+      description: "Vault moved to the trash.",
+    });
+  };
+
+  /**
+   * Puts a trash item back. A restored vault becomes active if no vault
+   * is.
+   */
+  const handleRestoreTrashItem = (itemId: string) => {
+    const item = trash.items.find((i) => i.id === itemId);
+    if (!item) {
+      return;
+    }
+
+    let updatedVaults: Vault[];
+    try {
+      updatedVaults = restoreTrashItem(vaults, item);
+    } catch (error) {
+      toast({
+        description:
+          error instanceof TrashRestoreError ? error.message : "Failed to restore from the trash.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updatedActiveVaultId =
+      activeVaultId ?? updatedVaults[updatedVaults.length - 1]?.id ?? null;
+    persistVaults(updatedVaults, updatedActiveVaultId, removeTrashItem(trash, itemId));
+    if (!activeVaultId) {
+      activateVault(updatedVaults.find((vault) => vault.id === updatedActiveVaultId));
+    }
+    toast({
+      description: item.kind === "vault" ? "Vault restored." : "Wallets restored.",
+    });
+  };
+
+  /**
+   * Permanently deletes one trash item.
+   * Requires prior user confirmation via AlertDialog in TrashPanel.
+   */
+  const handlePurgeTrashItem = (itemId: string) => {
+    persistVaults(vaults, activeVaultId, removeTrashItem(trash, itemId));
+    toast({
+      description: "Permanently deleted.",
+    });
+  };
+
+  /**
+   * Permanently deletes everything in the trash.
+   * Requires prior user confirmation via AlertDialog in TrashPanel.
+   */
+  const handleEmptyTrash = () => {
+    persistVaults(vaults, activeVaultId, { ...trash, items: [] });
+    toast({
+      description: "Trash emptied.",
+    });
+  };
+
+  /**
+   * Sets the auto-purge period and applies it right away.
+   */
+  const handleSetTrashRetention = (retentionDays: number | null) => {
+    const updatedTrash = purgeExpiredTrash({ ...trash, retentionDays });
+    persistVaults(vaults, activeVaultId, updatedTrash);
+    const purged = trash.items.length - updatedTrash.items.length;
+    if (purged > 0) {
+      toast({
+        description: `${purged} expired ${purged === 1 ? "item" : "items"} purged from the trash.`,
+      });
+    }
+  };
+
+  /**
+   * Updates the RPC settings and saves them with the vaults. Balances
+   * fetched from a previous endpoint are dropped.
+   */
+  const handleSaveRpcSettings = (settings: RpcSettings) => {
+    setRpc(settings);
+    setBalances({});
+    saveWalletsToStorage({ vaults, activeVaultId, trash, rpc: settings }, storageKey)
+      .then(() => {
+        toast({
+          description: settings.enabled ? "Balance lookups enabled." : "Balance lookups disabled.",
+        });
+      })
+      .catch(() => {
+        toast({
+          description: "Failed to save wallets.",
+          variant: "destructive",
+        });
+      });
+  };
+
+  /**
+   * Fetches a wallet's balance from its chain's RPC endpoint. Only the
+   * address is sent; fetchBalance refuses any request carrying a secret.
+   */
+  const handleRefreshBalance = async (wallet: Wallet) => {
+    setLoadingBalances((loading) => ({ ...loading, [wallet.id]: true }));
+    try {
+      const balance = await fetchBalance(
+        wallet.chain,
+        wallet.publicKey,
+        getRpcEndpoint(rpc, wallet.chain) ?? "",
+        getKnownSecrets(vaults, trash, sessionPassphrases)
+      );
+      setBalances((current) => ({ ...current, [wallet.id]: balance }));
+    } catch (error) {
+      toast({
+        description:
+          error instanceof RpcError || error instanceof RpcGuardError
+            ? error.message
+            : "Failed to fetch the balance.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingBalances((loading) => ({ ...loading, [wallet.id]: false }));
+    }
+  };
+
+  /**
+   * Dry run of a sweep: fetches the wallet's state and signs a transfer of
+   * its whole balance, without submitting it.
+   *
+   * @returns The signed plan, or null if it failed (a toast explains why)
+   */
+  const handleSweepPreview = async (wallet: Wallet, to: string): Promise<SweepPlan | null> => {
+    try {
+      return await prepareSweep(
+        wallet,
+        to,
+        getRpcEndpoint(rpc, wallet.chain) ?? "",
+        getKnownSecrets(vaults, trash, sessionPassphrases)
+      );
+    } catch (error) {
+      toast({
+        description:
+          error instanceof SweepError ||
+          error instanceof RpcError ||
+          error instanceof RpcGuardError ||
+          error instanceof TransactionBuildError
+            ? error.message
+            : "Failed to prepare the sweep.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Submits a previewed sweep through the wallet's RPC endpoint and
+   * refreshes its balance.
+   *
+   * @returns The transaction signatures or hash, or null if it failed
+   */
+  const handleSweepSubmit = async (wallet: Wallet, plan: SweepPlan): Promise<string[] | null> => {
+    try {
+      const ids = await submitSweep(
+        plan,
+        getRpcEndpoint(rpc, wallet.chain) ?? "",
+        getKnownSecrets(vaults, trash, sessionPassphrases)
+      );
+      toast({
+        description: "Sweep submitted.",
+      });
+      handleRefreshBalance(wallet);
+      return ids;
+    } catch (error) {
+      toast({
+        description:
+          error instanceof SweepError || error instanceof RpcError || error instanceof RpcGuardError
+            ? error.message
+            : "Failed to submit the sweep.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Copies content to clipboard and shows feedback toast.
+   */
+  const copyToClipboard = (content: string) => {
+    navigator.clipboard.writeText(content);
+    toast({
+      description: "Copied to clipboard!",
+    });
+  };
+
+  /**
+   * Toggles private key visibility for one wallet.
+   */
+  const togglePrivateKeyVisibility = (walletId: string) => {
+    setVisiblePrivateKeys({
+      ...visiblePrivateKeys,
+      [walletId]: !visiblePrivateKeys[walletId],
+    });
+  };
+
+  /**
+   * Derives a wallet with the current chain, network and path template,
+   * by default at the vault's next unused account index. Paths that are
+   * already in the list on the same network (e.g. a template without an
+   * {index} placeholder) are rejected; Bitcoin testnet and regtest share
+   * coin type 1 and so their paths.
+   */
+  const deriveNextWallet = (
+    mnemonic: string,
+    passphrase: string,
+    accountIndex: number = nextAccountIndex
+  ): Wallet | null => {
+    const wallet = generateWalletFromMnemonic(chain, mnemonic, accountIndex, {
+      network,
+      pathTemplate: chainAdapter?.pathTemplates ? pathTemplate : undefined,
+      passphrase,
+    });
+
+    if (
+      wallets.some(
+        (existing) => existing.network === wallet.network && existing.path === wallet.path
+      )
+    ) {
+      toast({
+        description: "This derivation path is already in use.",
+        variant: "destructive",
+      });
+      return null;
+    }
+    return wallet;
+  };
+
+  /**
+   * Shows the toast for a failed derivation.
+   */
+  const showDerivationError = (error: unknown) => {
+    if (error instanceof UnsupportedPathTypeError) {
+      toast({
+        description: "Unsupported path type.",
+        variant: "destructive",
+      });
+    } else if (error instanceof InvalidDerivationPathError) {
+      toast({
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        description: `Failed to generate wallet due to ${error}. Please try again.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  /**
+   * Shows a toast explaining why the entered phrase is invalid.
+   */
+  const showMnemonicIssue = () => {
+    const issue = diagnoseMnemonic(mnemonicEntry, mnemonicLanguage);
+    let description = "Invalid recovery phrase. Please try again.";
+    if (issue?.kind === "incomplete") {
+      description = `Fill in all ${mnemonicEntry.length} words, or clear them to generate a new phrase.`;
+    } else if (issue?.kind === "unknown-word") {
+      description = `Word ${issue.index + 1} is not in the ${getMnemonicLanguage(mnemonicLanguage).name} wordlist.`;
+    } else if (issue?.kind === "checksum") {
+      description = "Checksum does not match. Check the suggested corrections.";
+    }
+    toast({
+      description,
+      variant: "destructive",
+    });
+  };
+
+  /**
+   * Scans the active chain's account indices for on-chain history with the
+   * current network and path template, replacing any running scan.
+   * 
+   * SECURITY: Caller MUST validate the mnemonic first. Only addresses are
+   * sent; the RPC guard also checks for the phrase and the scanned keys.
+   */
+  const runDiscovery = async (
+    endpoint: string,
+    mnemonic: string,
+    passphrase: string,
+    gapLimit?: number
+  ) => {
+    discoveryAbortRef.current?.abort();
+    const controller = new AbortController();
+    discoveryAbortRef.current = controller;
+    const accounts: DiscoveredAccount[] = [];
+    // Ignores progress from a scan that was replaced or closed.
+    const update = (status: AccountDiscovery["status"]) => {
+      if (discoveryAbortRef.current === controller) {
+        setDiscovery({ accounts: [...accounts], status });
+      }
+    };
+
+    setShowDiscovery(true);
+    update("scanning");
+    try {
+      await discoverAccounts(chain, mnemonic, {
+        network,
+        pathTemplate: chainAdapter?.pathTemplates ? pathTemplate : undefined,
+        passphrase,
+        endpoint,
+        knownSecrets: getKnownSecrets(vaults, trash, sessionPassphrases),
+        gapLimit,
+        signal: controller.signal,
+        onAccount: (account) => {
+          accounts.push(account);
+          update("scanning");
+        },
+      });
+      update(controller.signal.aborted ? "stopped" : "done");
+    } catch (error) {
+      update("failed");
+      if (error instanceof RpcError || error instanceof RpcGuardError) {
+        toast({
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        showDerivationError(error);
+      }
+    }
+  };
+
+  /**
+   * Starts account discovery for the active vault from the panel.
+   */
+  const handleDiscoverAccounts = (gapLimit: number) => {
+    if (!activeVault || !discoveryEndpoint) {
+      return;
+    }
+    if (activePassphrase === undefined) {
+      toast({
+        description: "Enter this vault's passphrase first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    runDiscovery(discoveryEndpoint, mnemonicWords.join(" "), activePassphrase, gapLimit);
+  };
+
+  /**
+   * Adds the used accounts found by discovery to the active vault, skipping
+   * paths the vault already holds on the same network.
+   */
+  const handleAddDiscoveredAccounts = (accounts: Wallet[]) => {
+    if (!activeVault) {
+      return;
+    }
+    const discovered = accounts.filter(
+      (wallet, i) =>
+        !activeVault.wallets.some(
+          (existing) =>
+            existing.chain === wallet.chain &&
+            existing.network === wallet.network &&
+            existing.path === wallet.path
+        ) && accounts.findIndex((other) => other.path === wallet.path) === i
+    );
+    if (discovered.length === 0) {
+      return;
+    }
+    persistVaults(
+      discovered.reduce(
+        (updatedVaults, wallet) => addVaultWallet(updatedVaults, activeVault.id, wallet),
+        vaults
+      ),
+      activeVault.id
+    );
+    toast({
+      description: `Added ${discovered.length} used ${discovered.length === 1 ? "account" : "accounts"}.`,
+    });
+  };
+
+  /**
+   * Creates a new vault from validated words and derives its first wallet.
+   * 
+   * SECURITY: Caller MUST validate the words first.
+   * @returns true if the vault was created
+   */
+  const createVaultFromWords = (
+    words: string[],
+    language: string,
+    isGenerated: boolean
+  ): boolean => {
+    const mnemonic = words.join(" ");
+
+    try {
+      const wallet = deriveNextWallet(mnemonic, passphraseInput);
+      if (!wallet) {
+        return false;
+      }
+
+      const vault: Vault = {
+        ...createVault(
+          vaultNameInput.trim() || nextVaultName(vaults),
+          words,
+          chain,
+          {
+            language,
+            passphrase: passphraseInput,
+            rememberPassphrase,
+            fingerprint: getSeedFingerprint(mnemonic, passphraseInput),
+            generated: isGenerated,
+          }
+        ),
+        wallets: [wallet],
+        nextAccountIndex: { [chain]: 1 },
+      };
+      if (vault.hasPassphrase && !rememberPassphrase) {
+        setSessionPassphrases({ ...sessionPassphrases, [vault.id]: passphraseInput });
+      }
+      persistVaults([...vaults, vault], vault.id);
+      setMnemonicEntry(emptyMnemonicEntry(mnemonicEntry.length));
+      setVaultNameInput("");
+      setPassphraseInput("");
+      setRememberPassphrase(false);
+      setScanOnImport(false);
+      setVisiblePrivateKeys({});
+      // A new phrase is shown right away so it can be written down.
+      setShowMnemonic(isGenerated);
+      toast({
+        description: isGenerated
+          ? "Wallet generated. Write down your secret phrase, then verify it."
+          : "Wallet generated successfully!",
+      });
+      if (!isGenerated && scanOnImport && discoveryEndpoint) {
+        runDiscovery(discoveryEndpoint, mnemonic, passphraseInput);
+      }
+      return true;
+    } catch (error) {
+      showDerivationError(error);
+      return false;
+    }
+  };
+
+  /**
+   * Creates a new vault from an imported mnemonic, or from a freshly
+   * generated one if input is empty.
+   * 
+   * SECURITY: Validates mnemonic with bip39 before derivation.
+   */
+  const handleGenerateWallet = () => {
+    if (!mnemonicEntry.some(Boolean)) {
+      createVaultFromWords(
+        generateMnemonicWords(mnemonicEntry.length as MnemonicLength, mnemonicLanguage),
+        mnemonicLanguage,
+        true
+      );
+      return;
+    }
 
-  const { toast } = useToast();
+    // SECURITY: Mandatory validation per SECURITY.md rule #3
+    if (!detectedLanguage) {
+      showMnemonicIssue();
+      return;
+    }
+    createVaultFromWords(splitMnemonic(mnemonicEntry.join(" ")), detectedLanguage, false);
+  };
 
-  const pathTypeName = PATH_TYPE_NAMES[chain] || "";
+  /**
+   * Recombines SLIP-39 shares into a phrase in the selected wordlist and
+   * creates a vault from it.
+   * 
+   * SECURITY: Recovered words are re-validated with bip39 before derivation.
+   * @returns true if the vault was created
+   */
+  const handleRecoverShares = (shares: string[]): boolean => {
+    let words: string[];
+    try {
+      words = recoverMnemonicFromShares(shares, mnemonicLanguage);
+    } catch (error) {
+      toast({
+        description:
+          error instanceof Slip39Error ? error.message : "Failed to combine shares.",
+        variant: "destructive",
+      });
+      return false;
+    }
 
-  // Hydrate state from localStorage on mount
-  useEffect(() => {
-    const storedData = loadWalletsFromStorage();
-    if (storedData) {
-      setMnemonicWords(storedData.mnemonics);
-      setWallets(storedData.wallets);
-      setVisiblePrivateKeys(storedData.wallets.map(() => false));
-      setVisiblePhrases(storedData.wallets.map(() => false));
-      setChain(storedData.chain);
+    // SECURITY: Mandatory validation per SECURITY.md rule #3
+    const language = detectMnemonicLanguage(words.join(" "));
+    if (!language) {
+      toast({
+        description: "Shares did not produce a valid recovery phrase.",
+        variant: "destructive",
+      });
+      return false;
     }
-  }, []);
+    return createVaultFromWords(words, language, false);
+  };
 
   /**
-   * Handles chain selection from ChainSelector component.
+   * Splits the active vault's phrase into SLIP-39 shares, kept in memory.
    */
-  const handleSelectChain = (pathType: string) => {
-    setChain(pathType);
-    toast({
-      description: "Wallet selected. Please generate a wallet to continue.",
-    });
+  const handleSplitShares = (groupThreshold: number, groups: Slip39Group[]) => {
+    if (!activeVault) {
+      return;
+    }
+    try {
+      setShamirShares(
+        splitMnemonicIntoShares(mnemonicWords, activeVault.language, groupThreshold, groups)
+      );
+    } catch (error) {
+      toast({
+        description:
+          error instanceof Slip39Error ? error.message : "Failed to create shares.",
+        variant: "destructive",
+      });
+    }
   };
 
   /**
-   * Deletes a wallet at the specified index.
-   * Requires prior user confirmation via AlertDialog in WalletCard.
+   * Opens the backup quiz, hiding the phrase while it runs.
    */
-  const handleDeleteWallet = (index: number) => {
-    const updatedWallets = wallets.filter((_, i) => i !== index);
+  const handleStartBackupQuiz = () => {
+    setShowMnemonic(false);
+    setShowBackupQuiz(true);
+  };
 
-    setWallets(updatedWallets);
-    saveWalletsToStorage(updatedWallets);
-    setVisiblePrivateKeys(visiblePrivateKeys.filter((_, i) => i !== index));
-    setVisiblePhrases(visiblePhrases.filter((_, i) => i !== index));
+  /**
+   * Marks the active vault's backup as verified.
+   */
+  const handleBackupQuizPass = () => {
+    if (!activeVault) {
+      return;
+    }
+    persistVaults(
+      vaults.map((vault) =>
+        vault.id === activeVault.id ? { ...vault, backupVerified: true } : vault
+      ),
+      activeVault.id
+    );
+    setShowBackupQuiz(false);
     toast({
-      description: "Wallet deleted successfully!",
+      description: "Backup verified.",
     });
   };
 
   /**
-   * Clears all wallets and resets state.
-   * Requires prior user confirmation via AlertDialog.
+   * Shows feedback for a failed quiz attempt.
    */
-  const handleClearWallets = () => {
-    clearWalletStorage();
-    setWallets([]);
-    setMnemonicWords([]);
-    setVisiblePrivateKeys([]);
-    setVisiblePhrases([]);
+  const handleBackupQuizFail = () => {
     toast({
-      description: "All wallets cleared.",
+      description: "Those words do not match. Check your backup and try again.",
+      variant: "destructive",
     });
   };
 
   /**
-   * Copies content to clipboard and shows feedback toast.
+   * Adds an additional wallet to the active vault using its mnemonic, at
+   * the next unused account index or at a deleted one being re-added.
    */
-  const copyToClipboard = (content: string) => {
-    navigator.clipboard.writeText(content);
-    toast({
-      description: "Copied to clipboard!",
-    });
+  const handleAddWallet = (accountIndex: number = nextAccountIndex) => {
+    if (!activeVault || mnemonicWords.length === 0) {
+      toast({
+        description: "No mnemonic found. Please generate a wallet first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (activePassphrase === undefined) {
+      toast({
+        description: "Enter this vault's passphrase first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const wallet = deriveNextWallet(mnemonicWords.join(" "), activePassphrase, accountIndex);
+      if (!wallet) {
+        return;
+      }
+
+      persistVaults(addVaultWallet(vaults, activeVault.id, wallet), activeVault.id);
+      toast({
+        description: "Wallet generated successfully!",
+      });
+    } catch (error) {
+      showDerivationError(error);
+    }
   };
 
   /**
-   * Toggles private key visibility for wallet at index.
+   * Downloads one Ethereum wallet as a keystore v3 (UTC/JSON) file.
    */
-  const togglePrivateKeyVisibility = (index: number) => {
-    setVisiblePrivateKeys(
-      visiblePrivateKeys.map((visible, i) => (i === index ? !visible : visible))
-    );
+  const handleExportKeystore = async (
+    wallet: Wallet,
+    password: string,
+    preset: KeystorePreset,
+    onProgress: KeystoreProgress
+  ) => {
+    const adapter = getChainAdapter(wallet.chain);
+    if (!adapter?.decodePrivateKey) {
+      return;
+    }
+    try {
+      const { fileName, json } = await encryptKeystore(
+        adapter.decodePrivateKey(wallet.privateKey),
+        password,
+        preset,
+        onProgress
+      );
+      downloadFile(fileName, json);
+      toast({
+        description: "Keystore downloaded.",
+      });
+    } catch {
+      toast({
+        description: "Failed to create keystore.",
+        variant: "destructive",
+      });
+    }
   };
 
   /**
-   * Generates initial wallet (with optional imported mnemonic) or
-   * generates a new mnemonic if input is empty.
+   * Signs an off-chain message with a wallet's key in one of its chain's
+   * message formats.
    * 
-   * SECURITY: Validates mnemonic with bip39 before derivation.
+   * @returns The signature, or null if signing failed
    */
-  const handleGenerateWallet = () => {
-    let mnemonic = mnemonicInput.trim();
-
-    if (mnemonic) {
-      // SECURITY: Mandatory validation per SECURITY.md rule #3
-      if (!validateMnemonic(mnemonic)) {
-        toast({
-          description: "Invalid recovery phrase. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-    } else {
-      mnemonic = generateMnemonic();
+  const handleSignMessage = (wallet: Wallet, message: string, format: string): string | null => {
+    const adapter = getChainAdapter(wallet.chain);
+    if (!adapter?.signMessage || !adapter.decodePrivateKey) {
+      return null;
+    }
+    try {
+      return adapter.signMessage(
+        adapter.decodePrivateKey(wallet.privateKey),
+        new TextEncoder().encode(message),
+        format
+      );
+    } catch (error) {
+      toast({
+        description:
+          error instanceof MessageSigningError ? error.message : "Failed to sign the message.",
+        variant: "destructive",
+      });
+      return null;
     }
+  };
 
-    const words = mnemonic.split(" ");
-    setMnemonicWords(words);
+  /**
+   * Signs reviewed EIP-712 typed data with an Ethereum wallet's key.
+   * 
+   * @returns The signature, or null if signing failed
+   */
+  const handleSignTypedData = (wallet: Wallet, data: TypedData): string | null => {
+    const adapter = getChainAdapter(wallet.chain);
+    if (!adapter?.decodePrivateKey) {
+      return null;
+    }
+    try {
+      return signTypedData(adapter.decodePrivateKey(wallet.privateKey), data);
+    } catch {
+      toast({
+        description: "Failed to sign the typed data.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
 
+  /**
+   * Builds and signs a transfer offline with a wallet's key.
+   * 
+   * @returns The signed transaction, or null if a field was invalid
+   */
+  const handleSignTransfer = (wallet: Wallet, input: TransferInput): SignedTransaction | null => {
     try {
-      const wallet = generateWalletFromMnemonic(
-        chain,
-        mnemonic,
-        wallets.length
-      );
+      const signed = signTransfer(wallet, input);
+      toast({
+        description: "Transaction signed.",
+      });
+      return signed;
+    } catch (error) {
+      toast({
+        description:
+          error instanceof TransactionBuildError ? error.message : "Failed to sign the transaction.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
 
-      const updatedWallets = [...wallets, wallet];
-      setWallets(updatedWallets);
-      saveWalletsToStorage(updatedWallets, words, chain);
-      setVisiblePrivateKeys([...visiblePrivateKeys, false]);
-      setVisiblePhrases([...visiblePhrases, false]);
+  /**
+   * Signs a transaction built elsewhere with the chosen stored wallets.
+   * 
+   * @returns The signed transaction, or null if signing failed
+   */
+  const handleSignInspectedTransaction = (
+    input: string,
+    signers: Wallet[]
+  ): SignedTransaction | null => {
+    try {
+      const signed = signInspectedTransaction(input, signers);
       toast({
-        description: "Wallet generated successfully!",
+        description: "Transaction signed.",
       });
+      return signed;
     } catch (error) {
-      if (error instanceof UnsupportedPathTypeError) {
-        toast({
-          description: "Unsupported path type.",
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          description: `Failed to generate wallet due to ${error}. Please try again.`,
-          variant: "destructive",
-        });
-      }
+      toast({
+        description:
+          error instanceof TransactionBuildError || error instanceof TransactionDecodeError
+            ? error.message
+            : "Failed to sign the transaction.",
+        variant: "destructive",
+      });
+      return null;
     }
   };
 
   /**
-   * Adds an additional wallet using the existing mnemonic.
+   * Decrypts a keystore file and adds its key to the active vault.
+   * 
+   * @returns true if the wallet was added
    */
-  const handleAddWallet = () => {
-    if (!mnemonicWords || mnemonicWords.length === 0 || mnemonicWords[0] === " ") {
+  const handleImportKeystore = async (
+    content: string,
+    password: string,
+    onProgress: KeystoreProgress
+  ): Promise<boolean> => {
+    if (!activeVault || !chainAdapter) {
+      return false;
+    }
+
+    let privateKey: Uint8Array;
+    try {
+      privateKey = await decryptKeystore(content, password, onProgress);
+    } catch (error) {
       toast({
-        description: "No mnemonic found. Please generate a wallet first.",
+        description:
+          error instanceof IncorrectPasswordError
+            ? "Incorrect keystore password."
+            : error instanceof InvalidKeystoreError
+              ? error.message
+              : "Failed to import keystore.",
         variant: "destructive",
       });
-      return;
+      return false;
+    }
+    return addImportedWallet({
+      id: crypto.randomUUID(),
+      chain: chainAdapter.id,
+      ...chainAdapter.encodeKeyPair(privateKey),
+      path: "",
+      source: "keystore",
+    });
+  };
+
+  /**
+   * Parses a raw private key in one of the chain's formats and adds it to
+   * the active vault.
+   * 
+   * @returns true if the wallet was added
+   */
+  const handleImportPrivateKey = (input: string): boolean => {
+    if (!activeVault || !chainAdapter?.decodePrivateKey) {
+      return false;
     }
 
+    let privateKey: Uint8Array;
     try {
-      const wallet = generateWalletFromMnemonic(
-        chain,
-        mnemonicWords.join(" "),
-        wallets.length
-      );
+      privateKey = chainAdapter.decodePrivateKey(input);
+    } catch (error) {
+      toast({
+        description:
+          error instanceof InvalidPrivateKeyError ? error.message : "Failed to import private key.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return addImportedWallet({
+      id: crypto.randomUUID(),
+      chain: chainAdapter.id,
+      ...chainAdapter.encodeKeyPair(privateKey),
+      path: "",
+      source: "private-key",
+    });
+  };
 
-      const updatedWallets = [...wallets, wallet];
-      setWallets(updatedWallets);
-      saveWalletsToStorage(updatedWallets);
-      setVisiblePrivateKeys([...visiblePrivateKeys, false]);
-      setVisiblePhrases([...visiblePhrases, false]);
+  /**
+   * Appends an imported (non-derived) wallet to the active vault unless its
+   * address is already there.
+   * 
+   * @returns true if the wallet was added
+   */
+  const addImportedWallet = (wallet: Wallet): boolean => {
+    if (!activeVault) {
+      return false;
+    }
+    if (wallets.some((existing) => existing.publicKey === wallet.publicKey)) {
       toast({
-        description: "Wallet generated successfully!",
+        description: "This wallet is already in the vault.",
+        variant: "destructive",
       });
-    } catch (error) {
-      if (error instanceof UnsupportedPathTypeError) {
-        toast({
-          description: "Unsupported path type.",
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          description: `Failed to generate wallet due to ${error}. Please try again.`,
-          variant: "destructive",
-        });
-      }
+      return false;
+    }
+
+    persistVaults(addVaultWallet(vaults, activeVault.id, wallet), activeVault.id);
+    setShowKeyImport(false);
+    toast({
+      description: "Key imported.",
+    });
+    return true;
+  };
+
+  /**
+   * Checks a re-entered BIP39 passphrase against the active vault's
+   * fingerprint, then keeps it in memory or persists it with the vault.
+   */
+  const handleEnterPassphrase = (passphrase: string, remember: boolean) => {
+    if (!activeVault) {
+      return;
+    }
+    const fingerprint = getSeedFingerprint(mnemonicWords.join(" "), passphrase);
+    if (activeVault.fingerprint && fingerprint !== activeVault.fingerprint) {
+      toast({
+        description: `Fingerprint ${fingerprint} does not match this vault. Check the passphrase.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (remember) {
+      persistVaults(
+        vaults.map((vault) =>
+          vault.id === activeVault.id ? { ...vault, passphrase, fingerprint } : vault
+        ),
+        activeVault.id
+      );
+    } else {
+      setSessionPassphrases({ ...sessionPassphrases, [activeVault.id]: passphrase });
     }
+    toast({
+      description: "Passphrase accepted.",
+    });
   };
 
+  if (storageError) {
+    return (
+      <div className="w-[80%] flex flex-col gap-4">
+        <RecoveryScreen
+          errorMessage={storageError.message}
+          onExport={handleExportRawStorage}
+          onReset={handleResetStorage}
+        />
+      </div>
+    );
+  }
+
+  if (isLocked) {
+    return (
+      <div className="w-[80%] flex flex-col gap-4">
+        <UnlockScreen onUnlock={handleUnlock} />
+      </div>
+    );
+  }
+
   return (
     <div className="w-[80%] flex flex-col gap-4">
-      {/* Initial setup flow (no wallets yet) */}
-      {wallets.length === 0 && (
+      {/* Vault switcher */}
+      {vaults.length > 0 && (
+        <VaultSwitcher
+          vaults={vaults}
+          activeVaultId={activeVaultId}
+          onSelectVault={handleSelectVault}
+          onNewVault={handleNewVault}
+        />
+      )}
+
+      {/* Storage encryption */}
+      {(vaults.length > 0 || isEncrypted) && (
+        <SecurityPanel
+          isEncrypted={isEncrypted}
+          onSetPassword={handleSetPassword}
+          onRemovePassword={handleRemovePassword}
+          onLock={handleLock}
+        />
+      )}
+
+      {/* Deleted vaults and wallets */}
+      {(vaults.length > 0 || trash.items.length > 0) && (
+        <TrashPanel
+          trash={trash}
+          onRestore={handleRestoreTrashItem}
+          onPurge={handlePurgeTrashItem}
+          onEmpty={handleEmptyTrash}
+          onSetRetention={handleSetTrashRetention}
+        />
+      )}
+
+      {/* Backup, signing and lookup tools, collapsed by default */}
+      <div className="flex flex-wrap gap-2">
+        <Button variant={showTools ? "secondary" : "outline"} onClick={() => setShowTools(!showTools)}>
+          <Wrench />
+          Tools
+        </Button>
+      </div>
+      {showTools && (
+        <div className="flex flex-col gap-4">
+          {/* Encrypted backup files */}
+          <BackupPanel
+            canExport={vaults.length > 0}
+            onExport={handleExportBackup}
+            onOpenBackup={handleOpenBackup}
+          />
+
+          {/* EIP-712 review and signing */}
+          {activeVault && (
+            <TypedDataPanel
+              wallets={activeVault.wallets.filter((wallet) => wallet.chain === ethereumAdapter.id)}
+              onSign={handleSignTypedData}
+              onCopy={copyToClipboard}
+            />
+          )}
+
+          {/* Offline transfers for air-gapped signing */}
+          {activeVault && (
+            <TransactionComposer
+              wallets={activeVault.wallets.filter((wallet) => getTransferKind(wallet.chain))}
+              onSign={handleSignTransfer}
+              onCopy={copyToClipboard}
+            />
+          )}
+
+          {/* Review and sign transactions built by other tools */}
+          {vaults.length > 0 && (
+            <TransactionInspector
+              vaults={vaults}
+              onSign={handleSignInspectedTransaction}
+              onCopy={copyToClipboard}
+            />
+          )}
+
+          {/* Opt-in balance lookups */}
+          <RpcSettingsPanel settings={rpc} onSave={handleSaveRpcSettings} />
+
+          {/* Signature verification (public data only) */}
+          <MessageVerifyPanel />
+        </div>
+      )}
+
+      {/* Backup import review */}
+      {pendingImport && (
+        <BackupImportPreview
+          diffs={pendingImport}
+          onApply={handleApplyImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Initial setup flow (no active vault) */}
+      {!activeVault && (
         <motion.div
           className="flex flex-col gap-4"
           initial={{ opacity: 0, y: -20 }}
@@ -256,27 +1775,102 @@ const WalletGenerator = () => {
             {/* Mnemonic input */}
             {chain !== "" && (
               <MnemonicInput
-                mnemonicInput={mnemonicInput}
-                onInputChange={setMnemonicInput}
+                vaultName={vaultNameInput}
+                onVaultNameChange={setVaultNameInput}
+                words={mnemonicEntry}
+                onWordsChange={setMnemonicEntry}
+                onWordCountChange={(length) =>
+                  setMnemonicEntry(
+                    Array.from({ length }, (_, i) => mnemonicEntry[i] ?? "")
+                  )
+                }
+                language={mnemonicLanguage}
+                onLanguageChange={setMnemonicLanguage}
+                detectedLanguage={detectedLanguage}
+                passphrase={passphraseInput}
+                onPassphraseChange={setPassphraseInput}
+                rememberPassphrase={rememberPassphrase}
+                onRememberPassphraseChange={setRememberPassphrase}
+                scanAccounts={scanOnImport}
+                onScanAccountsChange={discoveryEndpoint ? setScanOnImport : undefined}
+                fingerprint={fingerprintPreview}
                 onSubmit={handleGenerateWallet}
+                onRecoverShares={handleRecoverShares}
+              />
+            )}
+
+            {chainAdapter?.pathTemplates && (
+              <PathTemplateSelector
+                adapter={chainAdapter}
+                value={pathTemplate}
+                accountIndex={nextAccountIndex}
+                onChange={setPathTemplate}
               />
             )}
           </div>
         </motion.div>
       )}
 
+      {/* Unverified backup warning */}
+      {activeVault?.backupVerified === false && !showBackupQuiz && (
+        <BackupBanner vaultName={activeVault.name} onVerify={handleStartBackupQuiz} />
+      )}
+
+      {/* Backup quiz (replaces the phrase while open) */}
+      {activeVault && showBackupQuiz && (
+        <BackupQuiz
+          mnemonicWords={mnemonicWords}
+          onPass={handleBackupQuizPass}
+          onFail={handleBackupQuizFail}
+          onCancel={() => setShowBackupQuiz(false)}
+        />
+      )}
+
       {/* Display Secret Phrase */}
-      {mnemonicWords && wallets.length > 0 && (
+      {activeVault && !showBackupQuiz && (
         <MnemonicDisplay
           mnemonicWords={mnemonicWords}
+          fingerprint={activeFingerprint}
+          passphraseMode={
+            activeVault.passphrase !== undefined
+              ? "remembered"
+              : activeVault.hasPassphrase
+                ? "memory"
+                : undefined
+          }
           isExpanded={showMnemonic}
           onToggleExpand={() => setShowMnemonic(!showMnemonic)}
-          onCopy={() => copyToClipboard(mnemonicWords.join(" "))}
+          onCopy={() => copyToClipboard(joinMnemonic(mnemonicWords, activeVault.language))}
+          isBackupVerified={activeVault.backupVerified !== false}
+          onVerifyBackup={handleStartBackupQuiz}
+          onSplitShares={() => setShowShamirSplit(true)}
+        />
+      )}
+
+      {/* SLIP-39 share split */}
+      {activeVault && showShamirSplit && (
+        <ShamirSplitPanel
+          shares={shamirShares}
+          hasPassphrase={Boolean(activeVault.hasPassphrase)}
+          onSplit={handleSplitShares}
+          onCopyShare={copyToClipboard}
+          onClose={() => {
+            setShowShamirSplit(false);
+            setShamirShares(null);
+          }}
+        />
+      )}
+
+      {/* Passphrase needed to derive more wallets */}
+      {activeVault && activePassphrase === undefined && (
+        <PassphrasePrompt
+          fingerprint={activeVault.fingerprint}
+          onSubmit={handleEnterPassphrase}
         />
       )}
 
       {/* Display wallet list */}
-      {wallets.length > 0 && (
+      {activeVault && (
         <motion.div
           initial={{ opacity: 0, y: -20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -289,10 +1883,24 @@ const WalletGenerator = () => {
         >
           {/* Header with actions */}
           <div className="flex md:flex-row flex-col justify-between w-full gap-4 md:items-center">
-            <h2 className="tracking-tighter text-3xl md:text-4xl font-extrabold">
-              {pathTypeName} Wallet
-            </h2>
+            <div className="flex flex-col">
+              <h2 className="tracking-tighter text-3xl md:text-4xl font-extrabold">
+                {pathTypeName} Wallet
+              </h2>
+              <span className="text-primary/50 font-semibold">
+                {activeVault.name}
+              </span>
+            </div>
             <div className="flex gap-2">
+              {hasLegacyWallets && (
+                <Button
+                  variant={showMigration ? "secondary" : "outline"}
+                  onClick={() => setShowMigration(!showMigration)}
+                >
+                  <ArrowRightLeft />
+                  {showMigration ? "Hide Migration" : "Migration Mode"}
+                </Button>
+              )}
               {wallets.length > 1 && (
                 <Button
                   variant={"ghost"}
@@ -302,27 +1910,73 @@ const WalletGenerator = () => {
                   {gridView ? <Grid2X2 /> : <List />}
                 </Button>
               )}
+              {chainAdapter?.decodePrivateKey && (
+                <Button
+                  variant={showKeyImport ? "secondary" : "outline"}
+                  onClick={() => setShowKeyImport(!showKeyImport)}
+                >
+                  <KeyRound />
+                  Import Key
+                </Button>
+              )}
+              {discoveryEndpoint && (
+                <Button
+                  variant={showDiscovery ? "secondary" : "outline"}
+                  onClick={() => (showDiscovery ? closeDiscovery() : setShowDiscovery(true))}
+                >
+                  <ScanSearch />
+                  Discover Accounts
+                </Button>
+              )}
               <Button onClick={() => handleAddWallet()}>Add Wallet</Button>
+              {wallets.length > 0 && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" className="self-end">
+                      Clear Wallets
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>
+                        Move all {pathTypeName} wallets in {activeVault.name} to the trash?
+                      </AlertDialogTitle>
+                      <AlertDialogDescription>
+                        These wallets and keys will be moved to the trash, where
+                        they can be restored until purged. The vault&apos;s secret
+                        phrase and its other chains are kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleClearWallets()}>
+                        Move to Trash
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
               <AlertDialog>
                 <AlertDialogTrigger asChild>
                   <Button variant="destructive" className="self-end">
-                    Clear Wallets
+                    Delete Vault
                   </Button>
                 </AlertDialogTrigger>
                 <AlertDialogContent>
                   <AlertDialogHeader>
                     <AlertDialogTitle>
-                      Are you sure you want to delete all wallets?
+                      Move {activeVault.name} to the trash?
                     </AlertDialogTitle>
                     <AlertDialogDescription>
-                      This action cannot be undone. This will permanently delete
-                      your wallets and keys from local storage.
+                      The vault&apos;s secret phrase, wallets and keys will be
+                      moved to the trash, where they can be restored until
+                      purged.
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
                     <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction onClick={() => handleClearWallets()}>
-                      Delete
+                    <AlertDialogAction onClick={() => handleDeleteVault()}>
+                      Move to Trash
                     </AlertDialogAction>
                   </AlertDialogFooter>
                 </AlertDialogContent>
@@ -330,6 +1984,50 @@ const WalletGenerator = () => {
             </div>
           </div>
 
+          <ChainTabs
+            chains={activeVault.chains}
+            activeChain={chain}
+            walletCounts={walletCounts}
+            onSelectChain={handleSelectChainTab}
+            onAddChain={handleAddChain}
+            onRemoveChain={handleRemoveChain}
+          />
+
+          {showKeyImport && (
+            <KeyImportPanel
+              privateKeyFormats={chainAdapter?.privateKeyFormats}
+              supportsKeystore={chain === ethereumAdapter.id}
+              onImportPrivateKey={handleImportPrivateKey}
+              onImportKeystore={handleImportKeystore}
+              onClose={() => setShowKeyImport(false)}
+            />
+          )}
+
+          {showDiscovery && discoveryEndpoint && (
+            <AccountDiscoveryPanel
+              chainName={pathTypeName}
+              wallets={wallets}
+              discovery={discovery}
+              onScan={handleDiscoverAccounts}
+              onStop={() => discoveryAbortRef.current?.abort()}
+              onAddAccounts={handleAddDiscoveredAccounts}
+              onClose={closeDiscovery}
+            />
+          )}
+
+          {chainAdapter?.pathTemplates && (
+            <PathTemplateSelector
+              adapter={chainAdapter}
+              value={pathTemplate}
+              accountIndex={nextAccountIndex}
+              onChange={setPathTemplate}
+            />
+          )}
+
+          {deletedAccountIndexes.length > 0 && (
+            <DeletedAccounts indexes={deletedAccountIndexes} onReAdd={handleAddWallet} />
+          )}
+
           {/* Wallet cards grid/list */}
           <div
             className={`grid gap-6 grid-cols-1 col-span-1  ${gridView ? "md:grid-cols-2 lg:grid-cols-3" : ""
@@ -337,14 +2035,51 @@ const WalletGenerator = () => {
           >
             {wallets.map((wallet: Wallet, index: number) => (
               <WalletCard
-                key={index}
+                key={wallet.id}
                 wallet={wallet}
+                adapter={getChainAdapter(wallet.chain)}
                 index={index}
-                isPrivateKeyVisible={visiblePrivateKeys[index] || false}
-                onTogglePrivateKey={() => togglePrivateKeyVisibility(index)}
-                onDelete={() => handleDeleteWallet(index)}
-                onCopyPublicKey={() => copyToClipboard(wallet.publicKey)}
-                onCopyPrivateKey={() => copyToClipboard(wallet.privateKey)}
+                isLegacy={isLegacyEthereumWallet(wallet)}
+                migrationWallet={migrationWallets[index]}
+                isPrivateKeyVisible={visiblePrivateKeys[wallet.id] || false}
+                onTogglePrivateKey={() => togglePrivateKeyVisibility(wallet.id)}
+                onDelete={() => handleDeleteWallet(wallet.id)}
+                onCopyPublicKey={copyToClipboard}
+                onCopyPrivateKey={copyToClipboard}
+                onCopyMigrationAddress={() =>
+                  copyToClipboard(migrationWallets[index]?.publicKey ?? "")
+                }
+                onExportKeystore={
+                  wallet.chain === ethereumAdapter.id
+                    ? (password, preset, onProgress) =>
+                        handleExportKeystore(wallet, password, preset, onProgress)
+                    : undefined
+                }
+                onSignMessage={
+                  getChainAdapter(wallet.chain)?.signMessage
+                    ? (message, format) => handleSignMessage(wallet, message, format)
+                    : undefined
+                }
+                onCopySignature={copyToClipboard}
+                balance={balances[wallet.id]}
+                isBalanceLoading={loadingBalances[wallet.id] || false}
+                onRefreshBalance={
+                  getRpcEndpoint(rpc, wallet.chain)
+                    ? () => handleRefreshBalance(wallet)
+                    : undefined
+                }
+                sweepDestinations={getSweepDestinations(vaults, wallet)}
+                onSweepPreview={
+                  getRpcEndpoint(rpc, wallet.chain) && getTransferKind(wallet.chain)
+                    ? (to) => handleSweepPreview(wallet, to)
+                    : undefined
+                }
+                onSweepSubmit={
+                  getRpcEndpoint(rpc, wallet.chain) && getTransferKind(wallet.chain)
+                    ? (plan) => handleSweepSubmit(wallet, plan)
+                    : undefined
+                }
+                onCopyTransactionId={copyToClipboard}
               />
             ))}
           </div>
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { ScanSearch, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Wallet } from "@/lib/wallet-types";
+import { AccountDiscovery, DEFAULT_GAP_LIMIT, GAP_LIMITS } from "@/lib/account-discovery";
+
+interface AccountDiscoveryPanelProps {
+    chainName: string;
+    wallets: Wallet[]; // Wallets of the chain tab, to mark accounts already added
+    discovery: AccountDiscovery | null; // Current or last scan
+    onScan: (gapLimit: number) => void;
+    onStop: () => void;
+    onAddAccounts: (accounts: Wallet[]) => void;
+    onClose: () => void;
+}
+
+/**
+ * Finds the accounts of an imported phrase that have been used: derives
+ * consecutive account indices, checks each address through the chain's
+ * RPC endpoint and stops after gapLimit unused accounts in a row. The used
+ * accounts that are not in the vault yet can then be added at once.
+ *
+ * SECURITY: Only addresses are sent to the endpoint. Scanned keys are
+ * never shown.
+ */
+const AccountDiscoveryPanel = ({
+    chainName,
+    wallets,
+    discovery,
+    onScan,
+    onStop,
+    onAddAccounts,
+    onClose,
+}: AccountDiscoveryPanelProps) => {
+    const [gapLimit, setGapLimit] = useState<number>(DEFAULT_GAP_LIMIT);
+
+    const accounts = discovery?.accounts ?? [];
+    const isScanning = discovery?.status === "scanning";
+    const isAdded = (wallet: Wallet) =>
+        wallets.some(
+            (existing) => existing.network === wallet.network && existing.path === wallet.path
+        );
+    const usedCount = accounts.filter((account) => account.used).length;
+    const newUsedWallets = accounts
+        .filter((account) => account.used && !isAdded(account.wallet))
+        .map((account) => account.wallet)
+        .filter((wallet, i, all) => all.findIndex((w) => w.path === wallet.path) === i);
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+        >
+            <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-col gap-1">
+                    <h2 className="text-2xl md:text-3xl font-bold tracking-tighter flex items-center gap-2">
+                        <ScanSearch className="size-6" />
+                        Discover Accounts
+                    </h2>
+                    <p className="text-primary/80">
+                        Checks {chainName} wallets 1, 2, 3… for on-chain history through
+                        your RPC endpoint and stops after a run of unused ones. Only
+                        addresses are sent.
+                    </p>
+                </div>
+                <Button variant="ghost" onClick={onClose} aria-label="Close">
+                    <X />
+                </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                <span className="font-semibold">Stop after unused:</span>
+                {GAP_LIMITS.map((limit) => (
+                    <Button
+                        key={limit}
+                        size={"sm"}
+                        variant={limit === gapLimit ? "secondary" : "ghost"}
+                        aria-pressed={limit === gapLimit}
+                        disabled={isScanning}
+                        onClick={() => setGapLimit(limit)}
+                    >
+                        {limit}
+                    </Button>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {isScanning ? (
+                    <Button variant="outline" onClick={onStop}>
+                        Stop
+                    </Button>
+                ) : (
+                    <Button variant="outline" onClick={() => onScan(gapLimit)}>
+                        {discovery ? "Scan Again" : "Scan"}
+                    </Button>
+                )}
+                {!isScanning && newUsedWallets.length > 0 && (
+                    <Button onClick={() => onAddAccounts(newUsedWallets)}>
+                        Add {newUsedWallets.length} Used{" "}
+                        {newUsedWallets.length === 1 ? "Account" : "Accounts"}
+                    </Button>
+                )}
+            </div>
+
+            {accounts.length > 0 && (
+                <div className="flex flex-col gap-1 text-sm">
+                    {accounts.map(({ wallet, used }) => (
+                        <div key={wallet.path} className="flex justify-between items-center gap-4">
+                            <span className="font-semibold shrink-0">
+                                Wallet {(wallet.index ?? 0) + 1}
+                            </span>
+                            <span className="font-mono text-primary/80 truncate">
+                                {wallet.publicKey}
+                            </span>
+                            <span className={`shrink-0 ${used ? "font-semibold" : "text-primary/50"}`}>
+                                {used ? (isAdded(wallet) ? "Used · added" : "Used") : "Unused"}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {discovery && (
+                <p className="text-sm text-primary/50">
+                    {discovery.status === "scanning"
+                        ? `Scanning… ${usedCount} used so far.`
+                        : discovery.status === "failed"
+                            ? "The scan failed; the list may be incomplete."
+                            : `${discovery.status === "stopped" ? "Stopped" : "Done"}: ${usedCount} used ${
+                                usedCount === 1 ? "account" : "accounts"
+                            } in ${accounts.length} checked, ${newUsedWallets.length} not in this vault yet.`}
+                </p>
+            )}
+        </motion.div>
+    );
+};
+
+export default AccountDiscoveryPanel;
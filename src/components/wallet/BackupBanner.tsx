@@ -0,0 +1,38 @@
+"use client";
+
+import { TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface BackupBannerProps {
+    vaultName: string;
+    onVerify: () => void;
+}
+
+/**
+ * Persistent warning for a vault whose generated phrase has not passed
+ * the backup quiz yet.
+ */
+const BackupBanner = ({ vaultName, onVerify }: BackupBannerProps) => {
+    return (
+        <div
+            role="alert"
+            className="flex flex-col md:flex-row md:items-center justify-between gap-4 rounded-lg border border-destructive/50 bg-destructive/10 p-4"
+        >
+            <div className="flex items-start gap-3">
+                <TriangleAlert className="size-5 shrink-0 text-destructive" />
+                <div className="flex flex-col">
+                    <span className="font-semibold">{vaultName} is unverified</span>
+                    <span className="text-sm text-primary/80">
+                        Write down the secret phrase, then confirm it. If you lose this
+                        device without a backup, the funds are gone.
+                    </span>
+                </div>
+            </div>
+            <Button variant="outline" onClick={onVerify}>
+                Verify Backup
+            </Button>
+        </div>
+    );
+};
+
+export default BackupBanner;
@@ -0,0 +1,216 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { FileUp, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { getChainAdapter } from "@/lib/chains";
+import { BackupImportMode, VaultImportDiff } from "@/lib/vault-backup";
+import { Wallet } from "@/lib/wallet-types";
+
+const STATUS_LABELS: Record<VaultImportDiff["status"], string> = {
+    new: "New vault",
+    identical: "Already here",
+    changed: "Differs",
+};
+
+interface BackupImportPreviewProps {
+    diffs: VaultImportDiff[];
+    onApply: (mode: BackupImportMode) => void;
+    onCancel: () => void;
+}
+
+const WalletList = ({ label, wallets }: { label: string; wallets: Wallet[] }) =>
+    wallets.length > 0 ? (
+        <div className="flex flex-col">
+            <span>{label}</span>
+            {wallets.map((wallet) => (
+                <span key={wallet.publicKey} className="font-mono text-xs text-primary/50 truncate">
+                    {wallet.path} · {wallet.publicKey}
+                </span>
+            ))}
+        </div>
+    ) : null;
+
+/**
+ * Shows what importing a backup would change, vault by vault, and lets
+ * the user merge or replace before anything is written.
+ *
+ * SECURITY: Only names, settings, paths and addresses are shown; secret
+ * phrases and private keys stay hidden. Replacing vaults is confirmed via
+ * AlertDialog.
+ */
+const BackupImportPreview = ({ diffs, onApply, onCancel }: BackupImportPreviewProps) => {
+    const [mode, setMode] = useState<BackupImportMode>("merge");
+
+    const newCount = diffs.filter((diff) => diff.status === "new").length;
+    const changedCount = diffs.filter((diff) => diff.status === "changed").length;
+    const removedWalletCount = diffs.reduce(
+        (count, diff) => count + diff.removedWallets.length,
+        0
+    );
+    const hasChanges = newCount + changedCount > 0;
+
+    const importButton = (
+        <Button disabled={!hasChanges} onClick={mode === "merge" ? () => onApply(mode) : undefined}>
+            <FileUp />
+            {hasChanges ? "Import" : "Nothing to Import"}
+        </Button>
+    );
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+        >
+            <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-col gap-1">
+                    <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                        Import Backup
+                    </h2>
+                    <p className="text-primary/80">
+                        {diffs.length} {diffs.length === 1 ? "vault" : "vaults"} in this
+                        backup: {newCount} new, {changedCount} different,{" "}
+                        {diffs.length - newCount - changedCount} already here.
+                    </p>
+                </div>
+                <Button variant="ghost" onClick={onCancel} aria-label="Close">
+                    <X />
+                </Button>
+            </div>
+
+            <div className="flex flex-col gap-2">
+                {diffs.map((diff) => (
+                    <div
+                        key={diff.incoming.id}
+                        className="flex flex-col gap-1 rounded-md border border-primary/10 px-4 py-3 text-sm"
+                    >
+                        <div className="flex justify-between gap-2">
+                            <span className="font-semibold">
+                                {diff.existing?.name ?? diff.incoming.name}
+                                <span className="text-primary/50 font-normal">
+                                    {" "}·{" "}
+                                    {diff.incoming.chains
+                                        .map((chain) => getChainAdapter(chain)?.name ?? chain)
+                                        .join(", ")}
+                                </span>
+                            </span>
+                            <span className="text-primary/50">{STATUS_LABELS[diff.status]}</span>
+                        </div>
+                        {diff.status === "new" && (
+                            <span className="text-primary/80">
+                                {diff.incoming.wallets.length}{" "}
+                                {diff.incoming.wallets.length === 1 ? "wallet" : "wallets"}
+                            </span>
+                        )}
+                        {diff.fieldChanges.map((change) => (
+                            <span key={change.field} className="text-primary/80">
+                                {change.field}: {change.current} → {change.incoming}
+                                {mode === "merge" && " (kept)"}
+                            </span>
+                        ))}
+                        {diff.status === "changed" && (
+                            <>
+                                <WalletList label="Only in backup (added):" wallets={diff.addedWallets} />
+                                <WalletList
+                                    label={
+                                        mode === "merge"
+                                            ? "Different in backup (kept as here):"
+                                            : "Different in backup (overwritten):"
+                                    }
+                                    wallets={diff.changedWallets}
+                                />
+                                <WalletList
+                                    label={
+                                        mode === "merge"
+                                            ? "Only here (kept):"
+                                            : "Only here (moved to trash):"
+                                    }
+                                    wallets={diff.removedWallets}
+                                />
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {changedCount > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                    <span className="font-semibold">Existing vaults:</span>
+                    <Button
+                        size={"sm"}
+                        variant={mode === "merge" ? "secondary" : "ghost"}
+                        aria-pressed={mode === "merge"}
+                        onClick={() => setMode("merge")}
+                    >
+                        Merge
+                    </Button>
+                    <Button
+                        size={"sm"}
+                        variant={mode === "replace" ? "secondary" : "ghost"}
+                        aria-pressed={mode === "replace"}
+                        onClick={() => setMode("replace")}
+                    >
+                        Replace
+                    </Button>
+                    <span className="text-primary/50">
+                        {mode === "merge"
+                            ? "Keep settings here and add missing wallets."
+                            : "Use the backup's version of each vault."}
+                    </span>
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                {mode === "replace" && changedCount > 0 ? (
+                    <AlertDialog>
+                        <AlertDialogTrigger asChild>{importButton}</AlertDialogTrigger>
+                        <AlertDialogContent>
+                            <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                    Replace {changedCount} {changedCount === 1 ? "vault" : "vaults"} with
+                                    the backup?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                    Their settings and wallets will be overwritten by the
+                                    backup&apos;s version.
+                                    {removedWalletCount > 0 &&
+                                        ` ${removedWalletCount} ${removedWalletCount === 1 ? "wallet" : "wallets"} that only exist here will be moved to the trash.`}
+                                </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => onApply(mode)}>
+                                    Replace
+                                </AlertDialogAction>
+                            </AlertDialogFooter>
+                        </AlertDialogContent>
+                    </AlertDialog>
+                ) : (
+                    importButton
+                )}
+                <Button variant="ghost" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </div>
+        </motion.div>
+    );
+};
+
+export default BackupImportPreview;
@@ -0,0 +1,142 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { FileDown, FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MIN_PASSWORD_LENGTH } from "@/lib/storage-encryption";
+
+interface BackupPanelProps {
+    canExport: boolean;
+    onExport: (password: string) => Promise<void>;
+    onOpenBackup: (content: string, password: string) => Promise<boolean>; // true once opened
+}
+
+/**
+ * Encrypted backup file controls: export every vault under a backup
+ * password, or open a backup file to preview its import.
+ *
+ * SECURITY: Passwords are only held in this component's state and are
+ * cleared once the file has been written or opened.
+ */
+const BackupPanel = ({ canExport, onExport, onOpenBackup }: BackupPanelProps) => {
+    const [form, setForm] = useState<"export" | "import" | null>(null);
+    const [password, setPassword] = useState<string>("");
+    const [confirmation, setConfirmation] = useState<string>("");
+    const [file, setFile] = useState<File | null>(null);
+    const [isWorking, setIsWorking] = useState<boolean>(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    let error = "";
+    if (form === "export" && password && password.length < MIN_PASSWORD_LENGTH) {
+        error = `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    } else if (form === "export" && confirmation && password !== confirmation) {
+        error = "Passwords do not match.";
+    }
+    const canSubmit =
+        form === "export"
+            ? !error && password !== "" && password === confirmation
+            : file !== null && password !== "";
+
+    const toggleForm = (next: "export" | "import") => {
+        setForm(form === next ? null : next);
+        setPassword("");
+        setConfirmation("");
+        setFile(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsWorking(true);
+        try {
+            if (form === "export") {
+                await onExport(password);
+                setForm(null);
+            } else if (file && (await onOpenBackup(await file.text(), password))) {
+                setForm(null);
+            }
+        } finally {
+            setPassword("");
+            setConfirmation("");
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                {canExport && (
+                    <Button
+                        variant={form === "export" ? "secondary" : "outline"}
+                        onClick={() => toggleForm("export")}
+                    >
+                        <FileDown />
+                        Export Backup
+                    </Button>
+                )}
+                <Button
+                    variant={form === "import" ? "secondary" : "outline"}
+                    onClick={() => toggleForm("import")}
+                >
+                    <FileUp />
+                    Import Backup
+                </Button>
+            </div>
+            {form && (
+                <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+                    <p className="text-sm text-primary/50">
+                        {form === "export"
+                            ? "The backup file contains every vault, including secret phrases and keys, encrypted with this password. Passphrases that are not remembered are left out."
+                            : "Nothing changes until you review the differences and confirm."}
+                    </p>
+                    <div className="flex flex-col md:flex-row gap-2">
+                        {form === "import" && (
+                            <>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept="application/json,.json"
+                                    className="hidden"
+                                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                                />
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    className="md:max-w-64 truncate"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={isWorking}
+                                >
+                                    {file ? file.name : "Choose File"}
+                                </Button>
+                            </>
+                        )}
+                        <Input
+                            type="password"
+                            placeholder="Backup password"
+                            onChange={(e) => setPassword(e.target.value)}
+                            value={password}
+                            disabled={isWorking}
+                        />
+                        {form === "export" && (
+                            <Input
+                                type="password"
+                                placeholder="Confirm password"
+                                onChange={(e) => setConfirmation(e.target.value)}
+                                value={confirmation}
+                                disabled={isWorking}
+                            />
+                        )}
+                        <Button type="submit" disabled={!canSubmit || isWorking}>
+                            {form === "export"
+                                ? isWorking ? "Encrypting..." : "Download"
+                                : isWorking ? "Decrypting..." : "Open"}
+                        </Button>
+                    </div>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default BackupPanel;
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { ClipboardCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { isSameWord, pickQuizPositions } from "@/lib/mnemonic";
+
+const QUIZ_WORD_COUNT = 3;
+
+interface BackupQuizProps {
+    mnemonicWords: string[];
+    onPass: () => void;
+    onFail: () => void;
+    onCancel: () => void;
+}
+
+/**
+ * Asks for randomly chosen words of the secret phrase to confirm the user
+ * wrote it down. The phrase itself must not be on screen meanwhile.
+ *
+ * SECURITY: Answers are only held in this component's state.
+ */
+const BackupQuiz = ({ mnemonicWords, onPass, onFail, onCancel }: BackupQuizProps) => {
+    const [positions] = useState<number[]>(() =>
+        pickQuizPositions(mnemonicWords.length, QUIZ_WORD_COUNT)
+    );
+    const [answers, setAnswers] = useState<string[]>(() => positions.map(() => ""));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (positions.every((position, i) => isSameWord(mnemonicWords[position], answers[i]))) {
+            onPass();
+        } else {
+            setAnswers(positions.map(() => ""));
+            onFail();
+        }
+    };
+
+    return (
+        <motion.form
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            onSubmit={handleSubmit}
+            className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+        >
+            <div className="flex flex-col gap-1">
+                <h2 className="text-2xl md:text-3xl font-bold tracking-tighter flex items-center gap-2">
+                    <ClipboardCheck className="size-6" />
+                    Verify Your Backup
+                </h2>
+                <p className="text-primary/80">
+                    Enter the following words from the secret phrase you wrote down.
+                </p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {positions.map((position, i) => (
+                    <label key={position} className="flex flex-col gap-1 text-sm font-semibold">
+                        Word #{position + 1}
+                        <Input
+                            autoComplete="off"
+                            autoCorrect="off"
+                            autoCapitalize="none"
+                            spellCheck={false}
+                            autoFocus={i === 0}
+                            onChange={(e) =>
+                                setAnswers(answers.map((a, j) => (j === i ? e.target.value : a)))
+                            }
+                            value={answers[i]}
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <Button type="submit" disabled={answers.some((answer) => !answer.trim())}>
+                    Verify
+                </Button>
+                <Button type="button" variant="ghost" onClick={onCancel}>
+                    Later
+                </Button>
+            </div>
+        </motion.form>
+    );
+};
+
+export default BackupQuiz;
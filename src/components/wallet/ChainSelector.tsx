@@ -1,17 +1,31 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
+import { CHAIN_ADAPTERS } from "@/lib/chains";
 
 interface ChainSelectorProps {
-    onSelectChain: (pathType: string) => void;
+    onSelectChain: (pathType: string, network?: string) => void;
 }
 
 /**
  * Initial chain selection UI with hero text.
- * Allows user to choose between Solana and Ethereum.
+ * Renders one button per registered chain adapter, plus a network picker
+ * for adapters that support more than one network.
  */
 const ChainSelector = ({ onSelectChain }: ChainSelectorProps) => {
+    const [selectedNetworks, setSelectedNetworks] = useState<Record<string, string>>({});
+    const multiNetworkAdapters = CHAIN_ADAPTERS.filter(
+        (adapter) => adapter.networks && adapter.networks.length > 1
+    );
+
+    const chainNames = CHAIN_ADAPTERS.map((adapter) => adapter.name);
+    const chainList =
+        chainNames.length > 1
+            ? `${chainNames.slice(0, -1).join(", ")} & ${chainNames[chainNames.length - 1]}`
+            : chainNames.join("");
+
     return (
         <motion.div
             initial={{ opacity: 0, y: -20 }}
@@ -24,26 +38,54 @@ const ChainSelector = ({ onSelectChain }: ChainSelectorProps) => {
         >
             <div className="flex flex-col justify-center items-center gap-2">
                 <h1 className="tracking-tighter text-4xl md:text-5xl font-black">
-                    Effortless Wallet Creation for Solana &amp; Ethereum
+                    Effortless Wallet Creation for {chainList}
                 </h1>
                 <p className="text-primary/80 font-semibold text-lg md:text-xl">
                     Generate secure public-private key pairs and manage your wallets with ease.
                 </p>
             </div>
             <div className="flex justify-center items-center gap-2">
-                <Button
-                    size={"lg"}
-                    onClick={() => onSelectChain("501")}
-                >
-                    Solana
-                </Button>
-                <Button
-                    size={"lg"}
-                    onClick={() => onSelectChain("60")}
-                >
-                    Ethereum
-                </Button>
+                {CHAIN_ADAPTERS.map((adapter) => (
+                    <Button
+                        key={adapter.id}
+                        size={"lg"}
+                        onClick={() =>
+                            onSelectChain(adapter.id, selectedNetworks[adapter.id])
+                        }
+                    >
+                        {adapter.name}
+                    </Button>
+                ))}
             </div>
+            {multiNetworkAdapters.map((adapter) => (
+                <div
+                    key={adapter.id}
+                    className="flex justify-center items-center gap-2 text-sm text-primary/80"
+                >
+                    <span className="font-semibold">{adapter.name} network:</span>
+                    {adapter.networks?.map((network) => {
+                        const isSelected =
+                            (selectedNetworks[adapter.id] ?? adapter.networks?.[0].id) ===
+                            network.id;
+                        return (
+                            <Button
+                                key={network.id}
+                                size={"sm"}
+                                variant={isSelected ? "secondary" : "ghost"}
+                                onClick={() =>
+                                    setSelectedNetworks({
+                                        ...selectedNetworks,
+                                        [adapter.id]: network.id,
+                                    })
+                                }
+                                aria-pressed={isSelected}
+                            >
+                                {network.name}
+                            </Button>
+                        );
+                    })}
+                </div>
+            ))}
         </motion.div>
     );
 };
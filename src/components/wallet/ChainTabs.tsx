@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CHAIN_ADAPTERS, getChainAdapter } from "@/lib/chains";
+
+interface ChainTabsProps {
+    chains: string[];
+    activeChain: string;
+    walletCounts: Record<string, number>; // Wallets per chain id
+    onSelectChain: (chain: string) => void;
+    onAddChain: (chain: string, network?: string) => void;
+    onRemoveChain: (chain: string) => void;
+}
+
+/**
+ * One tab per chain of the active vault, all derived from the same seed,
+ * plus an "Add Chain" picker for registered chains the vault does not use
+ * yet. Empty tabs can be closed as long as another tab remains.
+ */
+const ChainTabs = ({
+    chains,
+    activeChain,
+    walletCounts,
+    onSelectChain,
+    onAddChain,
+    onRemoveChain,
+}: ChainTabsProps) => {
+    const [isAdding, setIsAdding] = useState<boolean>(false);
+    const availableAdapters = CHAIN_ADAPTERS.filter((adapter) => !chains.includes(adapter.id));
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+                {chains.map((chain) => {
+                    const adapter = getChainAdapter(chain);
+                    const count = walletCounts[chain] ?? 0;
+                    return (
+                        <div key={chain} className="flex items-center">
+                            <Button
+                                variant={chain === activeChain ? "secondary" : "ghost"}
+                                aria-pressed={chain === activeChain}
+                                onClick={() => onSelectChain(chain)}
+                            >
+                                {adapter?.name ?? chain}
+                                <span className="text-xs opacity-70">{count}</span>
+                            </Button>
+                            {count === 0 && chains.length > 1 && (
+                                <Button
+                                    variant="ghost"
+                                    size={"sm"}
+                                    onClick={() => onRemoveChain(chain)}
+                                    aria-label={`Remove ${adapter?.name ?? chain} tab`}
+                                >
+                                    <X className="size-3" />
+                                </Button>
+                            )}
+                        </div>
+                    );
+                })}
+                {availableAdapters.length > 0 && (
+                    <Button
+                        variant={isAdding ? "secondary" : "outline"}
+                        onClick={() => setIsAdding(!isAdding)}
+                    >
+                        <Plus />
+                        Add Chain
+                    </Button>
+                )}
+            </div>
+            {isAdding && availableAdapters.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                    <span className="font-semibold">Derive from this seed:</span>
+                    {availableAdapters.flatMap((adapter) =>
+                        (adapter.networks && adapter.networks.length > 1
+                            ? adapter.networks
+                            : [undefined]
+                        ).map((network) => (
+                            <Button
+                                key={`${adapter.id}-${network?.id ?? ""}`}
+                                size={"sm"}
+                                variant={"ghost"}
+                                onClick={() => {
+                                    setIsAdding(false);
+                                    onAddChain(adapter.id, network?.id);
+                                }}
+                            >
+                                {adapter.name}
+                                {network && network.id !== adapter.networks?.[0].id
+                                    ? ` ${network.name}`
+                                    : ""}
+                            </Button>
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ChainTabs;
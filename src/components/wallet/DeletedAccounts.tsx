@@ -0,0 +1,35 @@
+"use client";
+
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface DeletedAccountsProps {
+    indexes: number[];
+    onReAdd: (accountIndex: number) => void;
+}
+
+/**
+ * Account indices whose wallets were deleted. "Add Wallet" never reuses
+ * them, so bringing one back is an explicit choice made here.
+ */
+const DeletedAccounts = ({ indexes, onReAdd }: DeletedAccountsProps) => {
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+            <span className="font-semibold">Deleted wallets:</span>
+            {indexes.map((index) => (
+                <Button
+                    key={index}
+                    size={"sm"}
+                    variant={"ghost"}
+                    onClick={() => onReAdd(index)}
+                    title={`Derive account index ${index} again`}
+                >
+                    <RotateCcw className="size-3" />
+                    Wallet {index + 1}
+                </Button>
+            ))}
+        </div>
+    );
+};
+
+export default DeletedAccounts;
@@ -0,0 +1,35 @@
+"use client";
+
+interface KdfProgressProps {
+    progress: number; // 0..1
+    label: string;
+}
+
+/**
+ * Progress bar for slow password stretching (keystore scrypt/PBKDF2).
+ */
+const KdfProgress = ({ progress, label }: KdfProgressProps) => {
+    const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+    return (
+        <div className="flex flex-col gap-1 text-sm text-primary/50">
+            <div
+                role="progressbar"
+                aria-label={label}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+                className="h-2 w-full overflow-hidden rounded-full bg-secondary"
+            >
+                <div
+                    className="h-full bg-primary transition-all duration-300"
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+            <span>
+                {label}… {percent}%
+            </span>
+        </div>
+    );
+};
+
+export default KdfProgress;
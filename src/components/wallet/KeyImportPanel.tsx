@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { KeyRound, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { KeystoreProgress } from "@/lib/keystore";
+import KeystoreImportForm from "@/components/wallet/KeystoreImportForm";
+import PrivateKeyImportForm from "@/components/wallet/PrivateKeyImportForm";
+
+type ImportMode = "private-key" | "keystore";
+
+interface KeyImportPanelProps {
+    privateKeyFormats?: string; // Set if the chain can import raw private keys
+    supportsKeystore: boolean;
+    onImportPrivateKey: (input: string) => boolean;
+    onImportKeystore: (
+        content: string,
+        password: string,
+        onProgress: KeystoreProgress
+    ) => Promise<boolean>;
+    onClose: () => void;
+}
+
+/**
+ * Adds a key that is not derived from the vault's phrase, either pasted
+ * as a raw private key or decrypted from a keystore file.
+ */
+const KeyImportPanel = ({
+    privateKeyFormats,
+    supportsKeystore,
+    onImportPrivateKey,
+    onImportKeystore,
+    onClose,
+}: KeyImportPanelProps) => {
+    const [mode, setMode] = useState<ImportMode>(
+        privateKeyFormats ? "private-key" : "keystore"
+    );
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+        >
+            <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-col gap-1">
+                    <h2 className="text-2xl md:text-3xl font-bold tracking-tighter flex items-center gap-2">
+                        <KeyRound className="size-6" />
+                        Import Key
+                    </h2>
+                    <p className="text-primary/80">
+                        Imported keys are not derived from this vault&apos;s secret
+                        phrase, so back them up separately. They do not use up an
+                        account index.
+                    </p>
+                </div>
+                <Button variant="ghost" onClick={onClose} aria-label="Close">
+                    <X />
+                </Button>
+            </div>
+
+            {privateKeyFormats && supportsKeystore && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                    <span className="font-semibold">Import from:</span>
+                    <Button
+                        size={"sm"}
+                        variant={mode === "private-key" ? "secondary" : "ghost"}
+                        aria-pressed={mode === "private-key"}
+                        onClick={() => setMode("private-key")}
+                    >
+                        Private key
+                    </Button>
+                    <Button
+                        size={"sm"}
+                        variant={mode === "keystore" ? "secondary" : "ghost"}
+                        aria-pressed={mode === "keystore"}
+                        onClick={() => setMode("keystore")}
+                    >
+                        Keystore file
+                    </Button>
+                </div>
+            )}
+
+            {mode === "private-key" && privateKeyFormats && (
+                <PrivateKeyImportForm formats={privateKeyFormats} onImport={onImportPrivateKey} />
+            )}
+            {mode === "keystore" && supportsKeystore && (
+                <KeystoreImportForm onImport={onImportKeystore} />
+            )}
+        </motion.div>
+    );
+};
+
+export default KeyImportPanel;
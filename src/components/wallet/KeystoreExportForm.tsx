@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MIN_PASSWORD_LENGTH } from "@/lib/storage-encryption";
+import { KEYSTORE_PRESETS, KeystorePreset, KeystoreProgress } from "@/lib/keystore";
+import KdfProgress from "@/components/wallet/KdfProgress";
+
+interface KeystoreExportFormProps {
+    onExport: (
+        password: string,
+        preset: KeystorePreset,
+        onProgress: KeystoreProgress
+    ) => Promise<void>;
+    onCancel: () => void;
+}
+
+/**
+ * Password and KDF choice for downloading a wallet as a keystore v3
+ * (UTC/JSON) file.
+ *
+ * SECURITY: The password is only held in this component's state and is
+ * cleared after the export.
+ */
+const KeystoreExportForm = ({ onExport, onCancel }: KeystoreExportFormProps) => {
+    const [password, setPassword] = useState<string>("");
+    const [confirmation, setConfirmation] = useState<string>("");
+    const [presetId, setPresetId] = useState<string>(KEYSTORE_PRESETS[0].id);
+    const [progress, setProgress] = useState<number | null>(null);
+
+    let error = "";
+    if (password && password.length < MIN_PASSWORD_LENGTH) {
+        error = `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    } else if (confirmation && password !== confirmation) {
+        error = "Passwords do not match.";
+    }
+    const canSubmit = !error && password !== "" && password === confirmation;
+    const isWorking = progress !== null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const preset = KEYSTORE_PRESETS.find((p) => p.id === presetId) ?? KEYSTORE_PRESETS[0];
+        setProgress(0);
+        try {
+            await onExport(password, preset, setProgress);
+        } finally {
+            setPassword("");
+            setConfirmation("");
+            setProgress(null);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <span className="text-lg md:text-xl font-bold tracking-tighter">
+                Export Keystore
+            </span>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                <span className="font-semibold">KDF:</span>
+                {KEYSTORE_PRESETS.map((preset) => (
+                    <Button
+                        key={preset.id}
+                        type="button"
+                        size={"sm"}
+                        variant={preset.id === presetId ? "secondary" : "ghost"}
+                        aria-pressed={preset.id === presetId}
+                        onClick={() => setPresetId(preset.id)}
+                        disabled={isWorking}
+                    >
+                        {preset.name}
+                    </Button>
+                ))}
+            </div>
+            <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                    type="password"
+                    placeholder="Keystore password"
+                    autoFocus
+                    onChange={(e) => setPassword(e.target.value)}
+                    value={password}
+                    disabled={isWorking}
+                />
+                <Input
+                    type="password"
+                    placeholder="Confirm password"
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    value={confirmation}
+                    disabled={isWorking}
+                />
+                <Button type="submit" disabled={!canSubmit || isWorking}>
+                    Download
+                </Button>
+                <Button type="button" variant="ghost" onClick={onCancel} disabled={isWorking}>
+                    Cancel
+                </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            {progress !== null && <KdfProgress progress={progress} label="Encrypting" />}
+        </form>
+    );
+};
+
+export default KeystoreExportForm;
@@ -0,0 +1,81 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { KeystoreProgress } from "@/lib/keystore";
+import KdfProgress from "@/components/wallet/KdfProgress";
+
+interface KeystoreImportFormProps {
+    onImport: (
+        content: string,
+        password: string,
+        onProgress: KeystoreProgress
+    ) => Promise<boolean>; // true once the wallet was added
+}
+
+/**
+ * Decrypts an Ethereum keystore v3 (UTC/JSON) file, as written by geth,
+ * Foundry or MyEtherWallet, with progress while the KDF runs.
+ *
+ * SECURITY: The password is only held in this component's state and is
+ * cleared after each attempt.
+ */
+const KeystoreImportForm = ({ onImport }: KeystoreImportFormProps) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [password, setPassword] = useState<string>("");
+    const [progress, setProgress] = useState<number | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const isWorking = progress !== null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!file) {
+            return;
+        }
+        setProgress(0);
+        try {
+            if (await onImport(await file.text(), password, setProgress)) {
+                setFile(null);
+            }
+        } finally {
+            setPassword("");
+            setProgress(null);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <div className="flex flex-col md:flex-row gap-2">
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    className="hidden"
+                    onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+                <Button
+                    type="button"
+                    variant="ghost"
+                    className="md:max-w-64 truncate"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isWorking}
+                >
+                    {file ? file.name : "Choose File"}
+                </Button>
+                <Input
+                    type="password"
+                    placeholder="Keystore password"
+                    onChange={(e) => setPassword(e.target.value)}
+                    value={password}
+                    disabled={isWorking}
+                />
+                <Button type="submit" disabled={!file || isWorking}>
+                    Import
+                </Button>
+            </div>
+            {progress !== null && <KdfProgress progress={progress} label="Decrypting" />}
+        </form>
+    );
+};
+
+export default KeystoreImportForm;
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageFormat } from "@/lib/chains";
+
+interface MessageSignFormProps {
+    formats: MessageFormat[];
+    onSign: (message: string, format: string) => string | null; // Signature, or null on error
+    onCopy: (signature: string) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Message and format choice for signing an off-chain message with a
+ * wallet's key, and the resulting signature.
+ *
+ * SECURITY: Signing happens locally; only the signature is shown.
+ */
+const MessageSignForm = ({ formats, onSign, onCopy, onCancel }: MessageSignFormProps) => {
+    const [formatId, setFormatId] = useState<string>(formats[0]?.id ?? "");
+    const [message, setMessage] = useState<string>("");
+    const [signature, setSignature] = useState<string | null>(null);
+    const format = formats.find((f) => f.id === formatId) ?? formats[0];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSignature(onSign(message, format.id));
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <span className="text-lg md:text-xl font-bold tracking-tighter">
+                Sign Message
+            </span>
+            {formats.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                    <span className="font-semibold">Format:</span>
+                    {formats.map((f) => (
+                        <Button
+                            key={f.id}
+                            type="button"
+                            size={"sm"}
+                            variant={f.id === format.id ? "secondary" : "ghost"}
+                            aria-pressed={f.id === format.id}
+                            onClick={() => {
+                                setFormatId(f.id);
+                                setSignature(null);
+                            }}
+                        >
+                            {f.name}
+                        </Button>
+                    ))}
+                </div>
+            )}
+            <p className="text-xs text-primary/50">{format.description}</p>
+            <Textarea
+                placeholder="Message to sign"
+                autoFocus
+                onChange={(e) => {
+                    setMessage(e.target.value);
+                    setSignature(null);
+                }}
+                value={message}
+            />
+            <div className="flex gap-2">
+                <Button type="submit" disabled={message === ""}>
+                    Sign
+                </Button>
+                <Button type="button" variant="ghost" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </div>
+            {signature && (
+                <div className="flex justify-between w-full items-center gap-2">
+                    <p
+                        onClick={() => onCopy(signature)}
+                        className="font-mono text-sm text-primary/80 cursor-pointer hover:text-primary transition-all duration-300 break-all"
+                    >
+                        {signature}
+                    </p>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => onCopy(signature)}
+                        aria-label="Copy signature"
+                    >
+                        <Copy className="size-4" />
+                    </Button>
+                </div>
+            )}
+        </form>
+    );
+};
+
+export default MessageSignForm;
@@ -0,0 +1,182 @@
+"use client";
+
+import { useState } from "react";
+import { ShieldCheck, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { CHAIN_ADAPTERS, MessageSigningError, MessageVerification } from "@/lib/chains";
+
+const VERIFY_ADAPTERS = CHAIN_ADAPTERS.filter(
+    (adapter) => adapter.verifyMessage && adapter.messageFormats
+);
+
+/**
+ * Checks a signed message against an address, for any chain whose adapter
+ * can verify messages. Works without a vault: only public data is entered.
+ */
+const MessageVerifyPanel = () => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [chainId, setChainId] = useState<string>(VERIFY_ADAPTERS[0]?.id ?? "");
+    const [formatId, setFormatId] = useState<string | undefined>(undefined);
+    const [address, setAddress] = useState<string>("");
+    const [message, setMessage] = useState<string>("");
+    const [signature, setSignature] = useState<string>("");
+    const [result, setResult] = useState<MessageVerification | null>(null);
+    const [error, setError] = useState<string>("");
+
+    const adapter = VERIFY_ADAPTERS.find((a) => a.id === chainId) ?? VERIFY_ADAPTERS[0];
+    const formats = adapter?.messageFormats ?? [];
+    const format = formats.find((f) => f.id === formatId) ?? formats[0];
+
+    if (!adapter?.verifyMessage || !format) {
+        return null;
+    }
+    const verifyMessage = adapter.verifyMessage;
+
+    // Any edit invalidates the last result.
+    const update = (apply: () => void) => {
+        apply();
+        setResult(null);
+        setError("");
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!adapter.isValidAddress(address.trim())) {
+            setError(`This is not a valid ${adapter.name} address.`);
+            return;
+        }
+        try {
+            setResult(
+                verifyMessage(address, new TextEncoder().encode(message), signature, format.id)
+            );
+        } catch (err) {
+            setError(
+                err instanceof MessageSigningError ? err.message : "Failed to verify the signature."
+            );
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant={isOpen ? "secondary" : "outline"} onClick={() => setIsOpen(!isOpen)}>
+                    <ShieldCheck />
+                    Verify Signature
+                </Button>
+            </div>
+            {isOpen && (
+                <form
+                    onSubmit={handleSubmit}
+                    className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+                >
+                    <div className="flex justify-between items-start gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                                Verify Signature
+                            </h2>
+                            <p className="text-primary/80">
+                                Check that a message was signed by an address. Nothing
+                                leaves this browser.
+                            </p>
+                        </div>
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            onClick={() => setIsOpen(false)}
+                            aria-label="Close"
+                        >
+                            <X />
+                        </Button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                        <span className="font-semibold">Chain:</span>
+                        {VERIFY_ADAPTERS.map((a) => (
+                            <Button
+                                key={a.id}
+                                type="button"
+                                size={"sm"}
+                                variant={a.id === adapter.id ? "secondary" : "ghost"}
+                                aria-pressed={a.id === adapter.id}
+                                onClick={() =>
+                                    update(() => {
+                                        setChainId(a.id);
+                                        setFormatId(undefined);
+                                    })
+                                }
+                            >
+                                {a.name}
+                            </Button>
+                        ))}
+                    </div>
+                    {formats.length > 1 && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                            <span className="font-semibold">Format:</span>
+                            {formats.map((f) => (
+                                <Button
+                                    key={f.id}
+                                    type="button"
+                                    size={"sm"}
+                                    variant={f.id === format.id ? "secondary" : "ghost"}
+                                    aria-pressed={f.id === format.id}
+                                    onClick={() => update(() => setFormatId(f.id))}
+                                >
+                                    {f.name}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+
+                    <Input
+                        placeholder={adapter.addressLabel}
+                        autoComplete="off"
+                        onChange={(e) => update(() => setAddress(e.target.value))}
+                        value={address}
+                    />
+                    <Textarea
+                        placeholder="Signed message"
+                        onChange={(e) => update(() => setMessage(e.target.value))}
+                        value={message}
+                    />
+                    <Input
+                        placeholder="Signature"
+                        autoComplete="off"
+                        onChange={(e) => update(() => setSignature(e.target.value))}
+                        value={signature}
+                    />
+                    <Button
+                        type="submit"
+                        className="self-start"
+                        disabled={!address.trim() || message === "" || !signature.trim()}
+                    >
+                        Verify
+                    </Button>
+
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    {result && (
+                        <div className="flex flex-col gap-1 text-sm">
+                            <span
+                                className={
+                                    result.valid ? "font-semibold" : "font-semibold text-destructive"
+                                }
+                            >
+                                {result.valid
+                                    ? "Valid signature."
+                                    : "This signature was not made by this address."}
+                            </span>
+                            {result.signer && (
+                                <span className="text-primary/80 break-all">
+                                    Signed by <span className="font-mono">{result.signer}</span>
+                                </span>
+                            )}
+                        </div>
+                    )}
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default MessageVerifyPanel;
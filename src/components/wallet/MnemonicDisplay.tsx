@@ -2,26 +2,54 @@
 
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { ChevronDown, ChevronUp, Copy } from "lucide-react";
+import { ChevronDown, ChevronUp, ClipboardCheck, Copy, Split } from "lucide-react";
+
+// Column counts that divide each BIP39 (and 20/33-word SLIP-39 share)
+// word count evenly.
+const GRID_COLUMNS: Record<number, string> = {
+    12: "grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
+    15: "grid-cols-3 md:grid-cols-5",
+    18: "grid-cols-3 md:grid-cols-6",
+    21: "grid-cols-3 md:grid-cols-7",
+    20: "grid-cols-2 md:grid-cols-4 lg:grid-cols-5",
+    24: "grid-cols-3 md:grid-cols-4 lg:grid-cols-6",
+    33: "grid-cols-3",
+};
 
 interface MnemonicDisplayProps {
+    title?: string;
+    subtitle?: string;
     mnemonicWords: string[];
+    fingerprint?: string;
+    passphraseMode?: "remembered" | "memory"; // Unset: no passphrase
     isExpanded: boolean;
     onToggleExpand: () => void;
     onCopy: () => void;
+    isBackupVerified?: boolean;
+    onVerifyBackup?: () => void;
+    onSplitShares?: () => void;
 }
 
 /**
- * Collapsible display for the secret recovery phrase.
+ * Collapsible display for the secret recovery phrase, also used for
+ * SLIP-39 shares (with a title and without the vault actions).
  * 
  * SECURITY: Private key material is displayed here.
  * The component is hidden by default (isExpanded=false).
+ * Words are numbered, since longer phrases are easy to misorder.
  */
 const MnemonicDisplay = ({
+    title = "Your Secret Phrase",
+    subtitle,
     mnemonicWords,
+    fingerprint,
+    passphraseMode,
     isExpanded,
     onToggleExpand,
     onCopy,
+    isBackupVerified,
+    onVerifyBackup,
+    onSplitShares,
 }: MnemonicDisplayProps) => {
     return (
         <motion.div
@@ -37,16 +65,55 @@ const MnemonicDisplay = ({
                 className="flex w-full justify-between items-center"
                 onClick={onToggleExpand}
             >
-                <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
-                    Your Secret Phrase
-                </h2>
-                <Button onClick={onToggleExpand} variant="ghost">
-                    {isExpanded ? (
-                        <ChevronUp className="size-4" />
-                    ) : (
-                        <ChevronDown className="size-4" />
+                <div className="flex flex-col">
+                    <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                        {title}
+                    </h2>
+                    {subtitle && (
+                        <span className="text-sm text-primary/50">{subtitle}</span>
+                    )}
+                    {fingerprint && (
+                        <span className="text-sm text-primary/50">
+                            Seed fingerprint:{" "}
+                            <span className="font-mono">{fingerprint}</span>
+                            {passphraseMode === "remembered" && " · passphrase saved on this device"}
+                            {passphraseMode === "memory" && " · passphrase kept in memory only"}
+                        </span>
+                    )}
+                </div>
+                <div className="flex gap-2">
+                    {onSplitShares && (
+                        <Button
+                            variant="outline"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onSplitShares();
+                            }}
+                        >
+                            <Split />
+                            Shamir Backup
+                        </Button>
+                    )}
+                    {onVerifyBackup && (
+                        <Button
+                            variant="outline"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onVerifyBackup();
+                            }}
+                        >
+                            <ClipboardCheck />
+                            {isBackupVerified ? "Retake Backup Quiz" : "Verify Backup"}
+                        </Button>
                     )}
-                </Button>
+                    <Button onClick={onToggleExpand} variant="ghost">
+                        {isExpanded ? (
+                            <ChevronUp className="size-4" />
+                        ) : (
+                            <ChevronDown className="size-4" />
+                        )}
+                    </Button>
+                </div>
             </div>
 
             {isExpanded && (
@@ -67,13 +134,14 @@ const MnemonicDisplay = ({
                             duration: 0.3,
                             ease: "easeInOut",
                         }}
-                        className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2 justify-center w-full items-center mx-auto my-8"
+                        className={`grid ${GRID_COLUMNS[mnemonicWords.length] ?? GRID_COLUMNS[12]} gap-2 justify-center w-full items-center mx-auto my-8`}
                     >
                         {mnemonicWords.map((word, index) => (
                             <p
                                 key={index}
                                 className="md:text-lg bg-foreground/5 hover:bg-foreground/10 transition-all duration-300 rounded-lg p-4"
                             >
+                                <span className="text-sm text-primary/40 mr-2">{index + 1}.</span>
                                 {word}
                             </p>
                         ))}
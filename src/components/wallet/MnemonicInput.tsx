@@ -1,20 +1,87 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+    diagnoseMnemonic,
+    getMnemonicLanguage,
+    MNEMONIC_LANGUAGES,
+    MNEMONIC_LENGTHS,
+    MnemonicLength,
+    suggestChecksumCorrections,
+} from "@/lib/mnemonic";
+import MnemonicWordGrid from "@/components/wallet/MnemonicWordGrid";
+import ShareRecoveryInput from "@/components/wallet/ShareRecoveryInput";
 
 interface MnemonicInputProps {
-    mnemonicInput: string;
-    onInputChange: (value: string) => void;
+    vaultName: string;
+    onVaultNameChange: (value: string) => void;
+    words: string[];      // One entry per field; all empty means generate
+    onWordsChange: (words: string[]) => void;
+    onWordCountChange: (value: MnemonicLength) => void;
+    language: string;
+    onLanguageChange: (value: string) => void;
+    detectedLanguage: string | null; // Wordlist of a valid imported phrase
+    passphrase: string;
+    onPassphraseChange: (value: string) => void;
+    rememberPassphrase: boolean;
+    onRememberPassphraseChange: (value: boolean) => void;
+    fingerprint: string | null; // Preview for a valid imported phrase
+    scanAccounts: boolean;
+    onScanAccountsChange?: (value: boolean) => void; // Set if account discovery is available
     onSubmit: () => void;
+    onRecoverShares: (shares: string[]) => boolean;
 }
 
 /**
  * Mnemonic input section with generate/import functionality.
  * Shows either "Generate Wallet" or "Add Wallet" based on input state.
+ * The word count sizes the grid (or the generated phrase) and the wordlist
+ * drives autocomplete; imported phrases are validated against every
+ * wordlist. If all words are in the list but the checksum fails,
+ * single-word corrections are offered.
+ * "SLIP-39 Shares" switches to recombining Shamir shares instead.
+ * The submitted phrase becomes a new vault named vaultName. When
+ * onScanAccountsChange is provided (an RPC endpoint is set for the chain),
+ * imports can start an account discovery scan for used accounts.
+ * 
+ * SECURITY: The optional BIP39 passphrase is kept in memory only unless
+ * the user ticks "Remember passphrase".
  */
-const MnemonicInput = ({ mnemonicInput, onInputChange, onSubmit }: MnemonicInputProps) => {
+const MnemonicInput = ({
+    vaultName,
+    onVaultNameChange,
+    words,
+    onWordsChange,
+    onWordCountChange,
+    language,
+    onLanguageChange,
+    detectedLanguage,
+    passphrase,
+    onPassphraseChange,
+    rememberPassphrase,
+    onRememberPassphraseChange,
+    fingerprint,
+    scanAccounts,
+    onScanAccountsChange,
+    onSubmit,
+    onRecoverShares,
+}: MnemonicInputProps) => {
+    const [mode, setMode] = useState<"phrase" | "shares">("phrase");
+    const isImporting = words.some(Boolean);
+
+    // Brute-forces every single-word change, so only run on a full phrase
+    // that fails nothing but its checksum.
+    const corrections = useMemo(
+        () =>
+            diagnoseMnemonic(words, language)?.kind === "checksum"
+                ? suggestChecksumCorrections(words, language)
+                : [],
+        [words, language]
+    );
+
     return (
         <motion.div
             initial={{ opacity: 0, y: -20 }}
@@ -33,17 +100,139 @@ const MnemonicInput = ({ mnemonicInput, onInputChange, onSubmit }: MnemonicInput
                     Keep these words stored securely.
                 </p>
             </div>
-            <div className="flex flex-col md:flex-row gap-4">
-                <Input
-                    type="password"
-                    placeholder="Enter your secret phrase (or leave blank to generate)"
-                    onChange={(e) => onInputChange(e.target.value)}
-                    value={mnemonicInput}
-                />
+            <Input
+                placeholder="Vault name"
+                onChange={(e) => onVaultNameChange(e.target.value)}
+                value={vaultName}
+            />
+            <div className="flex flex-col gap-2 text-sm text-primary/80">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">Import from:</span>
+                    <Button
+                        size={"sm"}
+                        variant={mode === "phrase" ? "secondary" : "ghost"}
+                        onClick={() => setMode("phrase")}
+                        aria-pressed={mode === "phrase"}
+                    >
+                        Secret Phrase
+                    </Button>
+                    <Button
+                        size={"sm"}
+                        variant={mode === "shares" ? "secondary" : "ghost"}
+                        onClick={() => setMode("shares")}
+                        aria-pressed={mode === "shares"}
+                    >
+                        SLIP-39 Shares
+                    </Button>
+                </div>
+                {mode === "phrase" && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-semibold">Words:</span>
+                        {MNEMONIC_LENGTHS.map((length) => (
+                            <Button
+                                key={length}
+                                size={"sm"}
+                                variant={length === words.length ? "secondary" : "ghost"}
+                                onClick={() => onWordCountChange(length)}
+                                aria-pressed={length === words.length}
+                            >
+                                {length}
+                            </Button>
+                        ))}
+                    </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">Wordlist:</span>
+                    {MNEMONIC_LANGUAGES.map((option) => (
+                        <Button
+                            key={option.id}
+                            size={"sm"}
+                            variant={option.id === language ? "secondary" : "ghost"}
+                            onClick={() => onLanguageChange(option.id)}
+                            aria-pressed={option.id === language}
+                        >
+                            {option.name}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+            {mode === "phrase" && (
+                <>
+                    <p className="text-sm text-primary/50">
+                        Enter your secret phrase word by word or paste it into any field,
+                        or leave every field blank to generate a new one.
+                    </p>
+                    <MnemonicWordGrid
+                        words={words}
+                        languageId={language}
+                        onChange={onWordsChange}
+                        onLanguageChange={onLanguageChange}
+                    />
+                    {corrections.length > 0 && (
+                        <div className="flex flex-col gap-2 rounded-lg border border-destructive/50 p-4 text-sm">
+                            <span className="font-semibold">
+                                Checksum does not match. Did you mistype one word?
+                            </span>
+                            <div className="flex flex-wrap gap-2">
+                                {corrections.map(({ index, word }) => (
+                                    <Button
+                                        key={`${index}-${word}`}
+                                        size={"sm"}
+                                        variant={"outline"}
+                                        onClick={() =>
+                                            onWordsChange(words.map((w, i) => (i === index ? word : w)))
+                                        }
+                                    >
+                                        Word {index + 1}: {word}
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+            <Input
+                type="password"
+                placeholder="BIP39 passphrase (optional)"
+                onChange={(e) => onPassphraseChange(e.target.value)}
+                value={passphrase}
+            />
+            {passphrase && (
+                <label className="flex items-center gap-2 text-sm text-primary/80">
+                    <input
+                        type="checkbox"
+                        checked={rememberPassphrase}
+                        onChange={(e) => onRememberPassphraseChange(e.target.checked)}
+                    />
+                    Remember passphrase on this device (otherwise kept in memory
+                    until you lock or reload)
+                </label>
+            )}
+            {onScanAccountsChange && (isImporting || mode === "shares") && (
+                <label className="flex items-center gap-2 text-sm text-primary/80">
+                    <input
+                        type="checkbox"
+                        checked={scanAccounts}
+                        onChange={(e) => onScanAccountsChange(e.target.checked)}
+                    />
+                    Scan for used accounts after import (sends addresses only to your
+                    RPC endpoint)
+                </label>
+            )}
+            {fingerprint && (
+                <p className="text-sm text-primary/50">
+                    {detectedLanguage && `${getMnemonicLanguage(detectedLanguage).name} phrase · `}
+                    Seed fingerprint:{" "}
+                    <span className="font-mono text-primary/80">{fingerprint}</span>
+                </p>
+            )}
+            {mode === "phrase" ? (
                 <Button size={"lg"} onClick={onSubmit}>
-                    {mnemonicInput ? "Add Wallet" : "Generate Wallet"}
+                    {isImporting ? "Add Wallet" : "Generate Wallet"}
                 </Button>
-            </div>
+            ) : (
+                <ShareRecoveryInput onRecover={onRecoverShares} />
+            )}
         </motion.div>
     );
 };
@@ -0,0 +1,157 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+    findWordlistLanguage,
+    isWordInList,
+    MNEMONIC_LENGTHS,
+    splitMnemonic,
+    suggestWords,
+} from "@/lib/mnemonic";
+
+interface MnemonicWordGridProps {
+    words: string[];
+    languageId: string;
+    onChange: (words: string[]) => void;
+    onLanguageChange: (languageId: string) => void;
+}
+
+/**
+ * One field per mnemonic word, with wordlist autocomplete.
+ *
+ * - Words that cannot be completed from the wordlist are flagged while
+ *   typing; words that are not in the list are flagged on blur.
+ * - Pasting (or typing) several words fills the following fields. A full
+ *   phrase of a valid length replaces the grid and may switch wordlists.
+ *
+ * SECURITY: Only the focused field is shown in clear text; the others are
+ * masked like the single password field they replace.
+ */
+const MnemonicWordGrid = ({
+    words,
+    languageId,
+    onChange,
+    onLanguageChange,
+}: MnemonicWordGridProps) => {
+    const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+    const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
+
+    const focusWord = (index: number) => {
+        inputRefs.current[index]?.focus();
+    };
+
+    /**
+     * Applies typed or pasted text starting at index. Multi-word text is
+     * spread over the following fields.
+     */
+    const applyText = (index: number, text: string) => {
+        const parts = splitMnemonic(text.toLowerCase());
+        if (parts.length <= 1) {
+            onChange(words.map((word, i) => (i === index ? text.trim().toLowerCase() : word)));
+            return;
+        }
+
+        const updated = (MNEMONIC_LENGTHS as readonly number[]).includes(parts.length)
+            ? parts
+            : words.map((word, i) =>
+                i >= index && i - index < parts.length ? parts[i - index] : word
+            );
+        onChange(updated);
+
+        const detected = findWordlistLanguage(updated, languageId);
+        if (detected && detected !== languageId) {
+            onLanguageChange(detected);
+        }
+        focusWord(Math.min(index + parts.length, updated.length - 1));
+    };
+
+    const acceptSuggestion = (index: number, word: string) => {
+        onChange(words.map((w, i) => (i === index ? word : w)));
+        if (index < words.length - 1) {
+            focusWord(index + 1);
+        }
+    };
+
+    const suggestions =
+        focusedIndex !== null && words[focusedIndex]
+            ? suggestWords(words[focusedIndex], languageId)
+            : [];
+    const showSuggestions =
+        suggestions.length > 0 &&
+        !(suggestions.length === 1 && focusedIndex !== null && suggestions[0] === words[focusedIndex]);
+
+    const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+        if ((e.key === "Enter" || e.key === "Tab" || e.key === " ") && !e.shiftKey) {
+            if (showSuggestions && !isWordInList(words[index], languageId)) {
+                e.preventDefault();
+                acceptSuggestion(index, suggestions[0]);
+            } else if (e.key !== "Tab" && index < words.length - 1) {
+                e.preventDefault();
+                focusWord(index + 1);
+            }
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
+            {words.map((word, index) => {
+                const isFocused = focusedIndex === index;
+                const isInvalid =
+                    word !== "" &&
+                    (suggestWords(word, languageId, 1).length === 0 ||
+                        (!isFocused && !isWordInList(word, languageId)));
+                return (
+                    <div key={index} className="relative">
+                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-xs text-primary/40">
+                            {index + 1}.
+                        </span>
+                        <Input
+                            ref={(el) => {
+                                inputRefs.current[index] = el;
+                            }}
+                            type={isFocused ? "text" : "password"}
+                            autoComplete="off"
+                            autoCorrect="off"
+                            autoCapitalize="none"
+                            spellCheck={false}
+                            aria-label={`Word ${index + 1}`}
+                            aria-invalid={isInvalid}
+                            className={`pl-8 ${isInvalid ? "border-destructive focus-visible:ring-destructive" : ""}`}
+                            value={word}
+                            onChange={(e) => applyText(index, e.target.value)}
+                            onPaste={(e) => {
+                                const text = e.clipboardData.getData("text");
+                                if (splitMnemonic(text).length > 1) {
+                                    e.preventDefault();
+                                    applyText(index, text);
+                                }
+                            }}
+                            onKeyDown={(e) => handleKeyDown(index, e)}
+                            onFocus={() => setFocusedIndex(index)}
+                            onBlur={() => setFocusedIndex(null)}
+                        />
+                        {isFocused && showSuggestions && (
+                            <div className="absolute z-10 mt-1 w-full rounded-md border border-input bg-background shadow-md">
+                                {suggestions.map((suggestion) => (
+                                    <button
+                                        key={suggestion}
+                                        type="button"
+                                        className="block w-full px-3 py-1 text-left text-sm hover:bg-foreground/10"
+                                        // Keep focus on the input until the click lands.
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onClick={() => acceptSuggestion(index, suggestion)}
+                                    >
+                                        {suggestion}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default MnemonicWordGrid;
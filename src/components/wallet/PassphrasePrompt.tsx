@@ -0,0 +1,81 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface PassphrasePromptProps {
+    fingerprint?: string;
+    onSubmit: (passphrase: string, remember: boolean) => void;
+}
+
+/**
+ * Asks for a vault's BIP39 passphrase when it was not persisted.
+ * Needed before more wallets can be derived from the vault.
+ *
+ * SECURITY: The passphrase is only held in this component's state until
+ * submitted, then cleared.
+ */
+const PassphrasePrompt = ({ fingerprint, onSubmit }: PassphrasePromptProps) => {
+    const [passphrase, setPassphrase] = useState<string>("");
+    const [remember, setRemember] = useState<boolean>(false);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSubmit(passphrase, remember);
+        setPassphrase("");
+    };
+
+    return (
+        <motion.form
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            onSubmit={handleSubmit}
+            className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+        >
+            <div className="flex flex-col gap-1">
+                <h3 className="font-bold text-xl md:text-2xl tracking-tighter flex items-center gap-2">
+                    <KeyRound className="size-5" />
+                    Passphrase Required
+                </h3>
+                <p className="text-primary/80">
+                    This vault uses a BIP39 passphrase that was kept in memory only.
+                    Enter it to derive more wallets.
+                    {fingerprint && (
+                        <>
+                            {" "}Expected fingerprint:{" "}
+                            <span className="font-mono">{fingerprint}</span>
+                        </>
+                    )}
+                </p>
+            </div>
+            <div className="flex flex-col md:flex-row gap-4">
+                <Input
+                    type="password"
+                    placeholder="BIP39 passphrase"
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    value={passphrase}
+                />
+                <Button size={"lg"} type="submit" disabled={!passphrase}>
+                    Unlock Vault
+                </Button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-primary/80">
+                <input
+                    type="checkbox"
+                    checked={remember}
+                    onChange={(e) => setRemember(e.target.checked)}
+                />
+                Remember passphrase on this device
+            </label>
+        </motion.form>
+    );
+};
+
+export default PassphrasePrompt;
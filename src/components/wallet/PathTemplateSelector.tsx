@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChainAdapter, formatPath } from "@/lib/chains";
+import {
+    findPathTemplate,
+    InvalidDerivationPathError,
+    normalizePathTemplate,
+} from "@/lib/derivation-paths";
+
+interface PathTemplateSelectorProps {
+    adapter: ChainAdapter;
+    value: string;
+    accountIndex: number;
+    onChange: (template: string) => void;
+}
+
+/**
+ * Picker for the derivation path template used by the next derived wallet.
+ * Offers the adapter's named templates plus a free-form custom path, which
+ * is validated as the user types.
+ */
+const PathTemplateSelector = ({
+    adapter,
+    value,
+    accountIndex,
+    onChange,
+}: PathTemplateSelectorProps) => {
+    const [isCustom, setIsCustom] = useState<boolean>(
+        value !== "" && !findPathTemplate(adapter, value)
+    );
+
+    let error = "";
+    let preview = "";
+    try {
+        preview = formatPath(normalizePathTemplate(value, adapter.curve), accountIndex);
+    } catch (e) {
+        error = e instanceof InvalidDerivationPathError ? e.message : "Invalid path.";
+    }
+
+    return (
+        <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold text-primary/80">
+                Derivation Path
+            </span>
+            <div className="flex flex-wrap gap-2">
+                {adapter.pathTemplates?.map((template) => (
+                    <Button
+                        key={template.id}
+                        size={"sm"}
+                        variant={
+                            !isCustom && template.template === value ? "default" : "outline"
+                        }
+                        onClick={() => {
+                            setIsCustom(false);
+                            onChange(template.template);
+                        }}
+                        title={template.template}
+                    >
+                        {template.name}
+                    </Button>
+                ))}
+                <Button
+                    size={"sm"}
+                    variant={isCustom ? "default" : "outline"}
+                    onClick={() => setIsCustom(true)}
+                >
+                    Custom
+                </Button>
+            </div>
+            {isCustom && (
+                <Input
+                    placeholder={adapter.defaultPathTemplate}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    aria-invalid={error !== ""}
+                />
+            )}
+            {error ? (
+                <p className="text-sm text-destructive">{error}</p>
+            ) : (
+                <p className="text-sm text-primary/50">Next wallet: {preview}</p>
+            )}
+        </div>
+    );
+};
+
+export default PathTemplateSelector;
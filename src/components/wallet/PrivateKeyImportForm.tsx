@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface PrivateKeyImportFormProps {
+    formats: string;
+    onImport: (input: string) => boolean; // true once the wallet was added
+}
+
+/**
+ * Single masked field for a raw private key in one of the chain's formats.
+ *
+ * SECURITY: The key is only held in this component's state and is cleared
+ * after a successful import.
+ */
+const PrivateKeyImportForm = ({ formats, onImport }: PrivateKeyImportFormProps) => {
+    const [input, setInput] = useState<string>("");
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (onImport(input)) {
+            setInput("");
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+            <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                    type="password"
+                    autoComplete="off"
+                    placeholder={formats}
+                    onChange={(e) => setInput(e.target.value)}
+                    value={input}
+                />
+                <Button type="submit" disabled={!input.trim()}>
+                    Import
+                </Button>
+            </div>
+        </form>
+    );
+};
+
+export default PrivateKeyImportForm;
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import QRCode from "qrcode";
+
+interface QrCodeProps {
+    value: string;
+    label: string; // Accessible description of the encoded data
+}
+
+/**
+ * Renders text as a QR code on a canvas, dark on white so it scans in
+ * either theme. Shows a note instead if the text does not fit.
+ */
+const QrCode = ({ value, label }: QrCodeProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [error, setError] = useState<boolean>(false);
+
+    useEffect(() => {
+        if (!canvasRef.current) {
+            return;
+        }
+        QRCode.toCanvas(canvasRef.current, value, { errorCorrectionLevel: "L", margin: 2, width: 288 })
+            .then(() => setError(false))
+            .catch(() => setError(true));
+    }, [value]);
+
+    return (
+        <div className="flex flex-col gap-2">
+            <canvas
+                ref={canvasRef}
+                role="img"
+                aria-label={label}
+                className={error ? "hidden" : "self-start rounded-md"}
+            />
+            {error && (
+                <p className="text-sm text-primary/50">Too long for a QR code. Copy the text instead.</p>
+            )}
+        </div>
+    );
+};
+
+export default QrCode;
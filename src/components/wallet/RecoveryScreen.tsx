@@ -0,0 +1,85 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Download, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface RecoveryScreenProps {
+    errorMessage: string;
+    onExport: () => void;
+    onReset: () => void;
+}
+
+/**
+ * Shown instead of the wallet UI when stored data cannot be read.
+ * Offers a raw export before the (confirmed) reset.
+ */
+const RecoveryScreen = ({ errorMessage, onExport, onReset }: RecoveryScreenProps) => {
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            className="flex flex-col gap-4 my-12"
+        >
+            <div className="flex flex-col gap-2">
+                <h1 className="tracking-tighter text-4xl md:text-5xl font-black flex items-center gap-3">
+                    <TriangleAlert className="size-10 text-destructive" />
+                    Stored Data Unreadable
+                </h1>
+                <p className="text-primary/80 font-semibold text-lg md:text-xl">
+                    ForgeSphere could not load your saved wallets. Export the raw
+                    data before resetting so nothing is lost.
+                </p>
+                <p className="text-sm text-primary/50">{errorMessage}</p>
+            </div>
+            <div className="flex flex-col md:flex-row gap-4">
+                <Button size={"lg"} onClick={onExport}>
+                    <Download />
+                    Export Raw Data
+                </Button>
+                <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                        <Button size={"lg"} variant="destructive">
+                            Reset Storage
+                        </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                        <AlertDialogHeader>
+                            <AlertDialogTitle>
+                                Are you sure you want to reset wallet storage?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                                This action cannot be undone. This will permanently
+                                delete all stored vaults, wallets and keys. Export the
+                                raw data first if it may contain anything you need.
+                            </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={onReset}>
+                                Reset
+                            </AlertDialogAction>
+                        </AlertDialogFooter>
+                    </AlertDialogContent>
+                </AlertDialog>
+            </div>
+        </motion.div>
+    );
+};
+
+export default RecoveryScreen;
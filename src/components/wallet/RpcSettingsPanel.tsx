@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Globe, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RpcSettings } from "@/lib/wallet-types";
+import { getChainAdapter } from "@/lib/chains";
+import { isValidRpcEndpoint, RPC_CHAINS } from "@/lib/rpc";
+
+interface RpcSettingsPanelProps {
+    settings: RpcSettings;
+    onSave: (settings: RpcSettings) => void;
+}
+
+/**
+ * Settings for the opt-in balance lookups and account discovery: an on/off
+ * switch (off by default) and a JSON-RPC endpoint per supported chain,
+ * such as a local solana-test-validator or anvil node.
+ *
+ * SECURITY: Only public addresses are sent to the endpoints; requests
+ * are checked for key material before they leave the browser.
+ */
+const RpcSettingsPanel = ({ settings, onSave }: RpcSettingsPanelProps) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [enabled, setEnabled] = useState<boolean>(settings.enabled);
+    const [endpoints, setEndpoints] = useState<Record<string, string>>(settings.endpoints);
+
+    const invalidChains = RPC_CHAINS.filter(
+        ({ chain }) => endpoints[chain]?.trim() && !isValidRpcEndpoint(endpoints[chain])
+    );
+
+    const handleOpen = () => {
+        // Start from the saved settings each time the panel opens.
+        setEnabled(settings.enabled);
+        setEndpoints(settings.endpoints);
+        setIsOpen(!isOpen);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({
+            enabled,
+            endpoints: Object.fromEntries(
+                Object.entries(endpoints)
+                    .map(([chain, url]) => [chain, url.trim()])
+                    .filter(([, url]) => url !== "")
+            ),
+        });
+        setIsOpen(false);
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant={isOpen ? "secondary" : "outline"} onClick={handleOpen}>
+                    <Globe />
+                    Balance Lookups{settings.enabled ? " (On)" : ""}
+                </Button>
+            </div>
+            {isOpen && (
+                <div className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8">
+                    <div className="flex justify-between items-start gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                                Balance Lookups
+                            </h2>
+                            <p className="text-primary/80">
+                                Show balances on wallet cards and find used accounts of
+                                imported phrases by asking your own JSON-RPC endpoints.
+                                Only public addresses are sent, and only when you refresh
+                                a card or start a scan.
+                            </p>
+                        </div>
+                        <Button variant="ghost" onClick={() => setIsOpen(false)} aria-label="Close">
+                            <X />
+                        </Button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                            <span className="font-semibold">Lookups:</span>
+                            {[false, true].map((value) => (
+                                <Button
+                                    key={String(value)}
+                                    type="button"
+                                    size={"sm"}
+                                    variant={enabled === value ? "secondary" : "ghost"}
+                                    aria-pressed={enabled === value}
+                                    onClick={() => setEnabled(value)}
+                                >
+                                    {value ? "On" : "Off"}
+                                </Button>
+                            ))}
+                        </div>
+                        {RPC_CHAINS.map(({ chain, localEndpoint }) => {
+                            const name = getChainAdapter(chain)?.name ?? chain;
+                            return (
+                                <div key={chain} className="flex flex-col gap-1 text-sm">
+                                    <span className="font-semibold text-primary/80">
+                                        {name} RPC endpoint
+                                    </span>
+                                    <Input
+                                        placeholder={localEndpoint}
+                                        aria-label={`${name} RPC endpoint`}
+                                        autoComplete="off"
+                                        onChange={(e) =>
+                                            setEndpoints({ ...endpoints, [chain]: e.target.value })
+                                        }
+                                        value={endpoints[chain] ?? ""}
+                                    />
+                                </div>
+                            );
+                        })}
+                        {invalidChains.length > 0 && (
+                            <p className="text-sm text-destructive">
+                                Endpoints must be http:// or https:// URLs.
+                            </p>
+                        )}
+                        <p className="text-sm text-primary/50">
+                            Endpoints are stored with your vaults. The provider sees which
+                            addresses you look up and can link them to each other.
+                        </p>
+                        <Button
+                            type="submit"
+                            className="self-start"
+                            disabled={invalidChains.length > 0}
+                        >
+                            Save
+                        </Button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RpcSettingsPanel;
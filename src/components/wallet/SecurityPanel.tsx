@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { MIN_PASSWORD_LENGTH } from "@/lib/storage-encryption";
+
+interface SecurityPanelProps {
+    isEncrypted: boolean;
+    onSetPassword: (password: string) => Promise<void>;
+    onRemovePassword: () => void;
+    onLock: () => void;
+}
+
+/**
+ * Storage encryption controls: set/change password, remove password and
+ * "Lock now".
+ */
+const SecurityPanel = ({
+    isEncrypted,
+    onSetPassword,
+    onRemovePassword,
+    onLock,
+}: SecurityPanelProps) => {
+    const [showForm, setShowForm] = useState<boolean>(false);
+    const [password, setPassword] = useState<string>("");
+    const [confirmation, setConfirmation] = useState<string>("");
+    const [isSaving, setIsSaving] = useState<boolean>(false);
+
+    let error = "";
+    if (password && password.length < MIN_PASSWORD_LENGTH) {
+        error = `Password must be at least ${MIN_PASSWORD_LENGTH} characters.`;
+    } else if (confirmation && password !== confirmation) {
+        error = "Passwords do not match.";
+    }
+    const canSubmit = !error && password !== "" && password === confirmation;
+
+    const resetForm = () => {
+        setShowForm(false);
+        setPassword("");
+        setConfirmation("");
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSetPassword(password);
+            resetForm();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={() => (showForm ? resetForm() : setShowForm(true))}>
+                    <KeyRound />
+                    {isEncrypted ? "Change Password" : "Set Password"}
+                </Button>
+                {isEncrypted && (
+                    <>
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button variant="ghost">Remove Password</Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>
+                                        Store wallets without a password?
+                                    </AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        Your secret phrases and private keys will be
+                                        written to local storage as plaintext.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={onRemovePassword}>
+                                        Remove Password
+                                    </AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                        <Button variant="secondary" onClick={onLock}>
+                            <Lock />
+                            Lock Now
+                        </Button>
+                    </>
+                )}
+            </div>
+            {showForm && (
+                <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+                    <div className="flex flex-col md:flex-row gap-2">
+                        <Input
+                            type="password"
+                            placeholder="New password"
+                            autoFocus
+                            onChange={(e) => setPassword(e.target.value)}
+                            value={password}
+                            disabled={isSaving}
+                        />
+                        <Input
+                            type="password"
+                            placeholder="Confirm password"
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            value={confirmation}
+                            disabled={isSaving}
+                        />
+                        <Button type="submit" disabled={!canSubmit || isSaving}>
+                            {isSaving ? "Encrypting..." : "Save"}
+                        </Button>
+                    </div>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default SecurityPanel;
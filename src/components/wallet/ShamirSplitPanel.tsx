@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { Plus, Split, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { decodeShare, Slip39Group, Slip39ShareSet } from "@/lib/slip39";
+import MnemonicDisplay from "@/components/wallet/MnemonicDisplay";
+
+const PRESETS: { name: string; groupThreshold: number; groups: Slip39Group[] }[] = [
+    { name: "2-of-3", groupThreshold: 1, groups: [{ threshold: 2, count: 3 }] },
+    { name: "3-of-5", groupThreshold: 1, groups: [{ threshold: 3, count: 5 }] },
+];
+
+interface ShamirSplitPanelProps {
+    shares: Slip39ShareSet | null;
+    hasPassphrase: boolean;
+    onSplit: (groupThreshold: number, groups: Slip39Group[]) => void;
+    onCopyShare: (share: string) => void;
+    onClose: () => void;
+}
+
+/**
+ * Splits the active vault's phrase into SLIP-39 shares with configurable
+ * groups and thresholds, then shows each share like MnemonicDisplay.
+ *
+ * SECURITY: Shares are only kept in memory and each one starts hidden.
+ */
+const ShamirSplitPanel = ({
+    shares,
+    hasPassphrase,
+    onSplit,
+    onCopyShare,
+    onClose,
+}: ShamirSplitPanelProps) => {
+    const [groupThreshold, setGroupThreshold] = useState<number>(1);
+    const [groups, setGroups] = useState<Slip39Group[]>(PRESETS[0].groups);
+    const [expandedShares, setExpandedShares] = useState<Set<string>>(new Set());
+
+    const updateGroup = (index: number, group: Partial<Slip39Group>) => {
+        setGroups(groups.map((g, i) => (i === index ? { ...g, ...group } : g)));
+    };
+
+    const removeGroup = (index: number) => {
+        const updated = groups.filter((_, i) => i !== index);
+        setGroups(updated);
+        setGroupThreshold(Math.min(groupThreshold, updated.length));
+    };
+
+    const toggleShare = (key: string) => {
+        const updated = new Set(expandedShares);
+        if (updated.has(key)) {
+            updated.delete(key);
+        } else {
+            updated.add(key);
+        }
+        setExpandedShares(updated);
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8"
+        >
+            <div className="flex justify-between items-start gap-4">
+                <div className="flex flex-col gap-1">
+                    <h2 className="text-2xl md:text-3xl font-bold tracking-tighter flex items-center gap-2">
+                        <Split className="size-6" />
+                        Shamir Backup (SLIP-39)
+                    </h2>
+                    <p className="text-primary/80">
+                        Split the secret phrase into shares. Any threshold of shares
+                        restores it in ForgeSphere; fewer reveal nothing.
+                    </p>
+                    {hasPassphrase && (
+                        <p className="text-sm text-destructive">
+                            Shares do not include this vault&apos;s BIP39 passphrase.
+                            Back it up separately.
+                        </p>
+                    )}
+                </div>
+                <Button variant="ghost" onClick={onClose} aria-label="Close">
+                    <X />
+                </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                <span className="font-semibold">Presets:</span>
+                {PRESETS.map((preset) => (
+                    <Button
+                        key={preset.name}
+                        size={"sm"}
+                        variant={"ghost"}
+                        onClick={() => {
+                            setGroupThreshold(preset.groupThreshold);
+                            setGroups(preset.groups);
+                        }}
+                    >
+                        {preset.name}
+                    </Button>
+                ))}
+            </div>
+
+            <div className="flex flex-col gap-2">
+                {groups.map((group, index) => (
+                    <div key={index} className="flex items-center gap-2 text-sm">
+                        <span className="font-semibold w-20">Group {index + 1}</span>
+                        <Input
+                            type="number"
+                            min={1}
+                            max={group.count}
+                            className="w-20"
+                            aria-label={`Group ${index + 1} threshold`}
+                            value={group.threshold}
+                            onChange={(e) => updateGroup(index, { threshold: Number(e.target.value) })}
+                        />
+                        <span>of</span>
+                        <Input
+                            type="number"
+                            min={1}
+                            max={16}
+                            className="w-20"
+                            aria-label={`Group ${index + 1} share count`}
+                            value={group.count}
+                            onChange={(e) => updateGroup(index, { count: Number(e.target.value) })}
+                        />
+                        <span>shares</span>
+                        {groups.length > 1 && (
+                            <Button
+                                size={"sm"}
+                                variant={"ghost"}
+                                onClick={() => removeGroup(index)}
+                                aria-label={`Remove group ${index + 1}`}
+                            >
+                                <X />
+                            </Button>
+                        )}
+                    </div>
+                ))}
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Button
+                        size={"sm"}
+                        variant={"outline"}
+                        onClick={() => setGroups([...groups, { threshold: 2, count: 3 }])}
+                        disabled={groups.length >= 16}
+                    >
+                        <Plus />
+                        Add Group
+                    </Button>
+                    {groups.length > 1 && (
+                        <>
+                            <span className="font-semibold ml-4">Groups required:</span>
+                            <Input
+                                type="number"
+                                min={1}
+                                max={groups.length}
+                                className="w-20"
+                                aria-label="Group threshold"
+                                value={groupThreshold}
+                                onChange={(e) => setGroupThreshold(Number(e.target.value))}
+                            />
+                            <span>of {groups.length}</span>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <Button
+                className="self-start"
+                onClick={() => {
+                    setExpandedShares(new Set());
+                    onSplit(groupThreshold, groups);
+                }}
+            >
+                {shares ? "Create New Shares" : "Create Shares"}
+            </Button>
+
+            {shares?.map((groupShares, groupIndex) =>
+                groupShares.map((share, memberIndex) => {
+                    const key = `${groupIndex}/${memberIndex}`;
+                    const { memberThreshold } = decodeShare(share);
+                    return (
+                        <MnemonicDisplay
+                            key={key}
+                            title={`Share ${memberIndex + 1} of ${groupShares.length}`}
+                            subtitle={[
+                                shares.length > 1 ? `Group ${groupIndex + 1}` : "",
+                                `${memberThreshold} of ${groupShares.length} needed`,
+                            ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            mnemonicWords={share.split(" ")}
+                            isExpanded={expandedShares.has(key)}
+                            onToggleExpand={() => toggleShare(key)}
+                            onCopy={() => onCopyShare(share)}
+                        />
+                    );
+                })
+            )}
+        </motion.div>
+    );
+};
+
+export default ShamirSplitPanel;
@@ -0,0 +1,105 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { CircleCheck, CircleX, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { checkShares } from "@/lib/slip39";
+
+interface ShareRecoveryInputProps {
+    onRecover: (shares: string[]) => boolean; // true once a vault was created
+}
+
+/**
+ * Collects SLIP-39 shares and reports problems per share (unknown word,
+ * checksum, different share set, duplicate) plus threshold progress.
+ *
+ * SECURITY: Shares are only held in this component's state and are
+ * cleared after a successful recovery.
+ */
+const ShareRecoveryInput = ({ onRecover }: ShareRecoveryInputProps) => {
+    const [shares, setShares] = useState<string[]>(["", ""]);
+
+    const { checks, groups, groupThreshold, isComplete } = useMemo(
+        () => checkShares(shares),
+        [shares]
+    );
+    const completeGroups = groups.filter((group) => group.shareCount >= group.memberThreshold);
+
+    const handleRecover = () => {
+        if (onRecover(shares)) {
+            setShares(["", ""]);
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-sm text-primary/50">
+                Enter one SLIP-39 share per field. Select the wordlist of the original
+                phrase above; the shares do not record it.
+            </p>
+            {shares.map((share, index) => {
+                const check = checks[index];
+                return (
+                    <div key={index} className="flex flex-col gap-1">
+                        <Input
+                            type="password"
+                            autoComplete="off"
+                            placeholder={`Share ${index + 1}`}
+                            aria-invalid={Boolean(check?.error)}
+                            className={check?.error ? "border-destructive focus-visible:ring-destructive" : ""}
+                            onChange={(e) =>
+                                setShares(shares.map((s, i) => (i === index ? e.target.value : s)))
+                            }
+                            value={share}
+                        />
+                        {check?.error && (
+                            <span className="flex items-center gap-1 text-sm text-destructive">
+                                <CircleX className="size-4" />
+                                {check.error}
+                            </span>
+                        )}
+                        {check?.share && !check.error && (
+                            <span className="flex items-center gap-1 text-sm text-primary/50">
+                                <CircleCheck className="size-4" />
+                                {check.share.groupCount > 1 && `Group ${check.share.groupIndex + 1}, `}
+                                share {check.share.memberIndex + 1}
+                            </span>
+                        )}
+                    </div>
+                );
+            })}
+            <Button
+                size={"sm"}
+                variant={"outline"}
+                className="self-start"
+                onClick={() => setShares([...shares, ""])}
+            >
+                <Plus />
+                Add Share
+            </Button>
+            {groupThreshold !== null && (
+                <div className="flex flex-col text-sm text-primary/80">
+                    {groups.map((group) => (
+                        <span key={group.groupIndex}>
+                            {groupThreshold > 1 || groups.length > 1 ? `Group ${group.groupIndex + 1}: ` : ""}
+                            {Math.min(group.shareCount, group.memberThreshold)} of{" "}
+                            {group.memberThreshold} shares
+                        </span>
+                    ))}
+                    {groupThreshold > 1 && (
+                        <span className="font-semibold">
+                            {Math.min(completeGroups.length, groupThreshold)} of {groupThreshold} groups
+                            complete
+                        </span>
+                    )}
+                </div>
+            )}
+            <Button size={"lg"} onClick={handleRecover} disabled={!isComplete}>
+                Recover Vault
+            </Button>
+        </div>
+    );
+};
+
+export default ShareRecoveryInput;
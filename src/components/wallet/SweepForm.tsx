@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { solanaAdapter } from "@/lib/chains/solana";
+import { SweepDestination, SweepPlan } from "@/lib/sweep";
+
+interface SweepFormProps {
+    destinations: SweepDestination[]; // Other stored wallets on the same chain
+    onPreview: (to: string) => Promise<SweepPlan | null>; // Signed plan, or null on error
+    onSubmit: (plan: SweepPlan) => Promise<string[] | null>; // Transaction ids, or null on error
+    onCopy: (id: string) => void;
+    onCancel: () => void;
+}
+
+const shorten = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+/**
+ * Destination choice for sweeping a wallet's whole balance, a dry-run
+ * preview of the signed transfer, and its submission.
+ *
+ * SECURITY: The transfer is signed locally; only the signed transaction
+ * is submitted, after confirmation via AlertDialog.
+ */
+const SweepForm = ({ destinations, onPreview, onSubmit, onCopy, onCancel }: SweepFormProps) => {
+    const [to, setTo] = useState<string>("");
+    const [plan, setPlan] = useState<SweepPlan | null>(null);
+    const [isBusy, setIsBusy] = useState<boolean>(false);
+    const [submittedIds, setSubmittedIds] = useState<string[]>([]);
+
+    const chooseDestination = (address: string) => {
+        setTo(address);
+        setPlan(null);
+        setSubmittedIds([]);
+    };
+
+    const handlePreview = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsBusy(true);
+        setSubmittedIds([]);
+        setPlan(await onPreview(to));
+        setIsBusy(false);
+    };
+
+    const handleSubmit = async () => {
+        if (!plan) {
+            return;
+        }
+        setIsBusy(true);
+        const ids = await onSubmit(plan);
+        setIsBusy(false);
+        if (ids) {
+            setSubmittedIds(ids);
+            setPlan(null);
+        }
+    };
+
+    return (
+        <form onSubmit={handlePreview} className="flex flex-col gap-2">
+            <span className="text-lg md:text-xl font-bold tracking-tighter">Sweep</span>
+            <p className="text-xs text-primary/50">
+                Sends the whole balance, minus network fees, to another address.
+            </p>
+            {destinations.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                    <span className="font-semibold">To:</span>
+                    {destinations.map((destination) => (
+                        <Button
+                            key={destination.address}
+                            type="button"
+                            size={"sm"}
+                            variant={destination.address === to ? "secondary" : "ghost"}
+                            aria-pressed={destination.address === to}
+                            onClick={() => chooseDestination(destination.address)}
+                        >
+                            {destination.label} · {shorten(destination.address)}
+                        </Button>
+                    ))}
+                </div>
+            )}
+            <Input
+                placeholder="Destination address"
+                aria-label="Destination address"
+                autoComplete="off"
+                onChange={(e) => chooseDestination(e.target.value)}
+                value={to}
+            />
+            <div className="flex gap-2">
+                <Button type="submit" variant="outline" disabled={to.trim() === "" || isBusy}>
+                    Preview (Dry Run)
+                </Button>
+                <Button type="button" variant="ghost" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </div>
+            {plan && (
+                <div className="flex flex-col gap-1 text-sm">
+                    <div className="flex justify-between gap-4">
+                        <span className="font-semibold shrink-0">Amount</span>
+                        <span className="text-primary/80 truncate">{plan.amount}</span>
+                    </div>
+                    <div className="flex justify-between gap-4">
+                        <span className="font-semibold shrink-0">Network fee</span>
+                        <span className="text-primary/80 truncate">{plan.fee}</span>
+                    </div>
+                    <div className="flex justify-between gap-4">
+                        <span className="font-semibold shrink-0">To</span>
+                        <span className="font-mono text-primary/80 truncate">{plan.to}</span>
+                    </div>
+                    {plan.closedAccounts.length > 0 && (
+                        <div className="flex justify-between gap-4">
+                            <span className="font-semibold shrink-0">Closed token accounts</span>
+                            <span className="text-primary/80 truncate">
+                                {plan.closedAccounts.length}, reclaiming {plan.reclaimedRent}
+                            </span>
+                        </div>
+                    )}
+                    {plan.transactions.map((transaction, i) => (
+                        <div key={transaction.id} className="flex justify-between gap-4">
+                            <span className="font-semibold shrink-0">
+                                {i === plan.transactions.length - 1 ? "Transfer" : `Closing ${i + 1}`}
+                            </span>
+                            <span className="font-mono text-primary/80 truncate">
+                                {transaction.id}
+                            </span>
+                        </div>
+                    ))}
+                    {plan.remainingTokenAccounts.length > 0 && (
+                        <div className="flex flex-col gap-1 text-destructive">
+                            <span>
+                                {plan.remainingTokenAccounts.length} token{" "}
+                                {plan.remainingTokenAccounts.length === 1
+                                    ? "account still holds tokens and is"
+                                    : "accounts still hold tokens and are"}{" "}
+                                not swept:
+                            </span>
+                            {plan.remainingTokenAccounts.map((account) => (
+                                <span key={account.address} className="truncate">
+                                    {account.amount}{" "}
+                                    <span className="font-mono text-xs">{account.mint}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <p className="text-xs text-primary/50">
+                        Dry run: the {plan.transactions.length === 1 ? "transfer is" : "transactions are"}{" "}
+                        signed but nothing has been sent.
+                        {plan.chain === solanaAdapter.id
+                            ? " Solana transactions expire after about a minute; preview again if submission fails."
+                            : ""}
+                    </p>
+                    <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                            <Button
+                                type="button"
+                                variant="destructive"
+                                className="self-start"
+                                disabled={isBusy}
+                            >
+                                Sweep
+                            </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                            <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                    Send {plan.amount} to {shorten(plan.to)}?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                    The whole balance leaves this wallet. A submitted
+                                    transaction cannot be reversed.
+                                </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={handleSubmit}>
+                                    Sweep
+                                </AlertDialogAction>
+                            </AlertDialogFooter>
+                        </AlertDialogContent>
+                    </AlertDialog>
+                </div>
+            )}
+            {submittedIds.map((id) => (
+                <div key={id} className="flex justify-between w-full items-center gap-2">
+                    <p
+                        onClick={() => onCopy(id)}
+                        className="font-mono text-sm text-primary/80 cursor-pointer hover:text-primary transition-all duration-300 break-all"
+                    >
+                        Submitted: {id}
+                    </p>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => onCopy(id)}
+                        aria-label="Copy transaction id"
+                    >
+                        <Copy className="size-4" />
+                    </Button>
+                </div>
+            ))}
+        </form>
+    );
+};
+
+export default SweepForm;
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Wallet } from "@/lib/wallet-types";
+import { getChainAdapter } from "@/lib/chains";
+import { getTransferKind, SignedTransaction, TransferInput } from "@/lib/transactions";
+import QrCode from "@/components/wallet/QrCode";
+
+interface TransactionComposerProps {
+    wallets: Wallet[]; // Wallets of the active vault on chains with a transaction builder
+    onSign: (wallet: Wallet, input: TransferInput) => SignedTransaction | null; // null on error
+    onCopy: (text: string) => void;
+}
+
+interface FieldSpec {
+    key: string;
+    label: string;
+    defaultValue?: string;
+}
+
+const SOLANA_FIELDS: FieldSpec[] = [
+    { key: "to", label: "Recipient address" },
+    { key: "amount", label: "Amount (SOL)" },
+];
+
+const ETHEREUM_FIELDS: FieldSpec[] = [
+    { key: "to", label: "Recipient address" },
+    { key: "amount", label: "Amount (ETH)" },
+    { key: "chainId", label: "Chain ID", defaultValue: "1" },
+    { key: "nonce", label: "Nonce" },
+    { key: "gasLimit", label: "Gas limit", defaultValue: "21000" },
+    { key: "maxFeePerGas", label: "Max fee (gwei)" },
+    { key: "maxPriorityFeePerGas", label: "Priority fee (gwei)" },
+];
+
+function getWalletLabel(wallet: Wallet): string {
+    const symbol = getChainAdapter(wallet.chain)?.symbol ?? wallet.chain;
+    const name = wallet.index !== undefined ? `Wallet ${wallet.index + 1}` : "Imported";
+    return `${symbol} ${name} · ${wallet.publicKey.slice(0, 6)}…${wallet.publicKey.slice(-4)}`;
+}
+
+/**
+ * Builds and signs a transfer from one of the vault's wallets for
+ * broadcasting from another machine: a SOL transfer with a recent
+ * blockhash or durable nonce, or an EIP-1559 ETH transfer. All chain state
+ * (blockhash, nonce, gas, chain id) is typed in; nothing is fetched.
+ *
+ * SECURITY: Signing happens locally; only the signed transaction is shown.
+ */
+const TransactionComposer = ({ wallets, onSign, onCopy }: TransactionComposerProps) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [walletId, setWalletId] = useState<string | undefined>(undefined);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [useNonce, setUseNonce] = useState<boolean>(false);
+    const [signed, setSigned] = useState<SignedTransaction | null>(null);
+
+    const wallet = wallets.find((w) => w.id === walletId) ?? wallets[0];
+    if (!wallet) {
+        return null;
+    }
+    const kind = getTransferKind(wallet.chain);
+    const fields: FieldSpec[] =
+        kind === "solana"
+            ? [
+                ...SOLANA_FIELDS,
+                ...(useNonce
+                    ? [
+                        { key: "nonceAccount", label: "Nonce account" },
+                        { key: "blockhash", label: "Nonce (stored in the nonce account)" },
+                    ]
+                    : [{ key: "blockhash", label: "Recent blockhash" }]),
+            ]
+            : ETHEREUM_FIELDS;
+    const getValue = (field: FieldSpec) => values[field.key] ?? field.defaultValue ?? "";
+    const isComplete = fields.every((field) => getValue(field).trim() !== "");
+
+    const handleSelectWallet = (id: string) => {
+        setWalletId(id);
+        setValues({});
+        setSigned(null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const entered = Object.fromEntries(fields.map((field) => [field.key, getValue(field)]));
+        const input: TransferInput =
+            kind === "solana"
+                ? {
+                    kind,
+                    to: entered.to,
+                    amount: entered.amount,
+                    blockhash: entered.blockhash,
+                    nonceAccount: useNonce ? entered.nonceAccount : undefined,
+                }
+                : {
+                    kind: "ethereum",
+                    to: entered.to,
+                    amount: entered.amount,
+                    chainId: entered.chainId,
+                    nonce: entered.nonce,
+                    gasLimit: entered.gasLimit,
+                    maxFeePerGas: entered.maxFeePerGas,
+                    maxPriorityFeePerGas: entered.maxPriorityFeePerGas,
+                };
+        setSigned(onSign(wallet, input));
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant={isOpen ? "secondary" : "outline"} onClick={() => setIsOpen(!isOpen)}>
+                    <Send />
+                    Offline Transaction
+                </Button>
+            </div>
+            {isOpen && (
+                <div className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8">
+                    <div className="flex justify-between items-start gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                                Offline Transaction
+                            </h2>
+                            <p className="text-primary/80">
+                                Sign a transfer on this machine and broadcast it from
+                                another. Nothing is fetched: enter the blockhash, nonce and
+                                fees from an online machine.
+                            </p>
+                        </div>
+                        <Button variant="ghost" onClick={() => setIsOpen(false)} aria-label="Close">
+                            <X />
+                        </Button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                        <span className="font-semibold">From:</span>
+                        {wallets.map((w) => (
+                            <Button
+                                key={w.id}
+                                size={"sm"}
+                                variant={w.id === wallet.id ? "secondary" : "ghost"}
+                                aria-pressed={w.id === wallet.id}
+                                onClick={() => handleSelectWallet(w.id)}
+                            >
+                                {getWalletLabel(w)}
+                            </Button>
+                        ))}
+                    </div>
+                    {kind === "solana" && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                            <span className="font-semibold">Lifetime:</span>
+                            {[false, true].map((nonce) => (
+                                <Button
+                                    key={String(nonce)}
+                                    size={"sm"}
+                                    variant={useNonce === nonce ? "secondary" : "ghost"}
+                                    aria-pressed={useNonce === nonce}
+                                    onClick={() => {
+                                        setUseNonce(nonce);
+                                        setSigned(null);
+                                    }}
+                                >
+                                    {nonce ? "Durable nonce" : "Recent blockhash (~1 minute)"}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+
+                    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            {fields.map((field) => (
+                                <Input
+                                    key={field.key}
+                                    placeholder={field.label}
+                                    aria-label={field.label}
+                                    autoComplete="off"
+                                    onChange={(e) => {
+                                        setValues({ ...values, [field.key]: e.target.value });
+                                        setSigned(null);
+                                    }}
+                                    value={getValue(field)}
+                                />
+                            ))}
+                        </div>
+                        <Button type="submit" className="self-start" disabled={!isComplete}>
+                            Sign Transaction
+                        </Button>
+                    </form>
+
+                    {signed && (
+                        <div className="flex flex-col gap-4">
+                            <div className="flex flex-col gap-1 text-sm">
+                                <span className="font-semibold">
+                                    Signed transaction ({signed.encoding === "hex" ? "hex" : "Base64"})
+                                </span>
+                                <span className="text-primary/50 break-all">
+                                    {kind === "solana" ? "Signature" : "Hash"} {signed.id}
+                                </span>
+                            </div>
+                            <div className="flex justify-between w-full items-center gap-2">
+                                <p
+                                    onClick={() => onCopy(signed.serialized)}
+                                    className="font-mono text-sm text-primary/80 cursor-pointer hover:text-primary transition-all duration-300 break-all"
+                                >
+                                    {signed.serialized}
+                                </p>
+                                <Button
+                                    variant="ghost"
+                                    onClick={() => onCopy(signed.serialized)}
+                                    aria-label="Copy signed transaction"
+                                >
+                                    <Copy className="size-4" />
+                                </Button>
+                            </div>
+                            <QrCode value={signed.serialized} label="QR code of the signed transaction" />
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TransactionComposer;
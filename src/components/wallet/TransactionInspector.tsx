@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, ScanSearch, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Vault, Wallet } from "@/lib/wallet-types";
+import { getChainAdapter } from "@/lib/chains";
+import {
+    InspectedTransaction,
+    inspectTransaction,
+    SignedTransaction,
+    TransactionDecodeError,
+    TransactionField,
+} from "@/lib/transactions";
+import QrCode from "@/components/wallet/QrCode";
+
+interface TransactionInspectorProps {
+    vaults: Vault[];
+    onSign: (input: string, wallets: Wallet[]) => SignedTransaction | null; // null on error
+    onCopy: (text: string) => void;
+}
+
+interface OwnedWallet {
+    wallet: Wallet;
+    vaultName: string;
+}
+
+function getWalletLabel({ wallet, vaultName }: OwnedWallet): string {
+    const name = wallet.index !== undefined ? `Wallet ${wallet.index + 1}` : "Imported wallet";
+    return `${name} in ${vaultName}`;
+}
+
+const FieldList = ({ fields, owned }: { fields: TransactionField[]; owned: OwnedWallet[] }) => (
+    <div className="flex flex-col gap-1">
+        {fields.map((field, i) => {
+            const match = owned.find(({ wallet }) => wallet.publicKey === field.value);
+            return (
+                <div key={`${field.label}-${i}`} className="flex flex-col text-sm">
+                    <span className="text-primary/50">{field.label}</span>
+                    <span className="font-mono text-primary/80 break-all">
+                        {field.value}
+                        {match && (
+                            <span className="font-sans text-xs font-semibold">
+                                {" "}· {getWalletLabel(match)}
+                            </span>
+                        )}
+                    </span>
+                </div>
+            );
+        })}
+    </div>
+);
+
+/**
+ * Decodes a transaction built by another tool (a Base64 Solana
+ * transaction, legacy or version 0, or an unsigned hex RLP Ethereum
+ * transaction) into readable fields and instructions, marks the stored
+ * wallets among its signers, and signs it with the ones the user picks.
+ *
+ * SECURITY: Decoding and signing happen locally; only the signed
+ * transaction is shown.
+ */
+const TransactionInspector = ({ vaults, onSign, onCopy }: TransactionInspectorProps) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [input, setInput] = useState<string>("");
+    const [inspected, setInspected] = useState<InspectedTransaction | null>(null);
+    const [error, setError] = useState<string>("");
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [signed, setSigned] = useState<SignedTransaction | null>(null);
+
+    const owned: OwnedWallet[] = inspected
+        ? vaults.flatMap((vault) =>
+            vault.wallets
+                .filter((wallet) => wallet.chain === inspected.chain)
+                .map((wallet) => ({ wallet, vaultName: vault.name }))
+        )
+        : [];
+    // Wallets that may sign: the required signers we hold that have not
+    // signed yet, or any of the chain's wallets if the transaction names none.
+    const candidates = inspected
+        ? inspected.signers.length > 0
+            ? owned.filter(
+                ({ wallet }) =>
+                    inspected.signers.includes(wallet.publicKey) &&
+                    !inspected.signed.includes(wallet.publicKey)
+            )
+            : owned
+        : [];
+    const isSingleSigner = inspected?.signers.length === 0;
+    const remaining = signed ? inspectTransaction(signed.serialized) : null;
+
+    const handleDecode = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSigned(null);
+        try {
+            const result = inspectTransaction(input);
+            setInspected(result);
+            setError("");
+            setSelectedIds(
+                vaults
+                    .flatMap((vault) => vault.wallets)
+                    .filter(
+                        (wallet) =>
+                            wallet.chain === result.chain &&
+                            result.signers.includes(wallet.publicKey) &&
+                            !result.signed.includes(wallet.publicKey)
+                    )
+                    .map((wallet) => wallet.id)
+            );
+        } catch (err) {
+            setInspected(null);
+            setError(
+                err instanceof TransactionDecodeError ? err.message : "Failed to decode the transaction."
+            );
+        }
+    };
+
+    const toggleSelected = (walletId: string) => {
+        setSigned(null);
+        if (isSingleSigner) {
+            setSelectedIds([walletId]);
+        } else {
+            setSelectedIds(
+                selectedIds.includes(walletId)
+                    ? selectedIds.filter((id) => id !== walletId)
+                    : [...selectedIds, walletId]
+            );
+        }
+    };
+
+    const handleSign = () => {
+        const wallets = candidates
+            .map(({ wallet }) => wallet)
+            .filter((wallet) => selectedIds.includes(wallet.id));
+        setSigned(onSign(input, wallets));
+    };
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant={isOpen ? "secondary" : "outline"} onClick={() => setIsOpen(!isOpen)}>
+                    <ScanSearch />
+                    Inspect Transaction
+                </Button>
+            </div>
+            {isOpen && (
+                <div className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8">
+                    <div className="flex justify-between items-start gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                                Inspect Transaction
+                            </h2>
+                            <p className="text-primary/80">
+                                Paste a Base64 Solana transaction or an unsigned hex
+                                Ethereum transaction from another tool to review and sign it.
+                            </p>
+                        </div>
+                        <Button variant="ghost" onClick={() => setIsOpen(false)} aria-label="Close">
+                            <X />
+                        </Button>
+                    </div>
+
+                    <form onSubmit={handleDecode} className="flex flex-col gap-2">
+                        <Textarea
+                            className="font-mono min-h-[120px]"
+                            placeholder="Base64 or hex transaction"
+                            onChange={(e) => {
+                                setInput(e.target.value);
+                                setInspected(null);
+                                setSigned(null);
+                                setError("");
+                            }}
+                            value={input}
+                        />
+                        <Button type="submit" className="self-start" disabled={!input.trim()}>
+                            Decode
+                        </Button>
+                        {error && <p className="text-sm text-destructive">{error}</p>}
+                    </form>
+
+                    {inspected && (
+                        <div className="flex flex-col gap-4">
+                            <span className="text-lg md:text-xl font-bold tracking-tighter">
+                                {getChainAdapter(inspected.chain)?.name ?? inspected.chain} ·{" "}
+                                {inspected.format}
+                            </span>
+                            <FieldList fields={inspected.fields} owned={owned} />
+
+                            {inspected.instructions.map((instruction, i) => (
+                                <div
+                                    key={i}
+                                    className="flex flex-col gap-2 rounded-md border border-primary/10 px-4 py-3"
+                                >
+                                    <span className="text-sm font-semibold">
+                                        {i + 1}. {instruction.program}: {instruction.name}
+                                    </span>
+                                    {instruction.program !== instruction.programId && (
+                                        <span className="font-mono text-xs text-primary/50 break-all">
+                                            {instruction.programId}
+                                        </span>
+                                    )}
+                                    <FieldList fields={instruction.fields} owned={owned} />
+                                    <FieldList fields={instruction.accounts} owned={owned} />
+                                </div>
+                            ))}
+
+                            <div className="flex flex-col gap-2">
+                                <span className="text-lg md:text-xl font-bold tracking-tighter">
+                                    Signers
+                                </span>
+                                {inspected.signers.length === 0 ? (
+                                    <p className="text-sm text-primary/80">
+                                        Unsigned: the wallet you sign with becomes the sender.
+                                    </p>
+                                ) : (
+                                    <FieldList
+                                        fields={inspected.signers.map((signer, i) => ({
+                                            label: `${i === 0 ? "Fee payer" : `Signer ${i + 1}`} · ${
+                                                inspected.signed.includes(signer) ? "signed" : "not signed"
+                                            }`,
+                                            value: signer,
+                                        }))}
+                                        owned={owned}
+                                    />
+                                )}
+                            </div>
+
+                            {candidates.length > 0 ? (
+                                <div className="flex flex-col gap-2">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                                        <span className="font-semibold">Sign with:</span>
+                                        {candidates.map((candidate) => (
+                                            <Button
+                                                key={candidate.wallet.id}
+                                                size={"sm"}
+                                                variant={
+                                                    selectedIds.includes(candidate.wallet.id)
+                                                        ? "secondary"
+                                                        : "ghost"
+                                                }
+                                                aria-pressed={selectedIds.includes(candidate.wallet.id)}
+                                                onClick={() => toggleSelected(candidate.wallet.id)}
+                                            >
+                                                {getWalletLabel(candidate)}
+                                                {isSingleSigner &&
+                                                    ` · ${candidate.wallet.publicKey.slice(0, 6)}…`}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                    <Button
+                                        className="self-start"
+                                        onClick={handleSign}
+                                        disabled={selectedIds.length === 0}
+                                    >
+                                        Sign Transaction
+                                    </Button>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-primary/50">
+                                    {inspected.signers.length > 0 &&
+                                    inspected.signed.length === inspected.signers.length
+                                        ? "Fully signed."
+                                        : "None of your stored wallets can sign this transaction."}
+                                </p>
+                            )}
+
+                            {signed && remaining && (
+                                <div className="flex flex-col gap-4">
+                                    <div className="flex flex-col gap-1 text-sm">
+                                        <span className="font-semibold">
+                                            Signed transaction ({signed.encoding === "hex" ? "hex" : "Base64"})
+                                            {remaining.signers.length > remaining.signed.length &&
+                                                ` · ${remaining.signers.length - remaining.signed.length} more ${
+                                                    remaining.signers.length - remaining.signed.length === 1
+                                                        ? "signature"
+                                                        : "signatures"
+                                                } needed`}
+                                        </span>
+                                        <span className="text-primary/50 break-all">ID {signed.id}</span>
+                                    </div>
+                                    <div className="flex justify-between w-full items-center gap-2">
+                                        <p
+                                            onClick={() => onCopy(signed.serialized)}
+                                            className="font-mono text-sm text-primary/80 cursor-pointer hover:text-primary transition-all duration-300 break-all"
+                                        >
+                                            {signed.serialized}
+                                        </p>
+                                        <Button
+                                            variant="ghost"
+                                            onClick={() => onCopy(signed.serialized)}
+                                            aria-label="Copy signed transaction"
+                                        >
+                                            <Copy className="size-4" />
+                                        </Button>
+                                    </div>
+                                    <QrCode
+                                        value={signed.serialized}
+                                        label="QR code of the signed transaction"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TransactionInspector;
@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import { RotateCcw, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { getChainAdapter } from "@/lib/chains";
+import { getPurgeDate, TRASH_RETENTION_OPTIONS } from "@/lib/trash";
+import { Trash, TrashItem } from "@/lib/wallet-types";
+
+interface TrashPanelProps {
+    trash: Trash;
+    onRestore: (itemId: string) => void;
+    onPurge: (itemId: string) => void;
+    onEmpty: () => void;
+    onSetRetention: (days: number | null) => void;
+}
+
+function describeItem(item: TrashItem): string {
+    if (item.kind === "vault") {
+        const count = item.vault.wallets.length;
+        return `${item.vault.name} (secret phrase and ${count} ${count === 1 ? "wallet" : "wallets"})`;
+    }
+    const chains = Array.from(new Set(item.wallets.map((wallet) => wallet.chain)))
+        .map((chain) => getChainAdapter(chain)?.name ?? chain)
+        .join(", ");
+    if (item.wallets.length === 1) {
+        const index = item.wallets[0].index;
+        const name = index !== undefined ? `Wallet ${index + 1}` : "Imported wallet";
+        return `${chains} ${name} from ${item.vaultName}`;
+    }
+    return `${item.wallets.length} ${chains} wallets from ${item.vaultName}`;
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString();
+}
+
+/**
+ * Deleted vaults and wallets, with restore and permanent purge, plus the
+ * optional auto-purge period.
+ *
+ * SECURITY: Only names and addresses are shown. Purging is permanent and
+ * confirmed via AlertDialog.
+ */
+const TrashPanel = ({ trash, onRestore, onPurge, onEmpty, onSetRetention }: TrashPanelProps) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant={isOpen ? "secondary" : "outline"} onClick={() => setIsOpen(!isOpen)}>
+                    <Trash2 />
+                    Trash{trash.items.length > 0 && ` (${trash.items.length})`}
+                </Button>
+            </div>
+            {isOpen && (
+                <div className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8">
+                    <div className="flex justify-between items-start gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                                Trash
+                            </h2>
+                            <p className="text-primary/80">
+                                Deleted vaults and wallets stay here, encrypted like the
+                                rest of your data, until you restore or purge them.
+                                Backup files do not include the trash.
+                            </p>
+                        </div>
+                        <Button variant="ghost" onClick={() => setIsOpen(false)} aria-label="Close">
+                            <X />
+                        </Button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                        <span className="font-semibold">Auto-purge:</span>
+                        <Button
+                            size={"sm"}
+                            variant={trash.retentionDays === null ? "secondary" : "ghost"}
+                            aria-pressed={trash.retentionDays === null}
+                            onClick={() => onSetRetention(null)}
+                        >
+                            Never
+                        </Button>
+                        {TRASH_RETENTION_OPTIONS.map((days) => (
+                            <Button
+                                key={days}
+                                size={"sm"}
+                                variant={trash.retentionDays === days ? "secondary" : "ghost"}
+                                aria-pressed={trash.retentionDays === days}
+                                onClick={() => onSetRetention(days)}
+                            >
+                                After {days} days
+                            </Button>
+                        ))}
+                    </div>
+
+                    {trash.items.length === 0 ? (
+                        <p className="text-sm text-primary/50">The trash is empty.</p>
+                    ) : (
+                        <div className="flex flex-col gap-2">
+                            {trash.items.map((item) => {
+                                const purgeDate = getPurgeDate(trash, item);
+                                const wallets = item.kind === "vault" ? item.vault.wallets : item.wallets;
+                                return (
+                                    <div
+                                        key={item.id}
+                                        className="flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-md border border-primary/10 px-4 py-3 text-sm"
+                                    >
+                                        <div className="flex flex-col min-w-0">
+                                            <span className="font-semibold">{describeItem(item)}</span>
+                                            <span className="text-primary/50">
+                                                Deleted {formatDate(item.deletedAt)}
+                                                {purgeDate !== null &&
+                                                    ` · purged after ${formatDate(purgeDate)}`}
+                                            </span>
+                                            {wallets.map((wallet) => (
+                                                <span
+                                                    key={wallet.id}
+                                                    className="font-mono text-xs text-primary/50 truncate"
+                                                >
+                                                    {wallet.publicKey}
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <div className="flex gap-2 shrink-0">
+                                            <Button size={"sm"} variant={"outline"} onClick={() => onRestore(item.id)}>
+                                                <RotateCcw />
+                                                Restore
+                                            </Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                    <Button size={"sm"} variant={"ghost"} className="text-destructive">
+                                                        Purge
+                                                    </Button>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                        <AlertDialogTitle>
+                                                            Permanently delete {describeItem(item)}?
+                                                        </AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            This action cannot be undone.{" "}
+                                                            {item.kind === "vault"
+                                                                ? "The secret phrase, wallets and keys"
+                                                                : "These keys"}{" "}
+                                                            will be removed from local storage.
+                                                        </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                        <AlertDialogAction onClick={() => onPurge(item.id)}>
+                                                            Purge
+                                                        </AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    {trash.items.length > 0 && (
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button variant="destructive" className="self-start">
+                                    Empty Trash
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>
+                                        Permanently delete everything in the trash?
+                                    </AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        This action cannot be undone. {trash.items.length}{" "}
+                                        {trash.items.length === 1 ? "item" : "items"}, including any
+                                        secret phrases and keys, will be removed from local storage.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={onEmpty}>Empty Trash</AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TrashPanel;
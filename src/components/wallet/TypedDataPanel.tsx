@@ -0,0 +1,279 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, FilePenLine, TriangleAlert, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+    AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Wallet } from "@/lib/wallet-types";
+import {
+    describeTypedData,
+    EVM_CHAINS,
+    getTypedDataHash,
+    getTypedDataWarnings,
+    InvalidTypedDataError,
+    parseTypedData,
+    TypedData,
+    TypedDataEntry,
+} from "@/lib/typed-data";
+
+interface TypedDataPanelProps {
+    wallets: Wallet[]; // Ethereum wallets of the active vault
+    onSign: (wallet: Wallet, data: TypedData) => string | null; // Signature, or null on error
+    onCopy: (signature: string) => void;
+}
+
+function getWalletLabel(wallet: Wallet): string {
+    const name = wallet.index !== undefined ? `Wallet ${wallet.index + 1}` : "Imported";
+    return `${name} · ${wallet.publicKey.slice(0, 6)}…${wallet.publicKey.slice(-4)}`;
+}
+
+/**
+ * Domain or message fields, nested for structs and arrays.
+ */
+const EntryList = ({ entries }: { entries: TypedDataEntry[] }) => (
+    <div className="flex flex-col gap-1">
+        {entries.map((entry, i) => (
+            <div key={`${entry.name}-${i}`} className="flex flex-col text-sm">
+                <span className="text-primary/50">
+                    {entry.name} <span className="font-mono text-xs">{entry.type}</span>
+                </span>
+                {entry.children ? (
+                    <div className="border-l border-primary/10 pl-4">
+                        <EntryList entries={entry.children} />
+                    </div>
+                ) : (
+                    <span className="font-mono text-primary/80 break-all">{entry.value}</span>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+/**
+ * Reviews and signs EIP-712 typed data (permits, orders, Safe
+ * transactions) with one of the vault's Ethereum wallets. The payload is
+ * shown field by field, with warnings, before anything is signed.
+ *
+ * SECURITY: Signing happens locally. Payloads with warnings are only
+ * signed after confirmation via AlertDialog.
+ */
+const TypedDataPanel = ({ wallets, onSign, onCopy }: TypedDataPanelProps) => {
+    const [isOpen, setIsOpen] = useState<boolean>(false);
+    const [walletId, setWalletId] = useState<string | undefined>(undefined);
+    const [chainIdInput, setChainIdInput] = useState<string>(String(EVM_CHAINS[0].id));
+    const [json, setJson] = useState<string>("");
+    const [data, setData] = useState<TypedData | null>(null);
+    const [error, setError] = useState<string>("");
+    const [signature, setSignature] = useState<string | null>(null);
+
+    const wallet = wallets.find((w) => w.id === walletId) ?? wallets[0];
+    const expectedChainId = /^\d+$/.test(chainIdInput) ? Number(chainIdInput) : null;
+    const warnings =
+        data && expectedChainId !== null ? getTypedDataWarnings(data, expectedChainId) : [];
+    const description = data ? describeTypedData(data) : null;
+
+    const handleReview = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSignature(null);
+        try {
+            setData(parseTypedData(json));
+            setError("");
+        } catch (err) {
+            setData(null);
+            setError(
+                err instanceof InvalidTypedDataError ? err.message : "Failed to read the payload."
+            );
+        }
+    };
+
+    const handleSign = () => {
+        if (data && wallet) {
+            setSignature(onSign(wallet, data));
+        }
+    };
+
+    if (!wallet) {
+        return null;
+    }
+
+    return (
+        <div className="flex flex-col gap-4">
+            <div className="flex flex-wrap gap-2">
+                <Button variant={isOpen ? "secondary" : "outline"} onClick={() => setIsOpen(!isOpen)}>
+                    <FilePenLine />
+                    Sign Typed Data
+                </Button>
+            </div>
+            {isOpen && (
+                <div className="flex flex-col gap-4 rounded-lg border border-primary/10 p-8">
+                    <div className="flex justify-between items-start gap-4">
+                        <div className="flex flex-col gap-1">
+                            <h2 className="text-2xl md:text-3xl font-bold tracking-tighter">
+                                Sign Typed Data
+                            </h2>
+                            <p className="text-primary/80">
+                                Paste an EIP-712 payload (eth_signTypedData_v4) and review
+                                what it authorizes before signing.
+                            </p>
+                        </div>
+                        <Button variant="ghost" onClick={() => setIsOpen(false)} aria-label="Close">
+                            <X />
+                        </Button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                        <span className="font-semibold">Wallet:</span>
+                        {wallets.map((w) => (
+                            <Button
+                                key={w.id}
+                                size={"sm"}
+                                variant={w.id === wallet.id ? "secondary" : "ghost"}
+                                aria-pressed={w.id === wallet.id}
+                                onClick={() => {
+                                    setWalletId(w.id);
+                                    setSignature(null);
+                                }}
+                            >
+                                {getWalletLabel(w)}
+                            </Button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-primary/80">
+                        <span className="font-semibold">Expected chain:</span>
+                        {EVM_CHAINS.map((chain) => (
+                            <Button
+                                key={chain.id}
+                                size={"sm"}
+                                variant={chain.id === expectedChainId ? "secondary" : "ghost"}
+                                aria-pressed={chain.id === expectedChainId}
+                                onClick={() => setChainIdInput(String(chain.id))}
+                            >
+                                {chain.name}
+                            </Button>
+                        ))}
+                        <Input
+                            className="w-32"
+                            inputMode="numeric"
+                            aria-label="Expected chain ID"
+                            onChange={(e) => setChainIdInput(e.target.value.trim())}
+                            value={chainIdInput}
+                        />
+                    </div>
+
+                    <form onSubmit={handleReview} className="flex flex-col gap-2">
+                        <Textarea
+                            className="font-mono min-h-[160px]"
+                            placeholder='{ "types": …, "primaryType": …, "domain": …, "message": … }'
+                            onChange={(e) => {
+                                setJson(e.target.value);
+                                setData(null);
+                                setSignature(null);
+                                setError("");
+                            }}
+                            value={json}
+                        />
+                        <Button type="submit" className="self-start" disabled={!json.trim()}>
+                            Review
+                        </Button>
+                        {error && <p className="text-sm text-destructive">{error}</p>}
+                    </form>
+
+                    {data && description && (
+                        <div className="flex flex-col gap-4">
+                            {warnings.length > 0 && (
+                                <div className="flex flex-col gap-1 rounded-md border border-destructive/50 px-4 py-3 text-sm text-destructive">
+                                    {warnings.map((warning) => (
+                                        <span key={warning} className="flex gap-2 items-start">
+                                            <TriangleAlert className="size-4 shrink-0" />
+                                            {warning}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex flex-col gap-2">
+                                <span className="text-lg md:text-xl font-bold tracking-tighter">
+                                    Domain
+                                </span>
+                                <EntryList entries={description.domain} />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                                <span className="text-lg md:text-xl font-bold tracking-tighter">
+                                    {data.primaryType}
+                                </span>
+                                <EntryList entries={description.message} />
+                            </div>
+                            <span className="text-xs text-primary/50 break-all">
+                                Digest {getTypedDataHash(data)}
+                            </span>
+
+                            {warnings.length > 0 ? (
+                                <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                        <Button variant="destructive" className="self-start">
+                                            Sign Anyway
+                                        </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                        <AlertDialogHeader>
+                                            <AlertDialogTitle>
+                                                Sign despite {warnings.length}{" "}
+                                                {warnings.length === 1 ? "warning" : "warnings"}?
+                                            </AlertDialogTitle>
+                                            <AlertDialogDescription>
+                                                Anyone holding this signature can submit it.
+                                                Only sign if you trust the site that asked for
+                                                it and understand what it authorizes.
+                                            </AlertDialogDescription>
+                                        </AlertDialogHeader>
+                                        <AlertDialogFooter>
+                                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                            <AlertDialogAction onClick={handleSign}>
+                                                Sign
+                                            </AlertDialogAction>
+                                        </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                </AlertDialog>
+                            ) : (
+                                <Button className="self-start" onClick={handleSign}>
+                                    Sign
+                                </Button>
+                            )}
+
+                            {signature && (
+                                <div className="flex justify-between w-full items-center gap-2">
+                                    <p
+                                        onClick={() => onCopy(signature)}
+                                        className="font-mono text-sm text-primary/80 cursor-pointer hover:text-primary transition-all duration-300 break-all"
+                                    >
+                                        {signature}
+                                    </p>
+                                    <Button
+                                        variant="ghost"
+                                        onClick={() => onCopy(signature)}
+                                        aria-label="Copy signature"
+                                    >
+                                        <Copy className="size-4" />
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TypedDataPanel;
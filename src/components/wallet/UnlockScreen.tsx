@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { LockKeyhole } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface UnlockScreenProps {
+    onUnlock: (password: string) => Promise<void>;
+}
+
+/**
+ * Password prompt shown before encrypted wallet data is hydrated.
+ * 
+ * SECURITY: The password is only held in this component's state until
+ * submitted, then cleared.
+ */
+const UnlockScreen = ({ onUnlock }: UnlockScreenProps) => {
+    const [password, setPassword] = useState<string>("");
+    const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsUnlocking(true);
+        try {
+            await onUnlock(password);
+        } finally {
+            setPassword("");
+            setIsUnlocking(false);
+        }
+    };
+
+    return (
+        <motion.form
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            onSubmit={handleSubmit}
+            className="flex flex-col gap-4 my-12"
+        >
+            <div className="flex flex-col gap-2">
+                <h1 className="tracking-tighter text-4xl md:text-5xl font-black flex items-center gap-3">
+                    <LockKeyhole className="size-10" />
+                    Wallets Locked
+                </h1>
+                <p className="text-primary/80 font-semibold text-lg md:text-xl">
+                    Enter your password to decrypt your vaults.
+                </p>
+            </div>
+            <div className="flex flex-col md:flex-row gap-4">
+                <Input
+                    type="password"
+                    placeholder="Password"
+                    autoFocus
+                    onChange={(e) => setPassword(e.target.value)}
+                    value={password}
+                    disabled={isUnlocking}
+                />
+                <Button size={"lg"} type="submit" disabled={isUnlocking || !password}>
+                    {isUnlocking ? "Unlocking..." : "Unlock"}
+                </Button>
+            </div>
+        </motion.form>
+    );
+};
+
+export default UnlockScreen;
@@ -0,0 +1,60 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Vault } from "@/lib/wallet-types";
+import { getChainAdapter } from "@/lib/chains";
+
+interface VaultSwitcherProps {
+    vaults: Vault[];
+    activeVaultId: string | null;
+    onSelectVault: (vaultId: string) => void;
+    onNewVault: () => void;
+}
+
+/**
+ * Row of vault tabs with a "New Vault" action.
+ */
+const VaultSwitcher = ({
+    vaults,
+    activeVaultId,
+    onSelectVault,
+    onNewVault,
+}: VaultSwitcherProps) => {
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{
+                duration: 0.3,
+                ease: "easeInOut",
+            }}
+            className="flex flex-wrap items-center gap-2"
+        >
+            {vaults.map((vault) => (
+                <Button
+                    key={vault.id}
+                    variant={vault.id === activeVaultId ? "default" : "outline"}
+                    onClick={() => onSelectVault(vault.id)}
+                >
+                    {vault.name}
+                    <span className="text-xs opacity-70">
+                        {vault.chains
+                            .map((chain) => getChainAdapter(chain)?.symbol ?? chain)
+                            .join(" · ")}
+                    </span>
+                </Button>
+            ))}
+            <Button
+                variant={activeVaultId === null ? "secondary" : "ghost"}
+                onClick={onNewVault}
+            >
+                <Plus />
+                New Vault
+            </Button>
+        </motion.div>
+    );
+};
+
+export default VaultSwitcher;
@@ -1,8 +1,9 @@
 "use client";
 
+import { useState } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { Eye, EyeOff, Trash } from "lucide-react";
+import { Brush, Eye, EyeOff, FileKey, PenLine, RefreshCw, Trash } from "lucide-react";
 import {
     AlertDialog,
     AlertDialogAction,
@@ -14,16 +15,46 @@ import {
     AlertDialogTitle,
     AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Wallet } from "@/lib/wallet-types";
+import { Wallet, WalletSource } from "@/lib/wallet-types";
+import { ChainAdapter } from "@/lib/chains";
+import { KeystorePreset, KeystoreProgress } from "@/lib/keystore";
+import { AccountBalance } from "@/lib/rpc";
+import { SweepDestination, SweepPlan } from "@/lib/sweep";
+import KeystoreExportForm from "@/components/wallet/KeystoreExportForm";
+import MessageSignForm from "@/components/wallet/MessageSignForm";
+import SweepForm from "@/components/wallet/SweepForm";
+
+const SOURCE_LABELS: Record<WalletSource, string> = {
+    keystore: "Imported keystore",
+    "private-key": "Imported key",
+};
 
 interface WalletCardProps {
     wallet: Wallet;
-    index: number;
+    adapter?: ChainAdapter;
+    index: number; // Position in the list, for the entrance animation
+    isLegacy?: boolean;
+    migrationWallet?: Wallet | null;
     isPrivateKeyVisible: boolean;
     onTogglePrivateKey: () => void;
     onDelete: () => void;
-    onCopyPublicKey: () => void;
-    onCopyPrivateKey: () => void;
+    onCopyPublicKey: (publicKey: string) => void;
+    onCopyPrivateKey: (privateKey: string) => void;
+    onCopyMigrationAddress?: () => void;
+    onExportKeystore?: (
+        password: string,
+        preset: KeystorePreset,
+        onProgress: KeystoreProgress
+    ) => Promise<void>;
+    onSignMessage?: (message: string, format: string) => string | null;
+    onCopySignature?: (signature: string) => void;
+    balance?: AccountBalance;
+    isBalanceLoading?: boolean;
+    onRefreshBalance?: () => void;
+    sweepDestinations?: SweepDestination[];
+    onSweepPreview?: (to: string) => Promise<SweepPlan | null>;
+    onSweepSubmit?: (plan: SweepPlan) => Promise<string[] | null>;
+    onCopyTransactionId?: (id: string) => void;
 }
 
 /**
@@ -32,16 +63,59 @@ interface WalletCardProps {
  * SECURITY INVARIANTS:
  * - Private key is hidden by default (controlled by parent)
  * - Delete action requires confirmation via AlertDialog
+ * 
+ * Derived wallets are titled by account index, so numbering stays stable
+ * when other wallets are deleted. Imported (non-derived) wallets are
+ * badged with their source. Legacy
+ * Ethereum wallets are badged; when migrationWallet is provided the
+ * standards-compliant address for the same index is shown next to the
+ * legacy one so funds on either address can be located.
+ * 
+ * Wallets with several address formats (wallet.addresses) get a picker;
+ * the key pair shown and copied follows the selected format.
+ * 
+ * When onExportKeystore is provided (Ethereum), the wallet can be
+ * downloaded as a password-encrypted keystore file. When onSignMessage
+ * is provided, off-chain messages can be signed in the adapter's formats.
+ * When onRefreshBalance is provided (balance lookups enabled), the
+ * address's balance is shown and refreshed on demand only. When
+ * onSweepPreview and onSweepSubmit are provided, the whole balance can be
+ * swept to another address after a dry-run preview and confirmation.
  */
 const WalletCard = ({
     wallet,
+    adapter,
     index,
+    isLegacy = false,
+    migrationWallet,
     isPrivateKeyVisible,
     onTogglePrivateKey,
     onDelete,
     onCopyPublicKey,
     onCopyPrivateKey,
+    onCopyMigrationAddress,
+    onExportKeystore,
+    onSignMessage,
+    onCopySignature,
+    balance,
+    isBalanceLoading = false,
+    onRefreshBalance,
+    sweepDestinations = [],
+    onSweepPreview,
+    onSweepSubmit,
+    onCopyTransactionId,
 }: WalletCardProps) => {
+    const [showKeystoreExport, setShowKeystoreExport] = useState<boolean>(false);
+    const [showMessageSign, setShowMessageSign] = useState<boolean>(false);
+    const [showSweep, setShowSweep] = useState<boolean>(false);
+    const [selectedAddressType, setSelectedAddressType] = useState<string | undefined>(
+        wallet.addresses?.[0]?.type
+    );
+    const selected =
+        wallet.addresses?.find((address) => address.type === selectedAddressType) ??
+        wallet;
+    const network = adapter?.networks?.find((n) => n.id === wallet.network);
+
     return (
         <motion.div
             initial={{ opacity: 0, y: -20 }}
@@ -54,64 +128,206 @@ const WalletCard = ({
             className="flex flex-col rounded-2xl border border-primary/10"
         >
             <div className="flex justify-between px-8 py-6">
-                <h3 className="font-bold text-2xl md:text-3xl tracking-tighter ">
-                    Wallet {index + 1}
-                </h3>
-                <AlertDialog>
-                    <AlertDialogTrigger asChild>
+                <div className="flex items-center gap-3">
+                    <h3 className="font-bold text-2xl md:text-3xl tracking-tighter ">
+                        {wallet.index !== undefined
+                            ? `Wallet ${wallet.index + 1}`
+                            : "Imported Wallet"}
+                    </h3>
+                    {adapter && (
+                        <span className="rounded-full bg-secondary px-2 py-0.5 text-xs font-semibold text-primary/80">
+                            {adapter.symbol}
+                            {network && network.id !== adapter.networks?.[0].id
+                                ? ` · ${network.name}`
+                                : ""}
+                        </span>
+                    )}
+                    {wallet.source && (
+                        <span className="rounded-full border border-primary/20 px-2 py-0.5 text-xs font-semibold text-primary/80">
+                            {SOURCE_LABELS[wallet.source]}
+                        </span>
+                    )}
+                    {isLegacy && (
+                        <span className="rounded-full border border-destructive/50 px-2 py-0.5 text-xs font-semibold text-destructive">
+                            Legacy derivation
+                        </span>
+                    )}
+                </div>
+                <div className="flex items-center">
+                    {onSignMessage && adapter?.messageFormats && (
                         <Button
-                            variant="ghost"
-                            className="flex gap-2 items-center"
+                            variant={showMessageSign ? "secondary" : "ghost"}
+                            onClick={() => setShowMessageSign(!showMessageSign)}
+                            aria-label="Sign message"
+                        >
+                            <PenLine className="size-4" />
+                        </Button>
+                    )}
+                    {onSweepPreview && onSweepSubmit && (
+                        <Button
+                            variant={showSweep ? "secondary" : "ghost"}
+                            onClick={() => setShowSweep(!showSweep)}
+                            aria-label="Sweep"
+                        >
+                            <Brush className="size-4" />
+                        </Button>
+                    )}
+                    {onExportKeystore && (
+                        <Button
+                            variant={showKeystoreExport ? "secondary" : "ghost"}
+                            onClick={() => setShowKeystoreExport(!showKeystoreExport)}
+                            aria-label="Export keystore"
                         >
-                            <Trash className="size-4 text-destructive" />
+                            <FileKey className="size-4" />
                         </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                        <AlertDialogHeader>
-                            <AlertDialogTitle>
-                                Are you sure you want to delete this wallet?
-                            </AlertDialogTitle>
-                            <AlertDialogDescription>
-                                This action cannot be undone. This will permanently
-                                delete your wallet and keys from local storage.
-                            </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                                onClick={onDelete}
-                                className="text-destructive"
+                    )}
+                    <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                className="flex gap-2 items-center"
                             >
-                                Delete
-                            </AlertDialogAction>
-                        </AlertDialogFooter>
-                    </AlertDialogContent>
-                </AlertDialog>
+                                <Trash className="size-4 text-destructive" />
+                            </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                            <AlertDialogHeader>
+                                <AlertDialogTitle>
+                                    Move this wallet to the trash?
+                                </AlertDialogTitle>
+                                <AlertDialogDescription>
+                                    The wallet and its keys can be restored from the
+                                    trash until it is purged.
+                                </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                    onClick={onDelete}
+                                    className="text-destructive"
+                                >
+                                    Move to Trash
+                                </AlertDialogAction>
+                            </AlertDialogFooter>
+                        </AlertDialogContent>
+                    </AlertDialog>
+                </div>
             </div>
             <div className="flex flex-col gap-8 px-8 py-4 rounded-2xl bg-secondary/50">
+                {wallet.addresses && wallet.addresses.length > 1 && (
+                    <div className="flex flex-wrap gap-2">
+                        {wallet.addresses.map((address) => (
+                            <Button
+                                key={address.type}
+                                size={"sm"}
+                                variant={
+                                    address.type === selectedAddressType ? "default" : "ghost"
+                                }
+                                onClick={() => setSelectedAddressType(address.type)}
+                            >
+                                {adapter?.addressTypes?.find((t) => t.id === address.type)
+                                    ?.name ?? address.type}
+                            </Button>
+                        ))}
+                    </div>
+                )}
                 <div
                     className="flex flex-col w-full gap-2"
-                    onClick={onCopyPublicKey}
+                    onClick={() => onCopyPublicKey(selected.publicKey)}
                 >
                     <span className="text-lg md:text-xl font-bold tracking-tighter">
-                        Public Key
+                        {migrationWallet
+                            ? "Legacy Address"
+                            : adapter?.addressLabel ?? "Public Key"}
                     </span>
                     <p className="text-primary/80 font-medium cursor-pointer hover:text-primary transition-all duration-300 truncate">
-                        {wallet.publicKey}
+                        {selected.publicKey}
                     </p>
+                    {selected.path && (
+                        <span className="text-xs text-primary/50 truncate">
+                            {selected.path}
+                        </span>
+                    )}
                 </div>
+                {migrationWallet && (
+                    <div
+                        className="flex flex-col w-full gap-2"
+                        onClick={onCopyMigrationAddress}
+                    >
+                        <span className="text-lg md:text-xl font-bold tracking-tighter">
+                            Standard Address
+                        </span>
+                        <p className="text-primary/80 font-medium cursor-pointer hover:text-primary transition-all duration-300 truncate">
+                            {migrationWallet.publicKey}
+                        </p>
+                        <span className="text-xs text-primary/50 truncate">
+                            {migrationWallet.path}
+                        </span>
+                    </div>
+                )}
+                {onRefreshBalance && (
+                    <div className="flex flex-col w-full gap-2">
+                        <div className="flex justify-between w-full items-center gap-2">
+                            <span className="text-lg md:text-xl font-bold tracking-tighter">
+                                Balance
+                            </span>
+                            <Button
+                                variant="ghost"
+                                onClick={onRefreshBalance}
+                                disabled={isBalanceLoading}
+                                aria-label="Refresh balance"
+                            >
+                                <RefreshCw
+                                    className={`size-4 ${isBalanceLoading ? "animate-spin" : ""}`}
+                                />
+                            </Button>
+                        </div>
+                        {balance ? (
+                            <div className="flex flex-col gap-1">
+                                <p className="text-primary/80 font-medium">{balance.native}</p>
+                                {balance.tokens.map((token) => (
+                                    <p
+                                        key={token.mint}
+                                        className="text-sm text-primary/80 truncate"
+                                    >
+                                        {token.amount}{" "}
+                                        <span className="font-mono text-xs text-primary/50">
+                                            {token.mint}
+                                        </span>
+                                    </p>
+                                ))}
+                                {balance.transactionCount !== undefined && (
+                                    <span className="text-sm text-primary/80">
+                                        {balance.transactionCount}{" "}
+                                        {balance.transactionCount === 1
+                                            ? "transaction"
+                                            : "transactions"}{" "}
+                                        sent
+                                    </span>
+                                )}
+                                <span className="text-xs text-primary/50">
+                                    Updated {new Date(balance.fetchedAt).toLocaleTimeString()}
+                                </span>
+                            </div>
+                        ) : (
+                            <span className="text-sm text-primary/50">
+                                {isBalanceLoading ? "Loading…" : "Not fetched yet."}
+                            </span>
+                        )}
+                    </div>
+                )}
                 <div className="flex flex-col w-full gap-2">
                     <span className="text-lg md:text-xl font-bold tracking-tighter">
                         Private Key
                     </span>
                     <div className="flex justify-between w-full items-center gap-2">
                         <p
-                            onClick={onCopyPrivateKey}
+                            onClick={() => onCopyPrivateKey(selected.privateKey)}
                             className="text-primary/80 font-medium cursor-pointer hover:text-primary transition-all duration-300 truncate"
                         >
                             {isPrivateKeyVisible
-                                ? wallet.privateKey
-                                : "•".repeat(wallet.privateKey.length)}
+                                ? selected.privateKey
+                                : "•".repeat(selected.privateKey.length)}
                         </p>
                         <Button
                             variant="ghost"
@@ -125,6 +341,32 @@ const WalletCard = ({
                         </Button>
                     </div>
                 </div>
+                {onExportKeystore && showKeystoreExport && (
+                    <KeystoreExportForm
+                        onExport={async (password, preset, onProgress) => {
+                            await onExportKeystore(password, preset, onProgress);
+                            setShowKeystoreExport(false);
+                        }}
+                        onCancel={() => setShowKeystoreExport(false)}
+                    />
+                )}
+                {onSignMessage && adapter?.messageFormats && showMessageSign && (
+                    <MessageSignForm
+                        formats={adapter.messageFormats}
+                        onSign={onSignMessage}
+                        onCopy={(signature) => onCopySignature?.(signature)}
+                        onCancel={() => setShowMessageSign(false)}
+                    />
+                )}
+                {onSweepPreview && onSweepSubmit && showSweep && (
+                    <SweepForm
+                        destinations={sweepDestinations}
+                        onPreview={onSweepPreview}
+                        onSubmit={onSweepSubmit}
+                        onCopy={(id) => onCopyTransactionId?.(id)}
+                        onCancel={() => setShowSweep(false)}
+                    />
+                )}
             </div>
         </motion.div>
     );
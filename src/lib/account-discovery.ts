@@ -0,0 +1,102 @@
+/**
+ * Account discovery for imported phrases: derives consecutive account
+ * indices and asks the chain's RPC endpoint whether each address has
+ * on-chain history, stopping after a run of unused accounts (the gap
+ * limit, as in BIP44 account discovery).
+ *
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material (rule #1): only derived
+ *   addresses are looked up, and the phrase and each derived private key
+ *   are added to the secrets checked by the RPC guard
+ * - No console logging of secrets
+ * - Error messages never include key material
+ */
+
+import { Wallet } from "./wallet-types";
+import { DerivationOptions, generateWalletFromMnemonic } from "./wallet-derivation";
+import { hasAccountHistory } from "./rpc";
+
+/** Unused accounts in a row after which the scan stops (BIP44's default). */
+export const DEFAULT_GAP_LIMIT = 20;
+
+/** Gap limits offered in the UI. */
+export const GAP_LIMITS = [5, 10, 20, 50] as const;
+
+// Stops a scan against an endpoint that reports every address as used.
+const MAX_SCANNED_ACCOUNTS = 1000;
+
+/**
+ * One scanned account index.
+ */
+export interface DiscoveredAccount {
+    wallet: Wallet;
+    used: boolean;        // Has on-chain history
+}
+
+/**
+ * Progress of a scan, for display.
+ */
+export interface AccountDiscovery {
+    accounts: DiscoveredAccount[];
+    status: "scanning" | "done" | "stopped" | "failed";
+}
+
+/**
+ * Inputs to discoverAccounts.
+ */
+export interface DiscoveryOptions extends DerivationOptions {
+    endpoint: string;     // JSON-RPC URL for the chain
+    knownSecrets: string[]; // Secrets already in memory, for the RPC guard
+    gapLimit?: number;
+    onAccount?: (account: DiscoveredAccount) => void; // Called as each index is checked
+    signal?: AbortSignal; // Stops the scan after the current account
+}
+
+/**
+ * Scans account indices from 0 until gapLimit consecutive accounts have no
+ * on-chain history.
+ *
+ * A template without `{index}` (e.g. Solana CLI's `--derivation-path` default) gives the
+ * same path at every index, so only index 0 is scanned for it.
+ *
+ * @returns Every scanned account in index order, used or not. The
+ *          trailing run of unused accounts is included.
+ * @throws {UnsupportedPathTypeError} If no adapter is registered for chain
+ * @throws {InvalidDerivationPathError} If options.pathTemplate is malformed
+ * @throws {RpcError} If the endpoint fails
+ * @throws {RpcGuardError} If a request body may carry key material
+ *
+ * SECURITY: Caller MUST validate mnemonic with bip39.validateMnemonic() before calling.
+ */
+export async function discoverAccounts(
+    chain: string,
+    mnemonic: string,
+    options: DiscoveryOptions
+): Promise<DiscoveredAccount[]> {
+    const { endpoint, knownSecrets, gapLimit = DEFAULT_GAP_LIMIT, onAccount, signal, ...derivation } =
+        options;
+    const accounts: DiscoveredAccount[] = [];
+    let unused = 0;
+
+    for (let index = 0; unused < gapLimit && index < MAX_SCANNED_ACCOUNTS; index++) {
+        if (signal?.aborted) {
+            break;
+        }
+        const wallet = generateWalletFromMnemonic(chain, mnemonic, index, derivation);
+        if (accounts.some((account) => account.wallet.path === wallet.path)) {
+            break;
+        }
+        const used = await hasAccountHistory(chain, wallet.publicKey, endpoint, [
+            ...knownSecrets,
+            mnemonic,
+            derivation.passphrase ?? "",
+            wallet.privateKey,
+            ...(wallet.addresses ?? []).map((address) => address.privateKey),
+        ]);
+        const account = { wallet, used };
+        accounts.push(account);
+        onAccount?.(account);
+        unused = used ? 0 : unused + 1;
+    }
+    return accounts;
+}
@@ -0,0 +1,195 @@
+import { secp256k1, schnorr } from "@noble/curves/secp256k1";
+import { sha256 } from "@noble/hashes/sha2";
+import { ripemd160 } from "@noble/hashes/legacy";
+import { concatBytes } from "@noble/hashes/utils";
+import { mod } from "@noble/curves/abstract/modular";
+import { bytesToNumberBE } from "@noble/curves/abstract/utils";
+import { bech32, bech32m, createBase58check } from "@scure/base";
+import { AddressType, ChainAdapter, ChainNetwork } from "./chain-adapter";
+
+interface BitcoinNetworkParams extends ChainNetwork {
+    bech32Prefix: string;
+    pubKeyHashVersion: number;
+    scriptHashVersion: number;
+    wifVersion: number;
+}
+
+const NETWORKS: BitcoinNetworkParams[] = [
+    {
+        id: "mainnet",
+        name: "Mainnet",
+        coinType: 0,
+        bech32Prefix: "bc",
+        pubKeyHashVersion: 0x00,
+        scriptHashVersion: 0x05,
+        wifVersion: 0x80,
+    },
+    {
+        id: "testnet",
+        name: "Testnet",
+        coinType: 1,
+        bech32Prefix: "tb",
+        pubKeyHashVersion: 0x6f,
+        scriptHashVersion: 0xc4,
+        wifVersion: 0xef,
+    },
+    {
+        id: "regtest",
+        name: "Regtest",
+        coinType: 1,
+        bech32Prefix: "bcrt",
+        pubKeyHashVersion: 0x6f,
+        scriptHashVersion: 0xc4,
+        wifVersion: 0xef,
+    },
+];
+
+const ADDRESS_TYPES: AddressType[] = [
+    {
+        id: "p2wpkh",
+        name: "Native SegWit (BIP84)",
+        pathTemplate: "m/84'/{coin}'/0'/0/{index}",
+    },
+    {
+        id: "p2tr",
+        name: "Taproot (BIP86)",
+        pathTemplate: "m/86'/{coin}'/0'/0/{index}",
+    },
+    {
+        id: "p2sh-p2wpkh",
+        name: "Nested SegWit (BIP49)",
+        pathTemplate: "m/49'/{coin}'/0'/0/{index}",
+    },
+    {
+        id: "p2pkh",
+        name: "Legacy (BIP44)",
+        pathTemplate: "m/44'/{coin}'/0'/0/{index}",
+    },
+];
+
+const base58check = createBase58check(sha256);
+
+function hash160(data: Uint8Array): Uint8Array {
+    return ripemd160(sha256(data));
+}
+
+function withVersion(version: number, payload: Uint8Array): Uint8Array {
+    return concatBytes(Uint8Array.of(version), payload);
+}
+
+function getNetworkParams(networkId?: string): BitcoinNetworkParams {
+    return NETWORKS.find((network) => network.id === networkId) ?? NETWORKS[0];
+}
+
+/**
+ * BIP86 key-path-only output key: the internal key tweaked by
+ * TapTweak(x(P)) with no script tree.
+ */
+function taprootOutputKey(privateKey: Uint8Array): Uint8Array {
+    const internalKey = schnorr.getPublicKey(privateKey);
+    const tweak = schnorr.utils.taggedHash("TapTweak", internalKey);
+    const point = schnorr.utils.lift_x(bytesToNumberBE(internalKey));
+    const tweaked = point.add(
+        secp256k1.ProjectivePoint.BASE.multiply(
+            mod(bytesToNumberBE(tweak), secp256k1.CURVE.n)
+        )
+    );
+    return schnorr.utils.pointToBytes(tweaked);
+}
+
+function encodeAddress(
+    privateKey: Uint8Array,
+    addressType: string,
+    network: BitcoinNetworkParams
+): string {
+    const publicKey = secp256k1.getPublicKey(privateKey, true);
+
+    switch (addressType) {
+        case "p2pkh":
+            return base58check.encode(
+                withVersion(network.pubKeyHashVersion, hash160(publicKey))
+            );
+        case "p2sh-p2wpkh": {
+            const redeemScript = concatBytes(Uint8Array.of(0x00, 0x14), hash160(publicKey));
+            return base58check.encode(
+                withVersion(network.scriptHashVersion, hash160(redeemScript))
+            );
+        }
+        case "p2tr":
+            return bech32m.encode(
+                network.bech32Prefix,
+                [1].concat(bech32m.toWords(taprootOutputKey(privateKey)))
+            );
+        case "p2wpkh":
+        default:
+            return bech32.encode(
+                network.bech32Prefix,
+                [0].concat(bech32.toWords(hash160(publicKey)))
+            );
+    }
+}
+
+/**
+ * Wallet Import Format for a compressed-key private key.
+ */
+function encodeWif(privateKey: Uint8Array, network: BitcoinNetworkParams): string {
+    return base58check.encode(
+        concatBytes(Uint8Array.of(network.wifVersion), privateKey, Uint8Array.of(0x01))
+    );
+}
+
+function isValidForNetwork(address: string, network: BitcoinNetworkParams): boolean {
+    const lower = address.toLowerCase();
+    if (lower.startsWith(`${network.bech32Prefix}1`)) {
+        try {
+            const decoded = lower.startsWith(`${network.bech32Prefix}1p`)
+                ? bech32m.decode(lower as `${string}1${string}`)
+                : bech32.decode(lower as `${string}1${string}`);
+            return decoded.prefix === network.bech32Prefix;
+        } catch {
+            return false;
+        }
+    }
+
+    try {
+        const payload = base58check.decode(address);
+        return (
+            payload.length === 21 &&
+            (payload[0] === network.pubKeyHashVersion ||
+                payload[0] === network.scriptHashVersion)
+        );
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Bitcoin: BIP32 secp256k1 with one derivation path per script type
+ * (BIP44/49/84/86). Private keys are exported as WIF.
+ */
+export const bitcoinAdapter: ChainAdapter = {
+    id: "0",
+    name: "Bitcoin",
+    symbol: "BTC",
+    addressLabel: "Address",
+    curve: "secp256k1",
+    defaultPathTemplate: ADDRESS_TYPES[0].pathTemplate,
+    networks: NETWORKS,
+    addressTypes: ADDRESS_TYPES,
+    encodeKeyPair: (privateKey, options) => {
+        const network = getNetworkParams(options?.network);
+
+        return {
+            publicKey: encodeAddress(
+                privateKey,
+                options?.addressType ?? ADDRESS_TYPES[0].id,
+                network
+            ),
+            privateKey: encodeWif(privateKey, network),
+        };
+    },
+    isValidAddress: (address, networkId) => {
+        const candidates = networkId ? [getNetworkParams(networkId)] : NETWORKS;
+        return candidates.some((network) => isValidForNetwork(address, network));
+    },
+};
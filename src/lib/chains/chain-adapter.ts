@@ -0,0 +1,178 @@
+/**
+ * Chain adapter contract.
+ * 
+ * Every supported chain is described by one ChainAdapter module in this
+ * directory. Derivation, chain selection and wallet display all read from
+ * the registry in ./index.ts, so adding a chain means adding one adapter
+ * and registering it there.
+ * 
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - Adapters are pure: no network access, no logging of key material
+ */
+
+/**
+ * Elliptic curve (and HD scheme) used to derive a chain's keys.
+ * - "ed25519": SLIP-10, hardened segments only
+ * - "secp256k1": BIP32
+ */
+export type Curve = "ed25519" | "secp256k1";
+
+/**
+ * Error thrown by ChainAdapter.decodePrivateKey for unusable input.
+ * 
+ * SECURITY: Messages describe the expected format only, never the input.
+ */
+export class InvalidPrivateKeyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidPrivateKeyError";
+    }
+}
+
+/**
+ * Error thrown by ChainAdapter.signMessage/verifyMessage for a message the
+ * format cannot carry or a signature that cannot be parsed.
+ * 
+ * SECURITY: Messages describe the problem only, never key material.
+ */
+export class MessageSigningError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "MessageSigningError";
+    }
+}
+
+/**
+ * Encoded key pair as shown to and stored for the user.
+ */
+export interface EncodedKeyPair {
+    publicKey: string;
+    privateKey: string;
+}
+
+/**
+ * A network a chain can be derived for (e.g. Bitcoin mainnet/testnet).
+ */
+export interface ChainNetwork {
+    id: string;
+    name: string;
+    /** BIP44 coin type substituted for `{coin}` in path templates. */
+    coinType: number;
+}
+
+/**
+ * An alternative address format derived alongside the default one, each on
+ * its own path (e.g. Bitcoin's BIP44/49/84/86 script types).
+ */
+export interface AddressType {
+    id: string;
+    name: string;
+    pathTemplate: string;
+}
+
+/**
+ * A named derivation path layout used by a known wallet implementation.
+ */
+export interface PathTemplate {
+    id: string;
+    name: string;
+    /** Path with an optional `{index}` placeholder, e.g. `m/44'/501'/{index}'/0'`. */
+    template: string;
+}
+
+/**
+ * An off-chain message signing scheme, e.g. EIP-191 `personal_sign`.
+ */
+export interface MessageFormat {
+    id: string;
+    name: string;
+    description: string;
+}
+
+/**
+ * Result of checking a message signature against an address.
+ */
+export interface MessageVerification {
+    valid: boolean;
+    /**
+     * Address the signature belongs to: recovered from it on secp256k1
+     * chains, or the given address if an ed25519 signature checks out.
+     */
+    signer?: string;
+}
+
+/**
+ * Optional network/address-type selection passed to an adapter.
+ * Unset fields fall back to the first entry of the adapter's lists.
+ */
+export interface EncodeOptions {
+    network?: string;
+    addressType?: string;
+}
+
+/**
+ * Describes a supported chain.
+ */
+export interface ChainAdapter {
+    /** BIP44 coin type. Also the persisted chain identifier. */
+    id: string;
+    /** Display name, e.g. "Solana". */
+    name: string;
+    /** Native asset ticker, e.g. "SOL". */
+    symbol: string;
+    /** Label for the public half of the key pair in the UI. */
+    addressLabel: string;
+    curve: Curve;
+    /**
+     * Derivation path with an `{index}` placeholder for the account index
+     * and, for multi-network chains, a `{coin}` placeholder for the coin type.
+     */
+    defaultPathTemplate: string;
+    /**
+     * Named path layouts the user can pick instead of the default. Adapters
+     * with addressTypes derive on their fixed per-type paths and omit this.
+     */
+    pathTemplates?: PathTemplate[];
+    /** Selectable networks; the first entry is the default. */
+    networks?: ChainNetwork[];
+    /** Address formats derived for every wallet; the first is the default. */
+    addressTypes?: AddressType[];
+    /**
+     * Encodes a raw 32-byte private key (as produced by the curve's HD
+     * scheme) into the chain's public address and private key formats.
+     */
+    encodeKeyPair: (privateKey: Uint8Array, options?: EncodeOptions) => EncodedKeyPair;
+    /**
+     * Parses a private key in the chain's usual export formats into the raw
+     * 32-byte key encodeKeyPair expects. Chains without it do not support
+     * importing private keys.
+     * 
+     * @throws {InvalidPrivateKeyError} If the input is not a valid key
+     */
+    decodePrivateKey?: (input: string) => Uint8Array;
+    /** Formats accepted by decodePrivateKey, for the import form. */
+    privateKeyFormats?: string;
+    isValidAddress: (address: string, network?: string) => boolean;
+    /** Message signing schemes; the first is the default. */
+    messageFormats?: MessageFormat[];
+    /**
+     * Signs a message with a raw private key (as returned by
+     * decodePrivateKey) in one of messageFormats.
+     * 
+     * @returns The signature in the chain's usual encoding
+     * @throws {MessageSigningError} If the format cannot carry the message
+     */
+    signMessage?: (privateKey: Uint8Array, message: Uint8Array, format: string) => string;
+    /**
+     * Checks a signature made by signMessage, or by another wallet using the
+     * same format.
+     * 
+     * @throws {MessageSigningError} If the signature cannot be parsed
+     */
+    verifyMessage?: (
+        address: string,
+        message: Uint8Array,
+        signature: string,
+        format: string
+    ) => MessageVerification;
+}
@@ -0,0 +1,24 @@
+import { derivePath } from "ed25519-hd-key";
+import { ethers } from "ethers";
+import { Curve } from "./chain-adapter";
+
+/**
+ * Derives the raw 32-byte private key at `path` for the given curve.
+ * 
+ * @param curve - HD scheme to use (SLIP-10 ed25519 or BIP32 secp256k1)
+ * @param seed - 64-byte BIP39 seed
+ * @param path - Fully resolved derivation path (no placeholders)
+ */
+export function derivePrivateKey(
+    curve: Curve,
+    seed: Uint8Array,
+    path: string
+): Uint8Array {
+    if (curve === "ed25519") {
+        const { key } = derivePath(path, Buffer.from(seed).toString("hex"));
+        return new Uint8Array(key);
+    }
+
+    const node = ethers.HDNodeWallet.fromSeed(seed).derivePath(path);
+    return ethers.getBytes(node.privateKey);
+}
@@ -0,0 +1,66 @@
+import { ethers } from "ethers";
+import { ChainAdapter, InvalidPrivateKeyError, MessageSigningError } from "./chain-adapter";
+
+const DEFAULT_PATH_TEMPLATE = "m/44'/60'/0'/0/{index}";
+
+/**
+ * Ethereum: BIP32 secp256k1, EIP-55 checksummed address and 0x-prefixed
+ * hex private key.
+ */
+export const ethereumAdapter: ChainAdapter = {
+    id: "60",
+    name: "Ethereum",
+    symbol: "ETH",
+    addressLabel: "Address",
+    curve: "secp256k1",
+    defaultPathTemplate: DEFAULT_PATH_TEMPLATE,
+    pathTemplates: [
+        { id: "metamask", name: "MetaMask / BIP44", template: DEFAULT_PATH_TEMPLATE },
+        { id: "ledger-live", name: "Ledger Live", template: "m/44'/60'/{index}'/0/0" },
+        { id: "ledger-legacy", name: "Ledger (legacy) / MEW", template: "m/44'/60'/0'/{index}" },
+    ],
+    encodeKeyPair: (privateKey) => {
+        const wallet = new ethers.Wallet(ethers.hexlify(privateKey));
+
+        return {
+            publicKey: wallet.address,
+            privateKey: wallet.privateKey,
+        };
+    },
+    decodePrivateKey: (input) => {
+        const hex = input.trim().replace(/^0x/i, "");
+        if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+            throw new InvalidPrivateKeyError("Expected 64 hex characters, with or without 0x.");
+        }
+        try {
+            // Throws for zero or out-of-range scalars.
+            ethers.SigningKey.computePublicKey(`0x${hex}`);
+            return ethers.getBytes(`0x${hex}`);
+        } catch {
+            throw new InvalidPrivateKeyError("This is not a valid secp256k1 private key.");
+        }
+    },
+    privateKeyFormats: "Hex private key",
+    isValidAddress: (address) => ethers.isAddress(address),
+    messageFormats: [
+        {
+            id: "eip191",
+            name: "personal_sign (EIP-191)",
+            description: "Prefixed with \"\\x19Ethereum Signed Message:\\n\" and the length, as wallets sign.",
+        },
+    ],
+    signMessage: (privateKey, message) =>
+        new ethers.Wallet(ethers.hexlify(privateKey)).signMessageSync(message),
+    verifyMessage: (address, message, signature) => {
+        let signer: string;
+        try {
+            signer = ethers.verifyMessage(message, signature.trim());
+        } catch {
+            throw new MessageSigningError("Expected a 65-byte hex signature (0x…).");
+        }
+        return {
+            valid: signer.toLowerCase() === address.trim().toLowerCase(),
+            signer,
+        };
+    },
+};
@@ -0,0 +1,69 @@
+/**
+ * Chain adapter registry.
+ * 
+ * Registration order is the display order in ChainSelector.
+ */
+
+import { ChainAdapter, ChainNetwork } from "./chain-adapter";
+import { solanaAdapter } from "./solana";
+import { ethereumAdapter } from "./ethereum";
+import { bitcoinAdapter } from "./bitcoin";
+
+export type {
+    AddressType,
+    ChainAdapter,
+    ChainNetwork,
+    Curve,
+    EncodedKeyPair,
+    EncodeOptions,
+    MessageFormat,
+    MessageVerification,
+    PathTemplate,
+} from "./chain-adapter";
+export { InvalidPrivateKeyError, MessageSigningError } from "./chain-adapter";
+export { derivePrivateKey } from "./curves";
+
+export const CHAIN_ADAPTERS: readonly ChainAdapter[] = [
+    solanaAdapter,
+    ethereumAdapter,
+    bitcoinAdapter,
+];
+
+/**
+ * Looks up a chain adapter by its id (BIP44 coin type).
+ * 
+ * @returns The adapter, or undefined if the chain is not registered
+ */
+export function getChainAdapter(id: string): ChainAdapter | undefined {
+    return CHAIN_ADAPTERS.find((adapter) => adapter.id === id);
+}
+
+/**
+ * Resolves an adapter's network id, falling back to its default network.
+ * 
+ * @returns The network, or undefined for single-network chains
+ */
+export function getChainNetwork(
+    adapter: ChainAdapter,
+    networkId?: string
+): ChainNetwork | undefined {
+    if (!adapter.networks) {
+        return undefined;
+    }
+    return (
+        adapter.networks.find((network) => network.id === networkId) ??
+        adapter.networks[0]
+    );
+}
+
+/**
+ * Resolves the `{index}` (and `{coin}`) placeholders of a path template.
+ */
+export function formatPath(
+    template: string,
+    accountIndex: number,
+    network?: ChainNetwork
+): string {
+    const path = template.replace("{index}", String(accountIndex));
+    return network ? path.replace("{coin}", String(network.coinType)) : path;
+}
@@ -0,0 +1,178 @@
+import nacl from "tweetnacl";
+import bs58 from "bs58";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { ChainAdapter, InvalidPrivateKeyError, MessageSigningError } from "./chain-adapter";
+
+const DEFAULT_PATH_TEMPLATE = "m/44'/501'/0'/{index}'";
+
+// Off-chain message header (version 0), as `solana sign-offchain-message`
+// writes it: signing domain, version, format, little-endian u16 length.
+const OFFCHAIN_SIGNING_DOMAIN = new Uint8Array([
+    0xff, ...Array.from("solana offchain", (char) => char.charCodeAt(0)),
+]);
+const OFFCHAIN_HEADER_LENGTH = OFFCHAIN_SIGNING_DOMAIN.length + 4;
+const OFFCHAIN_MAX_LEDGER_LENGTH = 1232 - OFFCHAIN_HEADER_LENGTH; // Fits one packet
+const OFFCHAIN_MAX_LENGTH = 0xffff - OFFCHAIN_HEADER_LENGTH;
+
+const OFFCHAIN_FORMAT_RESTRICTED_ASCII = 0;
+const OFFCHAIN_FORMAT_LIMITED_UTF8 = 1;
+const OFFCHAIN_FORMAT_EXTENDED_UTF8 = 2;
+
+/**
+ * Wraps a UTF-8 message in the version 0 off-chain message envelope. The
+ * prefix can never parse as a transaction, so the signature cannot be
+ * replayed on chain.
+ */
+function encodeOffchainMessage(message: Uint8Array): Uint8Array {
+    if (message.length === 0) {
+        throw new MessageSigningError("Off-chain messages cannot be empty.");
+    }
+    if (message.length > OFFCHAIN_MAX_LENGTH) {
+        throw new MessageSigningError(
+            `Off-chain messages are limited to ${OFFCHAIN_MAX_LENGTH} bytes.`
+        );
+    }
+    const isPrintableAscii = message.every((byte) => byte >= 0x20 && byte <= 0x7e);
+    const format =
+        message.length > OFFCHAIN_MAX_LEDGER_LENGTH
+            ? OFFCHAIN_FORMAT_EXTENDED_UTF8
+            : isPrintableAscii
+                ? OFFCHAIN_FORMAT_RESTRICTED_ASCII
+                : OFFCHAIN_FORMAT_LIMITED_UTF8;
+
+    const encoded = new Uint8Array(OFFCHAIN_HEADER_LENGTH + message.length);
+    encoded.set(OFFCHAIN_SIGNING_DOMAIN, 0);
+    let offset = OFFCHAIN_SIGNING_DOMAIN.length;
+    encoded[offset++] = 0; // Version
+    encoded[offset++] = format;
+    encoded[offset++] = message.length & 0xff;
+    encoded[offset++] = message.length >> 8;
+    encoded.set(message, offset);
+    return encoded;
+}
+
+/**
+ * Returns the bytes that are actually signed for a message format.
+ */
+function getSignedBytes(message: Uint8Array, format: string): Uint8Array {
+    return format === "raw" ? message : encodeOffchainMessage(message);
+}
+
+/**
+ * Reads a 64-byte secret key (seed followed by public key) from Base58 or
+ * a `solana-keygen` JSON byte array. A bare 32-byte seed is refused: it is
+ * indistinguishable from a pasted address.
+ */
+function decodeSecretKey(input: string): Uint8Array {
+    const trimmed = input.trim();
+    let bytes: Uint8Array;
+    if (trimmed.startsWith("[")) {
+        let values: unknown;
+        try {
+            values = JSON.parse(trimmed);
+        } catch {
+            throw new InvalidPrivateKeyError("The keypair file is not a JSON byte array.");
+        }
+        if (
+            !Array.isArray(values) ||
+            !values.every((value) => Number.isInteger(value) && value >= 0 && value <= 255)
+        ) {
+            throw new InvalidPrivateKeyError("The keypair file is not a JSON byte array.");
+        }
+        bytes = Uint8Array.from(values);
+    } else {
+        try {
+            bytes = bs58.decode(trimmed);
+        } catch {
+            throw new InvalidPrivateKeyError("Expected a Base58 secret key or a JSON byte array.");
+        }
+    }
+
+    if (bytes.length !== 64) {
+        throw new InvalidPrivateKeyError("A Solana secret key must be 64 bytes.");
+    }
+    const seed = bytes.slice(0, 32);
+    const { publicKey } = nacl.sign.keyPair.fromSeed(seed);
+    if (!publicKey.every((byte, i) => byte === bytes[32 + i])) {
+        throw new InvalidPrivateKeyError("The secret key's public half does not match its seed.");
+    }
+    return seed;
+}
+
+/**
+ * Solana: SLIP-10 ed25519, Base58 address and 64-byte Base58 secret key.
+ */
+export const solanaAdapter: ChainAdapter = {
+    id: "501",
+    name: "Solana",
+    symbol: "SOL",
+    addressLabel: "Public Key",
+    curve: "ed25519",
+    defaultPathTemplate: DEFAULT_PATH_TEMPLATE,
+    pathTemplates: [
+        { id: "forgesphere", name: "ForgeSphere", template: DEFAULT_PATH_TEMPLATE },
+        { id: "phantom", name: "Phantom / Solflare", template: "m/44'/501'/{index}'/0'" },
+        { id: "solflare-legacy", name: "Solflare (legacy)", template: "m/44'/501'/{index}'" },
+        // solana-keygen's --derivation-path default; without that flag it uses
+        // the first 32 seed bytes unhashed, which no template can express.
+        { id: "solana-cli", name: "Solana CLI (--derivation-path)", template: "m/44'/501'" },
+    ],
+    encodeKeyPair: (privateKey) => {
+        const { secretKey } = nacl.sign.keyPair.fromSeed(privateKey);
+        const keypair = Keypair.fromSecretKey(secretKey);
+
+        return {
+            publicKey: keypair.publicKey.toBase58(),
+            privateKey: bs58.encode(secretKey),
+        };
+    },
+    decodePrivateKey: decodeSecretKey,
+    privateKeyFormats: "Base58 secret key or solana-keygen JSON byte array",
+    isValidAddress: (address) => {
+        try {
+            return new PublicKey(address).toBase58() === address;
+        } catch {
+            return false;
+        }
+    },
+    messageFormats: [
+        {
+            id: "offchain",
+            name: "Off-chain message",
+            description: "Solana off-chain message format (version 0), as solana sign-offchain-message uses.",
+        },
+        {
+            id: "raw",
+            name: "Raw bytes",
+            description: "The message bytes as is, as wallet signMessage APIs sign them.",
+        },
+    ],
+    signMessage: (privateKey, message, format) => {
+        const { secretKey } = nacl.sign.keyPair.fromSeed(privateKey);
+        return bs58.encode(nacl.sign.detached(getSignedBytes(message, format), secretKey));
+    },
+    verifyMessage: (address, message, signature, format) => {
+        let publicKey: Uint8Array;
+        try {
+            publicKey = new PublicKey(address.trim()).toBytes();
+        } catch {
+            throw new MessageSigningError("This is not a valid Solana address.");
+        }
+        let signatureBytes: Uint8Array;
+        try {
+            signatureBytes = bs58.decode(signature.trim());
+        } catch {
+            throw new MessageSigningError("Expected a Base58 signature.");
+        }
+        if (signatureBytes.length !== nacl.sign.signatureLength) {
+            throw new MessageSigningError("A Solana signature must be 64 bytes.");
+        }
+
+        const valid = nacl.sign.detached.verify(
+            getSignedBytes(message, format),
+            signatureBytes,
+            publicKey
+        );
+        return { valid, signer: valid ? address.trim() : undefined };
+    },
+};
@@ -0,0 +1,147 @@
+/**
+ * Derivation path parsing and validation.
+ * 
+ * Paths are user-editable (custom path field), so everything here must
+ * fail with a readable InvalidDerivationPathError rather than letting a
+ * malformed path reach the HD libraries.
+ */
+
+import { ChainAdapter, Curve, PathTemplate } from "./chains";
+
+const INDEX_PLACEHOLDER = "{index}";
+const HARDENED_OFFSET = 0x80000000;
+const MAX_DEPTH = 255;
+const SEGMENT_PATTERN = /^(\d+|\{index\})(['hH])?$/;
+
+/**
+ * Error thrown when a derivation path or path template is malformed.
+ * The message is safe to show to the user (it never contains key material).
+ */
+export class InvalidDerivationPathError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidDerivationPathError";
+    }
+}
+
+/**
+ * One parsed path segment. `index` is null for the `{index}` placeholder.
+ */
+export interface PathSegment {
+    index: number | null;
+    hardened: boolean;
+}
+
+/**
+ * Parses a derivation path or path template.
+ * 
+ * Accepts `'`, `h` or `H` as the hardened marker and at most one `{index}`
+ * placeholder. SLIP-10 ed25519 only defines hardened derivation, so every
+ * segment must be hardened on ed25519 chains.
+ * 
+ * @throws {InvalidDerivationPathError} Describing the first problem found
+ */
+export function parseDerivationPath(path: string, curve: Curve): PathSegment[] {
+    const parts = path.trim().split("/");
+
+    if (parts[0] !== "m") {
+        throw new InvalidDerivationPathError('Path must start with "m/".');
+    }
+    if (parts.length < 2) {
+        throw new InvalidDerivationPathError("Path must contain at least one segment.");
+    }
+    if (parts.length - 1 > MAX_DEPTH) {
+        throw new InvalidDerivationPathError(`Path is deeper than ${MAX_DEPTH} levels.`);
+    }
+
+    const segments = parts.slice(1).map((part, i): PathSegment => {
+        const position = i + 1;
+        const match = SEGMENT_PATTERN.exec(part);
+        if (!match) {
+            throw new InvalidDerivationPathError(
+                `Segment ${position} ("${part}") must be a number, optionally followed by '.`
+            );
+        }
+
+        const hardened = match[2] !== undefined;
+        if (curve === "ed25519" && !hardened) {
+            throw new InvalidDerivationPathError(
+                `Segment ${position} ("${part}") must be hardened (') on ed25519 chains.`
+            );
+        }
+
+        if (match[1] === INDEX_PLACEHOLDER) {
+            return { index: null, hardened };
+        }
+
+        const index = Number(match[1]);
+        if (index >= HARDENED_OFFSET) {
+            throw new InvalidDerivationPathError(
+                `Segment ${position} ("${part}") must be below 2^31; use ' to harden it.`
+            );
+        }
+        return { index, hardened };
+    });
+
+    if (segments.filter((segment) => segment.index === null).length > 1) {
+        throw new InvalidDerivationPathError(
+            `Path may contain at most one ${INDEX_PLACEHOLDER} placeholder.`
+        );
+    }
+
+    return segments;
+}
+
+/**
+ * Renders parsed segments back into canonical `m/44'/...` form.
+ */
+export function formatDerivationPath(segments: PathSegment[]): string {
+    return ["m"]
+        .concat(
+            segments.map(
+                (segment) =>
+                    `${segment.index ?? INDEX_PLACEHOLDER}${segment.hardened ? "'" : ""}`
+            )
+        )
+        .join("/");
+}
+
+/**
+ * Validates a path template and returns it in canonical form.
+ * 
+ * @throws {InvalidDerivationPathError} If the template is malformed
+ */
+export function normalizePathTemplate(template: string, curve: Curve): string {
+    return formatDerivationPath(parseDerivationPath(template, curve));
+}
+
+/**
+ * Reads the account index back out of a path produced from template.
+ * `{coin}` matches any coin type.
+ * 
+ * @returns The index, or null if the path does not fit the template or
+ *          the template has no `{index}` placeholder
+ */
+export function matchPathIndex(path: string, template: string): number | null {
+    if (!template.includes(INDEX_PLACEHOLDER)) {
+        return null;
+    }
+    const pattern = template
+        .split(INDEX_PLACEHOLDER)
+        .map((part) => part.replace(/[.*+?^$()|[\]\\]/g, "\\$&").replace("{coin}", "\\d+"))
+        .join("(\\d+)");
+    const match = new RegExp(`^${pattern}$`).exec(path);
+    return match ? Number(match[1]) : null;
+}
+
+/**
+ * Finds the named template matching a (canonical) template string.
+ * 
+ * @returns The template, or undefined for custom paths
+ */
+export function findPathTemplate(
+    adapter: ChainAdapter,
+    template: string
+): PathTemplate | undefined {
+    return adapter.pathTemplates?.find((candidate) => candidate.template === template);
+}
@@ -0,0 +1,15 @@
+/**
+ * Triggers a browser download of in-memory content.
+ * 
+ * SECURITY: Files are created locally via an object URL; nothing is sent
+ * over the network. Callers exporting secrets must only do so on an
+ * explicit user action.
+ */
+export function downloadFile(filename: string, content: string, mimeType = "application/json"): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
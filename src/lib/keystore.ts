@@ -0,0 +1,316 @@
+/**
+ * Ethereum keystore v3 files (Web3 Secret Storage), as read and written by
+ * geth, Foundry (`cast wallet import`) and MyEtherWallet.
+ *
+ * A password is stretched with scrypt or PBKDF2-HMAC-SHA256 into a 32-byte
+ * key. The first half encrypts the private key with AES-128-CTR
+ * (WebCrypto); the second half authenticates the ciphertext via
+ * keccak256(key[16..32] || ciphertext).
+ *
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material
+ * - No console logging of secrets or passwords
+ * - Error messages never include key material
+ */
+
+import { ethers } from "ethers";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, concatBytes, hexToBytes, randomBytes } from "@noble/hashes/utils";
+import { IncorrectPasswordError } from "./storage-encryption";
+
+/**
+ * scrypt settings offered for export.
+ */
+export interface ScryptKeystorePreset {
+    id: string;
+    name: string;
+    kdf: "scrypt";
+    n: number;            // Cost
+    r: number;            // Block size
+    p: number;            // Parallelism
+}
+
+/**
+ * PBKDF2-SHA256 settings offered for export.
+ */
+export interface Pbkdf2KeystorePreset {
+    id: string;
+    name: string;
+    kdf: "pbkdf2";
+    c: number;            // Iterations
+}
+
+/**
+ * KDF settings offered for export. "Standard" scrypt and PBKDF2 match
+ * geth's and MyEtherWallet's defaults; "light" is geth's faster setting.
+ */
+export type KeystorePreset = ScryptKeystorePreset | Pbkdf2KeystorePreset;
+
+export const KEYSTORE_PRESETS: KeystorePreset[] = [
+    { id: "scrypt", name: "scrypt (standard)", kdf: "scrypt", n: 262144, r: 8, p: 1 },
+    { id: "scrypt-light", name: "scrypt (light)", kdf: "scrypt", n: 4096, r: 8, p: 6 },
+    { id: "pbkdf2", name: "PBKDF2-SHA256", kdf: "pbkdf2", c: 262144 },
+];
+
+const DKLEN = 32;
+
+// Bounds for KDF parameters read from a file, so a crafted keystore
+// cannot exhaust memory or stall the browser.
+const MAX_SCRYPT_MEMORY = 1024 * 1024 * 1024;
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+/**
+ * Called with 0..1 while the KDF runs.
+ */
+export type KeystoreProgress = (progress: number) => void;
+
+/**
+ * Error thrown when a file is not a supported keystore v3 file.
+ * A wrong password throws IncorrectPasswordError instead.
+ */
+export class InvalidKeystoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidKeystoreError";
+    }
+}
+
+interface ScryptParams {
+    dklen: number;
+    n: number;
+    r: number;
+    p: number;
+    salt: string;         // hex
+}
+
+interface Pbkdf2Params {
+    dklen: number;
+    c: number;
+    prf: "hmac-sha256";
+    salt: string;         // hex
+}
+
+/**
+ * Keystore v3 JSON. Some tools write `Crypto` instead of `crypto`.
+ */
+interface KeystoreV3 {
+    version: 3;
+    id: string;
+    address: string;      // Lowercase hex without 0x
+    crypto: {
+        cipher: "aes-128-ctr";
+        cipherparams: { iv: string };
+        ciphertext: string;
+        kdf: "scrypt" | "pbkdf2";
+        kdfparams: ScryptParams | Pbkdf2Params;
+        mac: string;
+    };
+}
+
+function passwordBytes(password: string): Uint8Array {
+    return new TextEncoder().encode(password.normalize("NFKC"));
+}
+
+function isHex(value: unknown): value is string {
+    return typeof value === "string" && /^(0x)?([0-9a-fA-F]{2})*$/.test(value);
+}
+
+function isInteger(value: unknown): value is number {
+    return Number.isInteger(value);
+}
+
+function fromHex(value: string): Uint8Array {
+    return hexToBytes(value.replace(/^0x/, "").toLowerCase());
+}
+
+async function deriveKey(
+    kdf: KeystoreV3["crypto"]["kdf"],
+    params: ScryptParams | Pbkdf2Params,
+    password: string,
+    onProgress?: KeystoreProgress
+): Promise<Uint8Array> {
+    const salt = fromHex(params.salt);
+    if (kdf === "scrypt") {
+        const { n, r, p } = params as ScryptParams;
+        return scryptAsync(passwordBytes(password), salt, {
+            N: n,
+            r,
+            p,
+            dkLen: params.dklen,
+            maxmem: MAX_SCRYPT_MEMORY,
+            onProgress,
+        });
+    }
+
+    // WebCrypto PBKDF2 is native and fast, but reports no progress.
+    onProgress?.(0);
+    const passwordKey = await crypto.subtle.importKey(
+        "raw",
+        new Uint8Array(passwordBytes(password)),
+        "PBKDF2",
+        false,
+        ["deriveBits"]
+    );
+    const bits = await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash: "SHA-256", iterations: (params as Pbkdf2Params).c, salt: new Uint8Array(salt) },
+        passwordKey,
+        params.dklen * 8
+    );
+    onProgress?.(1);
+    return new Uint8Array(bits);
+}
+
+async function aes128Ctr(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+    const cryptoKey = await crypto.subtle.importKey(
+        "raw",
+        new Uint8Array(key.subarray(0, 16)),
+        "AES-CTR",
+        false,
+        ["encrypt"]
+    );
+    const output = await crypto.subtle.encrypt(
+        { name: "AES-CTR", counter: new Uint8Array(iv), length: 128 },
+        cryptoKey,
+        new Uint8Array(data)
+    );
+    return new Uint8Array(output);
+}
+
+function computeMac(key: Uint8Array, ciphertext: Uint8Array): string {
+    return bytesToHex(keccak_256(concatBytes(key.subarray(16, 32), ciphertext)));
+}
+
+/**
+ * Encrypts an Ethereum private key into keystore v3 JSON.
+ *
+ * @param privateKey - The 32 private key bytes, as decoded by the chain adapter
+ * @returns The keystore JSON and the UTC file name geth would use
+ */
+export async function encryptKeystore(
+    privateKey: Uint8Array,
+    password: string,
+    preset: KeystorePreset,
+    onProgress?: KeystoreProgress
+): Promise<{ fileName: string; json: string }> {
+    const address = ethers.computeAddress(`0x${bytesToHex(privateKey)}`).slice(2).toLowerCase();
+    const salt = randomBytes(32);
+    const iv = randomBytes(16);
+    const kdfparams: ScryptParams | Pbkdf2Params =
+        preset.kdf === "scrypt"
+            ? { dklen: DKLEN, n: preset.n, r: preset.r, p: preset.p, salt: bytesToHex(salt) }
+            : { dklen: DKLEN, c: preset.c, prf: "hmac-sha256", salt: bytesToHex(salt) };
+
+    const key = await deriveKey(preset.kdf, kdfparams, password, onProgress);
+    const ciphertext = await aes128Ctr(key, iv, privateKey);
+    const keystore: KeystoreV3 = {
+        version: 3,
+        id: crypto.randomUUID(),
+        address,
+        crypto: {
+            cipher: "aes-128-ctr",
+            cipherparams: { iv: bytesToHex(iv) },
+            ciphertext: bytesToHex(ciphertext),
+            kdf: preset.kdf,
+            kdfparams,
+            mac: computeMac(key, ciphertext),
+        },
+    };
+
+    // geth: UTC--2006-01-02T15-04-05.000000000Z--<address>
+    const timestamp = new Date().toISOString().replace(/:/g, "-").replace(/Z$/, "000000Z");
+    return { fileName: `UTC--${timestamp}--${address}`, json: JSON.stringify(keystore) };
+}
+
+/**
+ * Checks the structure and KDF bounds of parsed keystore JSON.
+ *
+ * @throws {InvalidKeystoreError} If the file is not a supported keystore
+ */
+function parseKeystore(content: string): KeystoreV3 {
+    let file: Record<string, unknown>;
+    try {
+        file = JSON.parse(content);
+    } catch {
+        throw new InvalidKeystoreError("This file is not a keystore file.");
+    }
+    const cryptoSection = (file?.crypto ?? file?.Crypto) as KeystoreV3["crypto"] | undefined;
+    if (typeof cryptoSection !== "object" || cryptoSection === null) {
+        throw new InvalidKeystoreError("This file is not a keystore file.");
+    }
+    if (file.version !== 3) {
+        throw new InvalidKeystoreError("Only keystore version 3 is supported.");
+    }
+    if (cryptoSection.cipher !== "aes-128-ctr") {
+        throw new InvalidKeystoreError(`Unsupported keystore cipher: ${String(cryptoSection.cipher)}.`);
+    }
+
+    const params = cryptoSection.kdfparams as Partial<ScryptParams & Pbkdf2Params> | undefined;
+    if (
+        !isHex(cryptoSection.cipherparams?.iv) ||
+        !isHex(cryptoSection.ciphertext) ||
+        !isHex(cryptoSection.mac) ||
+        !isHex(params?.salt) ||
+        params.dklen !== DKLEN
+    ) {
+        throw new InvalidKeystoreError("This keystore file is damaged.");
+    }
+    if (cryptoSection.kdf === "scrypt") {
+        const { n, r, p } = params;
+        if (
+            !isInteger(n) ||
+            !isInteger(r) ||
+            !isInteger(p) ||
+            128 * r * (n + p) > MAX_SCRYPT_MEMORY
+        ) {
+            throw new InvalidKeystoreError("This keystore's scrypt parameters are not supported.");
+        }
+    } else if (cryptoSection.kdf === "pbkdf2") {
+        if (
+            params.prf !== "hmac-sha256" ||
+            !isInteger(params.c) ||
+            params.c > MAX_PBKDF2_ITERATIONS
+        ) {
+            throw new InvalidKeystoreError("This keystore's PBKDF2 parameters are not supported.");
+        }
+    } else {
+        throw new InvalidKeystoreError(`Unsupported keystore KDF: ${String(cryptoSection.kdf)}.`);
+    }
+    return { ...(file as unknown as KeystoreV3), crypto: cryptoSection };
+}
+
+/**
+ * Decrypts keystore v3 JSON.
+ *
+ * @returns The private key bytes
+ * @throws {IncorrectPasswordError} If the MAC does not match
+ * @throws {InvalidKeystoreError} If the file is unsupported or its address does not match
+ */
+export async function decryptKeystore(
+    content: string,
+    password: string,
+    onProgress?: KeystoreProgress
+): Promise<Uint8Array> {
+    const keystore = parseKeystore(content);
+    const { kdf, kdfparams, cipherparams, mac } = keystore.crypto;
+    const ciphertext = fromHex(keystore.crypto.ciphertext);
+    if (ciphertext.length !== 32) {
+        throw new InvalidKeystoreError("This keystore file is damaged.");
+    }
+
+    const key = await deriveKey(kdf, kdfparams, password, onProgress);
+    if (computeMac(key, ciphertext) !== mac.replace(/^0x/, "").toLowerCase()) {
+        throw new IncorrectPasswordError();
+    }
+
+    const privateKey = await aes128Ctr(key, fromHex(cipherparams.iv), ciphertext);
+    if (
+        typeof keystore.address === "string" &&
+        keystore.address !== "" &&
+        ethers.computeAddress(`0x${bytesToHex(privateKey)}`).slice(2).toLowerCase() !==
+            keystore.address.replace(/^0x/, "").toLowerCase()
+    ) {
+        throw new InvalidKeystoreError("The keystore's address does not match its key.");
+    }
+    return privateKey;
+}
@@ -0,0 +1,317 @@
+/**
+ * BIP39 mnemonic helpers: word counts, wordlist languages, and
+ * language-aware splitting/joining.
+ *
+ * SECURITY: Functions here handle mnemonics. Never log their inputs or
+ * outputs (SECURITY.md rule #2).
+ */
+
+import { generateMnemonic, validateMnemonic, wordlists } from "bip39";
+import { sha256 } from "@noble/hashes/sha2";
+
+/**
+ * Word counts allowed by BIP39 (128 to 256 bits of entropy).
+ */
+export const MNEMONIC_LENGTHS = [12, 15, 18, 21, 24] as const;
+
+export type MnemonicLength = (typeof MNEMONIC_LENGTHS)[number];
+
+/**
+ * A BIP39 wordlist. `id` is the key in bip39's `wordlists` and is what
+ * vaults persist.
+ */
+export interface MnemonicLanguage {
+    id: string;
+    name: string;
+    wordlist: string[];
+}
+
+export const MNEMONIC_LANGUAGES: MnemonicLanguage[] = [
+    { id: "english", name: "English", wordlist: wordlists.english },
+    { id: "spanish", name: "Español", wordlist: wordlists.spanish },
+    { id: "french", name: "Français", wordlist: wordlists.french },
+    { id: "italian", name: "Italiano", wordlist: wordlists.italian },
+    { id: "portuguese", name: "Português", wordlist: wordlists.portuguese },
+    { id: "czech", name: "Čeština", wordlist: wordlists.czech },
+    { id: "japanese", name: "日本語", wordlist: wordlists.japanese },
+    { id: "korean", name: "한국어", wordlist: wordlists.korean },
+    { id: "chinese_simplified", name: "简体中文", wordlist: wordlists.chinese_simplified },
+    { id: "chinese_traditional", name: "繁體中文", wordlist: wordlists.chinese_traditional },
+];
+
+export const DEFAULT_MNEMONIC_LANGUAGE = "english";
+
+/**
+ * Looks up a wordlist language, falling back to English.
+ */
+export function getMnemonicLanguage(id: string | undefined): MnemonicLanguage {
+    return (
+        MNEMONIC_LANGUAGES.find((language) => language.id === id) ??
+        MNEMONIC_LANGUAGES[0]
+    );
+}
+
+/**
+ * Splits a phrase into words. Accepts any whitespace, including the
+ * Japanese ideographic space (U+3000), and normalizes to NFKD like the
+ * BIP39 wordlists.
+ */
+export function splitMnemonic(phrase: string): string[] {
+    return phrase.normalize("NFKD").trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Joins words into a phrase. Japanese uses the ideographic space, as
+ * specified by BIP39; other languages use a regular space. Seeds are the
+ * same either way, since bip39 NFKD-normalizes U+3000 to a space.
+ */
+export function joinMnemonic(words: string[], languageId?: string): string {
+    return words.join(languageId === "japanese" ? "　" : " ");
+}
+
+/**
+ * Generates a new mnemonic with a secure random source.
+ *
+ * @param wordCount - One of MNEMONIC_LENGTHS
+ * @param languageId - Wordlist id (defaults to English)
+ */
+export function generateMnemonicWords(
+    wordCount: MnemonicLength,
+    languageId: string = DEFAULT_MNEMONIC_LANGUAGE
+): string[] {
+    const strength = (wordCount / 3) * 32;
+    const { wordlist } = getMnemonicLanguage(languageId);
+    return splitMnemonic(generateMnemonic(strength, undefined, wordlist));
+}
+
+/**
+ * Validates a user-provided phrase against every supported wordlist.
+ *
+ * SECURITY: This is the mandatory bip39.validateMnemonic() check
+ * (SECURITY.md rule #3), extended to non-English wordlists.
+ *
+ * @returns The id of the first wordlist the phrase is valid in
+ *          (word count and checksum included), or null if none
+ */
+export function detectMnemonicLanguage(phrase: string): string | null {
+    const words = splitMnemonic(phrase);
+    if (!(MNEMONIC_LENGTHS as readonly number[]).includes(words.length)) {
+        return null;
+    }
+    const normalized = words.join(" ");
+    const language = MNEMONIC_LANGUAGES.find(({ wordlist }) =>
+        validateMnemonic(normalized, wordlist)
+    );
+    return language?.id ?? null;
+}
+
+const wordIndexes = new Map<string, Map<string, number>>();
+
+/**
+ * Word → index lookup for a wordlist, built once per language.
+ */
+function getWordIndex(languageId: string): Map<string, number> {
+    const { id, wordlist } = getMnemonicLanguage(languageId);
+    let index = wordIndexes.get(id);
+    if (!index) {
+        index = new Map(wordlist.map((word, i) => [word, i]));
+        wordIndexes.set(id, index);
+    }
+    return index;
+}
+
+/**
+ * Returns true if word (NFKD) is in the given wordlist.
+ */
+export function isWordInList(word: string, languageId: string): boolean {
+    return getWordIndex(languageId).has(word.normalize("NFKD"));
+}
+
+/**
+ * Returns wordlist entries starting with prefix, for autocomplete.
+ */
+export function suggestWords(prefix: string, languageId: string, limit = 5): string[] {
+    const normalized = prefix.normalize("NFKD");
+    if (!normalized) {
+        return [];
+    }
+    const { wordlist } = getMnemonicLanguage(languageId);
+    const matches: string[] = [];
+    for (const word of wordlist) {
+        if (word.startsWith(normalized)) {
+            matches.push(word);
+            if (matches.length === limit) {
+                break;
+            }
+        }
+    }
+    return matches;
+}
+
+/**
+ * Finds a wordlist containing every non-empty word, trying preferredId
+ * first. Used to switch wordlists when a whole phrase is pasted.
+ */
+export function findWordlistLanguage(words: string[], preferredId: string): string | null {
+    const filled = words.filter(Boolean);
+    const candidates = [
+        getMnemonicLanguage(preferredId),
+        ...MNEMONIC_LANGUAGES.filter((language) => language.id !== preferredId),
+    ];
+    const language = candidates.find(({ id }) =>
+        filled.every((word) => isWordInList(word, id))
+    );
+    return language?.id ?? null;
+}
+
+/**
+ * Why a phrase fails validation, most basic problem first.
+ */
+export type MnemonicIssue =
+    | { kind: "incomplete" }
+    | { kind: "invalid-length" }
+    | { kind: "unknown-word"; index: number }
+    | { kind: "checksum" };
+
+/**
+ * Explains why words do not form a valid mnemonic in the given wordlist.
+ *
+ * @returns The first issue found, or null if the phrase is valid
+ */
+export function diagnoseMnemonic(words: string[], languageId: string): MnemonicIssue | null {
+    if (words.some((word) => !word)) {
+        return { kind: "incomplete" };
+    }
+    if (!(MNEMONIC_LENGTHS as readonly number[]).includes(words.length)) {
+        return { kind: "invalid-length" };
+    }
+    const index = words.findIndex((word) => !isWordInList(word, languageId));
+    if (index !== -1) {
+        return { kind: "unknown-word", index };
+    }
+    const { wordlist } = getMnemonicLanguage(languageId);
+    return validateMnemonic(words.join(" ").normalize("NFKD"), wordlist)
+        ? null
+        : { kind: "checksum" };
+}
+
+/**
+ * Checks the BIP39 checksum of a phrase given as wordlist indices: the
+ * last words.length / 3 bits must equal the leading bits of
+ * SHA-256(entropy).
+ */
+function isChecksumValid(indices: number[]): boolean {
+    const checksumBits = indices.length / 3;
+    const entropy = new Uint8Array((indices.length * 11 - checksumBits) / 8);
+    let acc = 0;
+    let accBits = 0;
+    let offset = 0;
+    for (const index of indices) {
+        acc = (acc << 11) | index;
+        accBits += 11;
+        while (accBits >= 8 && offset < entropy.length) {
+            accBits -= 8;
+            entropy[offset++] = (acc >> accBits) & 0xff;
+        }
+        acc &= (1 << accBits) - 1;
+    }
+    return acc === sha256(entropy)[0] >> (8 - checksumBits);
+}
+
+/**
+ * Levenshtein distance, used to rank checksum corrections.
+ */
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Replacing the word at `index` with `word` gives a valid checksum.
+ */
+export interface WordCorrection {
+    index: number;
+    word: string;
+}
+
+/**
+ * Suggests single-word replacements that make the checksum valid, for a
+ * phrase whose words are all in the wordlist.
+ *
+ * Checksums are only 4–8 bits, so roughly 1 in 16 (12 words) to 1 in 256
+ * (24 words) of all replacements pass. Candidates are therefore ranked by
+ * how close they are to the word they replace, i.e. likely typos first.
+ *
+ * SECURITY: Suggestions are candidate mnemonics; display them only to the
+ * user who entered the phrase and never log them.
+ */
+export function suggestChecksumCorrections(
+    words: string[],
+    languageId: string,
+    limit = 5
+): WordCorrection[] {
+    if (diagnoseMnemonic(words, languageId)?.kind !== "checksum") {
+        return [];
+    }
+    const { wordlist } = getMnemonicLanguage(languageId);
+    const wordIndex = getWordIndex(languageId);
+    const indices = words.map((word) => wordIndex.get(word.normalize("NFKD")) as number);
+
+    const candidates: (WordCorrection & { distance: number })[] = [];
+    indices.forEach((original, position) => {
+        const originalWord = wordlist[original];
+        for (let candidate = 0; candidate < wordlist.length; candidate++) {
+            if (candidate === original) {
+                continue;
+            }
+            indices[position] = candidate;
+            if (isChecksumValid(indices)) {
+                candidates.push({
+                    index: position,
+                    word: wordlist[candidate],
+                    distance: editDistance(originalWord, wordlist[candidate]),
+                });
+            }
+        }
+        indices[position] = original;
+    });
+
+    return candidates
+        .sort((a, b) => a.distance - b.distance || a.index - b.index)
+        .slice(0, limit)
+        .map(({ index, word }) => ({ index, word }));
+}
+
+/**
+ * Picks distinct random word positions for the backup quiz, in order.
+ * Uses crypto.getRandomValues, never Math.random (see SECURITY.md).
+ */
+export function pickQuizPositions(wordCount: number, count: number): number[] {
+    const positions = Array.from({ length: wordCount }, (_, i) => i);
+    const random = crypto.getRandomValues(new Uint32Array(count));
+    // Partial Fisher–Yates shuffle; modulo bias is irrelevant here.
+    for (let i = 0; i < count; i++) {
+        const j = i + (random[i] % (wordCount - i));
+        [positions[i], positions[j]] = [positions[j], positions[i]];
+    }
+    return positions.slice(0, count).sort((a, b) => a - b);
+}
+
+/**
+ * Compares a quiz answer to the expected word, ignoring case, surrounding
+ * whitespace and Unicode normalization.
+ */
+export function isSameWord(expected: string, answer: string): boolean {
+    return expected.normalize("NFKD") === answer.trim().toLowerCase().normalize("NFKD");
+}
@@ -0,0 +1,529 @@
+/**
+ * Opt-in lookups through user-configured JSON-RPC endpoints: balances and
+ * activity of addresses, the chain state needed to build a sweep, and
+ * submission of signed transactions. Works against public providers as
+ * well as a local `solana-test-validator` or anvil node.
+ *
+ * This module is the only place ForgeSphere talks to the network. Every
+ * request goes through postJsonRpc, which accepts only ALLOWED_METHODS and
+ * runs assertNoKeyMaterial on the final request body before it is sent.
+ * Requests carry addresses only, except submissions, whose transaction
+ * must decode as fully signed.
+ *
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material (rule #1): only public
+ *   addresses are sent, enforced by assertNoKeyMaterial
+ * - No console logging of secrets
+ * - Error messages never include key material
+ */
+
+import { ethers } from "ethers";
+import { solanaAdapter } from "./chains/solana";
+import { ethereumAdapter } from "./chains/ethereum";
+import { getChainAdapter } from "./chains";
+import { getMnemonicLanguage, splitMnemonic } from "./mnemonic";
+import { RpcSettings } from "./wallet-types";
+import { inspectTransaction } from "./transactions";
+
+export const DEFAULT_RPC_SETTINGS: RpcSettings = { enabled: false, endpoints: {} };
+
+/**
+ * Chains with balance lookups and the local node endpoint suggested for
+ * each (solana-test-validator and anvil defaults).
+ */
+export const RPC_CHAINS: { chain: string; localEndpoint: string }[] = [
+    { chain: solanaAdapter.id, localEndpoint: "http://127.0.0.1:8899" },
+    { chain: ethereumAdapter.id, localEndpoint: "http://127.0.0.1:8545" },
+];
+
+const ALLOWED_METHODS = [
+    "getBalance",
+    "getTokenAccountsByOwner",
+    "getSignaturesForAddress",
+    "getLatestBlockhash",
+    "sendTransaction",
+    "eth_getBalance",
+    "eth_getTransactionCount",
+    "eth_chainId",
+    "eth_feeHistory",
+    "eth_getCode",
+    "eth_sendRawTransaction",
+] as const;
+
+// Methods whose first parameter is a signed transaction.
+const SUBMIT_METHODS: readonly RpcMethod[] = ["sendTransaction", "eth_sendRawTransaction"];
+
+type RpcMethod = (typeof ALLOWED_METHODS)[number];
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+// Recent blocks whose tips are considered for a sweep's priority fee.
+const FEE_HISTORY_BLOCKS = 5;
+
+const TOKEN_PROGRAM_IDS = [
+    "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+    "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb", // Token-2022
+];
+
+// Shapes of key material. Addresses are shorter: Solana addresses are at
+// most 44 Base58 characters and Ethereum addresses 40 hex characters, while
+// private keys are 64 hex characters (Ethereum, seeds), ~88 Base58
+// characters (Solana secret keys) or 51-52 (Bitcoin WIF).
+const HEX_KEY_PATTERN = /[0-9a-fA-F]{64}/;
+const BASE58_KEY_PATTERN = /[1-9A-HJ-NP-Za-km-z]{50,}/;
+const MIN_MNEMONIC_WORDS = 12;
+
+/**
+ * Token balance of one Solana token account.
+ */
+export interface TokenBalance {
+    mint: string;
+    amount: string;       // Decimal amount in the mint's units
+}
+
+/**
+ * Balance and activity of one address.
+ */
+export interface AccountBalance {
+    native: string;                // e.g. "1.5 SOL"
+    tokens: TokenBalance[];        // Solana token accounts with a balance
+    transactionCount?: number;     // Ethereum: transactions sent (the next nonce)
+    fetchedAt: number;             // Unix epoch milliseconds
+}
+
+/**
+ * A Solana token account owned by a wallet.
+ */
+export interface SolanaTokenAccount {
+    address: string;
+    programId: string;    // Token or Token-2022
+    mint: string;
+    amount: string;       // Decimal amount in the mint's units
+    isEmpty: boolean;
+    lamports: bigint;     // Rent held by the account
+}
+
+/**
+ * Chain state needed to sweep a Solana wallet.
+ */
+export interface SolanaAccountState {
+    lamports: bigint;
+    blockhash: string;
+    tokenAccounts: SolanaTokenAccount[];
+}
+
+/**
+ * Chain state needed to sweep an Ethereum wallet to a destination.
+ */
+export interface EthereumAccountState {
+    balance: bigint;      // Wei
+    nonce: bigint;        // Including pending transactions
+    chainId: bigint;
+    baseFee: bigint;      // Wei per gas, of the next block
+    priorityFee: bigint;  // Wei per gas, median tip of recent blocks
+    isDestinationContract: boolean;
+}
+
+/**
+ * Error thrown when an endpoint cannot be reached or answers with an
+ * error.
+ */
+export class RpcError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "RpcError";
+    }
+}
+
+/**
+ * Error thrown when a request body looks like it carries key material.
+ * The request is never sent.
+ */
+export class RpcGuardError extends Error {
+    constructor() {
+        super("Blocked a request that looked like it contained key material.");
+        this.name = "RpcGuardError";
+    }
+}
+
+/**
+ * Returns whether a URL can be used as an endpoint: http or https only.
+ */
+export function isValidRpcEndpoint(url: string): boolean {
+    try {
+        const { protocol } = new URL(url.trim());
+        return protocol === "http:" || protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Returns the endpoint to use for a chain: set only if lookups are enabled
+ * and the chain supports them.
+ */
+export function getRpcEndpoint(settings: RpcSettings, chain: string): string | undefined {
+    return settings.enabled && RPC_CHAINS.some((rpcChain) => rpcChain.chain === chain)
+        ? settings.endpoints[chain] || undefined
+        : undefined;
+}
+
+function assertNoKnownSecrets(body: string, knownSecrets: string[]): void {
+    if (knownSecrets.some((secret) => secret.length > 0 && body.includes(secret))) {
+        throw new RpcGuardError();
+    }
+}
+
+/**
+ * Signed transactions are long encoded data, so they cannot pass the
+ * shape checks of assertNoKeyMaterial. One is only let through if it
+ * decodes as a transaction that carries every signature it needs.
+ *
+ * @throws {RpcGuardError} If the value is not a fully signed transaction
+ */
+function assertSignedTransaction(value: unknown): void {
+    let signed = false;
+    try {
+        const inspected = inspectTransaction(value as string);
+        signed =
+            inspected.signers.length > 0 &&
+            inspected.signers.every((signer) => inspected.signed.includes(signer));
+    } catch {
+        // Not a transaction
+    }
+    if (!signed) {
+        throw new RpcGuardError();
+    }
+}
+
+/**
+ * Refuses a request body that contains any of the known secrets (mnemonic
+ * phrases, passphrases, private keys in their stored encoding) or anything
+ * shaped like a private key or a BIP39 phrase.
+ *
+ * @throws {RpcGuardError} If the body may carry key material
+ */
+export function assertNoKeyMaterial(body: string, knownSecrets: string[]): void {
+    assertNoKnownSecrets(body, knownSecrets);
+    if (HEX_KEY_PATTERN.test(body) || BASE58_KEY_PATTERN.test(body)) {
+        throw new RpcGuardError();
+    }
+    const wordlist = new Set(getMnemonicLanguage("english").wordlist);
+    let run = 0;
+    for (const word of splitMnemonic(body.replace(/[^a-z]+/g, " "))) {
+        run = wordlist.has(word) ? run + 1 : 0;
+        if (run >= MIN_MNEMONIC_WORDS) {
+            throw new RpcGuardError();
+        }
+    }
+}
+
+/**
+ * Sends one JSON-RPC request. The body is checked by assertNoKeyMaterial
+ * right before it is sent; the transaction of a submission is checked by
+ * assertSignedTransaction instead.
+ *
+ * @throws {RpcGuardError} If the body may carry key material
+ * @throws {RpcError} If the endpoint fails or returns an error
+ */
+async function postJsonRpc(
+    endpoint: string,
+    method: RpcMethod,
+    params: unknown[],
+    knownSecrets: string[]
+): Promise<unknown> {
+    if (!ALLOWED_METHODS.includes(method)) {
+        throw new RpcError(`Method ${method} is not allowed.`);
+    }
+    const body = JSON.stringify({ jsonrpc: "2.0", id: 1, method, params });
+    if (SUBMIT_METHODS.includes(method)) {
+        // The transaction is checked on its own; everything else in the
+        // body gets the full check, and known secrets are searched for
+        // everywhere.
+        assertSignedTransaction(params[0]);
+        assertNoKeyMaterial(
+            JSON.stringify({ jsonrpc: "2.0", id: 1, method, params: params.slice(1) }),
+            knownSecrets
+        );
+        assertNoKnownSecrets(body, knownSecrets);
+    } else {
+        assertNoKeyMaterial(body, knownSecrets);
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(endpoint, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+    } catch {
+        throw new RpcError("The RPC endpoint could not be reached.");
+    }
+    if (!response.ok) {
+        throw new RpcError(`The RPC endpoint answered with HTTP ${response.status}.`);
+    }
+    let payload: { result?: unknown; error?: { message?: string } };
+    try {
+        payload = await response.json();
+    } catch {
+        throw new RpcError("The RPC endpoint did not return JSON.");
+    }
+    if (payload.error) {
+        throw new RpcError(`The RPC endpoint returned an error: ${payload.error.message ?? "unknown"}.`);
+    }
+    return payload.result;
+}
+
+/**
+ * @throws {RpcError} If the address is not a valid address of the chain
+ *         or the endpoint is not an http(s) URL
+ */
+function assertLookupInput(chain: string, address: string, endpoint: string): void {
+    if (!getChainAdapter(chain)?.isValidAddress(address)) {
+        throw new RpcError("Only valid public addresses can be looked up.");
+    }
+    if (!isValidRpcEndpoint(endpoint)) {
+        throw new RpcError("Set an http(s) RPC endpoint first.");
+    }
+}
+
+interface ParsedTokenAccount {
+    pubkey: string;
+    account: {
+        lamports: number;
+        data: {
+            parsed: { info: { mint: string; tokenAmount: { amount: string; uiAmountString: string } } };
+        };
+    };
+}
+
+async function fetchSolanaTokenAccounts(
+    endpoint: string,
+    address: string,
+    knownSecrets: string[]
+): Promise<SolanaTokenAccount[]> {
+    const accounts = await Promise.all(
+        TOKEN_PROGRAM_IDS.map(async (programId) =>
+            ((await postJsonRpc(
+                endpoint,
+                "getTokenAccountsByOwner",
+                [address, { programId }, { encoding: "jsonParsed", commitment: "confirmed" }],
+                knownSecrets
+            )) as { value: ParsedTokenAccount[] }).value.map(({ pubkey, account }) => ({
+                address: pubkey,
+                programId,
+                mint: account.data.parsed.info.mint,
+                amount: account.data.parsed.info.tokenAmount.uiAmountString,
+                isEmpty: account.data.parsed.info.tokenAmount.amount === "0",
+                lamports: BigInt(account.lamports),
+            }))
+        )
+    );
+    return accounts.flat();
+}
+
+async function fetchSolanaBalance(
+    endpoint: string,
+    address: string,
+    knownSecrets: string[]
+): Promise<AccountBalance> {
+    const balance = (await postJsonRpc(endpoint, "getBalance", [address, { commitment: "confirmed" }], knownSecrets)) as {
+        value: number;
+    };
+    const tokenAccounts = await fetchSolanaTokenAccounts(endpoint, address, knownSecrets);
+    return {
+        native: `${ethers.formatUnits(BigInt(balance.value), 9)} SOL`,
+        tokens: tokenAccounts
+            .filter((account) => !account.isEmpty)
+            .map((account) => ({ mint: account.mint, amount: account.amount })),
+        fetchedAt: Date.now(),
+    };
+}
+
+async function fetchEthereumBalance(
+    endpoint: string,
+    address: string,
+    knownSecrets: string[]
+): Promise<AccountBalance> {
+    const [balance, count] = await Promise.all([
+        postJsonRpc(endpoint, "eth_getBalance", [address, "latest"], knownSecrets),
+        postJsonRpc(endpoint, "eth_getTransactionCount", [address, "latest"], knownSecrets),
+    ]);
+    return {
+        native: `${ethers.formatEther(BigInt(balance as string))} ETH`,
+        tokens: [],
+        transactionCount: Number(BigInt(count as string)),
+        fetchedAt: Date.now(),
+    };
+}
+
+/**
+ * Looks up an address's balance on the chain's configured endpoint.
+ *
+ * @param knownSecrets - Every secret held in memory, for assertNoKeyMaterial
+ * @throws {RpcError} If the chain has no lookups, the address is invalid,
+ *         or the endpoint fails
+ * @throws {RpcGuardError} If a request body may carry key material
+ */
+export async function fetchBalance(
+    chain: string,
+    address: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<AccountBalance> {
+    assertLookupInput(chain, address, endpoint);
+    if (chain === solanaAdapter.id) {
+        return fetchSolanaBalance(endpoint.trim(), address, knownSecrets);
+    }
+    if (chain === ethereumAdapter.id) {
+        return fetchEthereumBalance(endpoint.trim(), address, knownSecrets);
+    }
+    throw new RpcError("Balance lookups are not available for this chain.");
+}
+
+/**
+ * Returns whether an address has on-chain history: any Solana transaction
+ * mentioning it, or an Ethereum address that has sent a transaction or
+ * holds a balance.
+ *
+ * @param knownSecrets - Every secret held in memory, for assertNoKeyMaterial
+ * @throws {RpcError} If the chain has no lookups, the address is invalid,
+ *         or the endpoint fails
+ * @throws {RpcGuardError} If a request body may carry key material
+ */
+export async function hasAccountHistory(
+    chain: string,
+    address: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<boolean> {
+    assertLookupInput(chain, address, endpoint);
+    if (chain === solanaAdapter.id) {
+        const signatures = (await postJsonRpc(
+            endpoint.trim(),
+            "getSignaturesForAddress",
+            [address, { limit: 1, commitment: "confirmed" }],
+            knownSecrets
+        )) as unknown[];
+        return signatures.length > 0;
+    }
+    if (chain === ethereumAdapter.id) {
+        const [balance, count] = await Promise.all([
+            postJsonRpc(endpoint.trim(), "eth_getBalance", [address, "latest"], knownSecrets),
+            postJsonRpc(endpoint.trim(), "eth_getTransactionCount", [address, "latest"], knownSecrets),
+        ]);
+        return BigInt(balance as string) > BigInt(0) || BigInt(count as string) > BigInt(0);
+    }
+    throw new RpcError("Balance lookups are not available for this chain.");
+}
+
+/**
+ * Fetches a Solana wallet's balance, token accounts and a recent
+ * blockhash.
+ *
+ * @throws {RpcError} If the address is invalid or the endpoint fails
+ * @throws {RpcGuardError} If a request body may carry key material
+ */
+export async function fetchSolanaAccountState(
+    address: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<SolanaAccountState> {
+    assertLookupInput(solanaAdapter.id, address, endpoint);
+    const [balance, latest, tokenAccounts] = await Promise.all([
+        postJsonRpc(endpoint.trim(), "getBalance", [address, { commitment: "confirmed" }], knownSecrets),
+        postJsonRpc(endpoint.trim(), "getLatestBlockhash", [{ commitment: "confirmed" }], knownSecrets),
+        fetchSolanaTokenAccounts(endpoint.trim(), address, knownSecrets),
+    ]);
+    return {
+        lamports: BigInt((balance as { value: number }).value),
+        blockhash: (latest as { value: { blockhash: string } }).value.blockhash,
+        tokenAccounts,
+    };
+}
+
+/**
+ * Fetches an Ethereum wallet's balance and next nonce, the chain id, the
+ * node's gas price, and whether the destination is a contract.
+ *
+ * @throws {RpcError} If an address is invalid or the endpoint fails
+ * @throws {RpcGuardError} If a request body may carry key material
+ */
+export async function fetchEthereumAccountState(
+    address: string,
+    destination: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<EthereumAccountState> {
+    assertLookupInput(ethereumAdapter.id, address, endpoint);
+    assertLookupInput(ethereumAdapter.id, destination, endpoint);
+    const [balance, nonce, chainId, feeHistory, code] = await Promise.all([
+        postJsonRpc(endpoint.trim(), "eth_getBalance", [address, "latest"], knownSecrets),
+        postJsonRpc(endpoint.trim(), "eth_getTransactionCount", [address, "pending"], knownSecrets),
+        postJsonRpc(endpoint.trim(), "eth_chainId", [], knownSecrets),
+        // Base fees of the last FEE_HISTORY_BLOCKS blocks plus the next one,
+        // and each block's median tip.
+        postJsonRpc(
+            endpoint.trim(),
+            "eth_feeHistory",
+            [`0x${FEE_HISTORY_BLOCKS.toString(16)}`, "latest", [50]],
+            knownSecrets
+        ),
+        postJsonRpc(endpoint.trim(), "eth_getCode", [destination, "latest"], knownSecrets),
+    ]);
+    const { baseFeePerGas, reward = [] } = feeHistory as {
+        baseFeePerGas: string[];
+        reward?: string[][];
+    };
+    const tips = reward
+        .map((rewards) => BigInt(rewards[0] ?? "0x0"))
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    return {
+        balance: BigInt(balance as string),
+        nonce: BigInt(nonce as string),
+        chainId: BigInt(chainId as string),
+        baseFee: BigInt(baseFeePerGas[baseFeePerGas.length - 1] ?? "0x0"),
+        priorityFee: tips[Math.floor(tips.length / 2)] ?? BigInt(0),
+        isDestinationContract: code !== "0x",
+    };
+}
+
+/**
+ * Broadcasts a fully signed transaction: Base64 for Solana, 0x-prefixed
+ * hex for Ethereum.
+ *
+ * @returns The signature (Solana) or hash (Ethereum) the node reports
+ * @throws {RpcError} If the chain has no RPC support or the node rejects
+ *         the transaction
+ * @throws {RpcGuardError} If the transaction is not fully signed or the
+ *         request may carry key material
+ */
+export async function submitTransaction(
+    chain: string,
+    serialized: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<string> {
+    if (!isValidRpcEndpoint(endpoint)) {
+        throw new RpcError("Set an http(s) RPC endpoint first.");
+    }
+    if (chain === solanaAdapter.id) {
+        return (await postJsonRpc(
+            endpoint.trim(),
+            "sendTransaction",
+            [serialized, { encoding: "base64", preflightCommitment: "confirmed" }],
+            knownSecrets
+        )) as string;
+    }
+    if (chain === ethereumAdapter.id) {
+        return (await postJsonRpc(
+            endpoint.trim(),
+            "eth_sendRawTransaction",
+            [serialized],
+            knownSecrets
+        )) as string;
+    }
+    throw new RpcError("Transactions cannot be submitted for this chain.");
+}
@@ -0,0 +1,593 @@
+/**
+ * SLIP-39 Shamir's Secret-Sharing for mnemonic codes.
+ * See https://github.com/satoshilabs/slips/blob/master/slip-0039.md
+ *
+ * Implemented on @noble/hashes (PBKDF2, HMAC-SHA256) so it runs in the
+ * browser without Node's crypto module. Checked against the reference
+ * test vectors.
+ *
+ * ForgeSphere splits a vault's BIP39 entropy as the SLIP-39 master secret,
+ * so recombined shares give back the same BIP39 phrase. Hardware wallets
+ * that use SLIP-39 natively derive keys from the master secret directly,
+ * which yields different wallets for the same shares.
+ *
+ * SECURITY: Shares are key material. Never log them, and never put share
+ * words in error messages (positions only).
+ */
+
+import { hmac } from "@noble/hashes/hmac";
+import { pbkdf2 } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex, concatBytes, hexToBytes, randomBytes } from "@noble/hashes/utils";
+import { entropyToMnemonic, mnemonicToEntropy } from "bip39";
+import { SLIP39_WORDLIST } from "./slip39-wordlist";
+import { getMnemonicLanguage, splitMnemonic } from "./mnemonic";
+
+const RADIX_BITS = 10;
+const ID_BITS = 15;
+const CHECKSUM_WORDS = 3;
+const METADATA_WORDS = 4 + CHECKSUM_WORDS;
+const MIN_STRENGTH_BITS = 128;
+const MIN_MNEMONIC_WORDS = METADATA_WORDS + Math.ceil(MIN_STRENGTH_BITS / RADIX_BITS);
+const MAX_SHARE_COUNT = 16;
+const DIGEST_LENGTH = 4;
+const DIGEST_INDEX = 254;
+const SECRET_INDEX = 255;
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+const ITERATION_EXPONENT = 1;
+const CUSTOMIZATION_STRING = "shamir";
+const CUSTOMIZATION_STRING_EXTENDABLE = "shamir_extendable";
+
+/**
+ * Thrown for invalid shares, inconsistent share sets and unmet
+ * thresholds. Messages never contain share words.
+ */
+export class Slip39Error extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "Slip39Error";
+    }
+}
+
+/**
+ * A decoded share.
+ */
+export interface Slip39Share {
+    identifier: number;
+    extendable: boolean;
+    iterationExponent: number;
+    groupIndex: number;
+    groupThreshold: number;
+    groupCount: number;
+    memberIndex: number;
+    memberThreshold: number;
+    value: Uint8Array;
+}
+
+/**
+ * Member threshold and count of one group, e.g. 2-of-3.
+ */
+export interface Slip39Group {
+    threshold: number;
+    count: number;
+}
+
+/**
+ * Generated shares, one array of mnemonics per group.
+ */
+export type Slip39ShareSet = string[][];
+
+// GF(256) arithmetic with the Rijndael polynomial x^8 + x^4 + x^3 + x + 1.
+const EXP_TABLE: number[] = [];
+const LOG_TABLE: number[] = new Array(256).fill(0);
+for (let i = 0, poly = 1; i < 255; i++) {
+    EXP_TABLE[i] = poly;
+    LOG_TABLE[poly] = i;
+    poly = (poly << 1) ^ poly;
+    if (poly & 0x100) {
+        poly ^= 0x11b;
+    }
+}
+
+const WORD_INDEX = new Map(SLIP39_WORDLIST.map((word, i) => [word, i]));
+
+function customizationString(extendable: boolean): number[] {
+    const value = extendable ? CUSTOMIZATION_STRING_EXTENDABLE : CUSTOMIZATION_STRING;
+    return Array.from(value, (char) => char.charCodeAt(0));
+}
+
+function rs1024Polymod(values: number[]): number {
+    const GEN = [
+        0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009,
+        0x1c0c2412, 0x38086c24, 0x3090fc48, 0x21b1f890, 0x3f3f120,
+    ];
+    let chk = 1;
+    for (const value of values) {
+        const b = chk >> 20;
+        chk = ((chk & 0xfffff) << 10) ^ value;
+        for (let i = 0; i < 10; i++) {
+            if ((b >> i) & 1) {
+                chk ^= GEN[i];
+            }
+        }
+    }
+    return chk;
+}
+
+function rs1024CreateChecksum(data: number[], extendable: boolean): number[] {
+    const values = customizationString(extendable).concat(data, [0, 0, 0]);
+    const polymod = rs1024Polymod(values) ^ 1;
+    return [2, 1, 0].map((i) => (polymod >> (RADIX_BITS * i)) & 1023);
+}
+
+function rs1024VerifyChecksum(data: number[], extendable: boolean): boolean {
+    return rs1024Polymod(customizationString(extendable).concat(data)) === 1;
+}
+
+/**
+ * Big-endian bits of each value, `bitsPer` bits each.
+ */
+function toBits(values: ArrayLike<number>, bitsPer: number): number[] {
+    const bits: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+        for (let bit = bitsPer - 1; bit >= 0; bit--) {
+            bits.push((values[i] >> bit) & 1);
+        }
+    }
+    return bits;
+}
+
+/**
+ * Packs bits into `bitsPer`-bit values; bits.length must be a multiple.
+ */
+function fromBits(bits: number[], bitsPer: number): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < bits.length; i += bitsPer) {
+        values.push(bits.slice(i, i + bitsPer).reduce((acc, bit) => (acc << 1) | bit, 0));
+    }
+    return values;
+}
+
+function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+    return a.map((byte, i) => byte ^ b[i]);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+    return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Lagrange interpolation of the shares' polynomial at x, bytewise.
+ */
+function interpolate(shares: [number, Uint8Array][], x: number): Uint8Array {
+    const match = shares.find(([shareX]) => shareX === x);
+    if (match) {
+        return match[1];
+    }
+
+    const logProd = shares.reduce((sum, [shareX]) => sum + LOG_TABLE[shareX ^ x], 0);
+    const result = new Uint8Array(shares[0][1].length);
+    for (const [shareX, value] of shares) {
+        const logBasisEval =
+            (((logProd -
+                LOG_TABLE[shareX ^ x] -
+                shares.reduce((sum, [otherX]) => sum + LOG_TABLE[shareX ^ otherX], 0)) %
+                255) +
+                255) %
+            255;
+        value.forEach((byte, i) => {
+            if (byte !== 0) {
+                result[i] ^= EXP_TABLE[(LOG_TABLE[byte] + logBasisEval) % 255];
+            }
+        });
+    }
+    return result;
+}
+
+function createDigest(randomPart: Uint8Array, sharedSecret: Uint8Array): Uint8Array {
+    return hmac(sha256, randomPart, sharedSecret).slice(0, DIGEST_LENGTH);
+}
+
+function splitSecret(threshold: number, count: number, secret: Uint8Array): [number, Uint8Array][] {
+    if (threshold === 1) {
+        return Array.from({ length: count }, (_, i) => [i, secret]);
+    }
+
+    const randomShareCount = threshold - 2;
+    const shares: [number, Uint8Array][] = Array.from({ length: randomShareCount }, (_, i) => [
+        i,
+        randomBytes(secret.length),
+    ]);
+    const randomPart = randomBytes(secret.length - DIGEST_LENGTH);
+    const baseShares: [number, Uint8Array][] = [
+        ...shares,
+        [DIGEST_INDEX, concatBytes(createDigest(randomPart, secret), randomPart)],
+        [SECRET_INDEX, secret],
+    ];
+    for (let i = randomShareCount; i < count; i++) {
+        shares.push([i, interpolate(baseShares, i)]);
+    }
+    return shares;
+}
+
+function recoverSecret(threshold: number, shares: [number, Uint8Array][]): Uint8Array {
+    if (threshold === 1) {
+        return shares[0][1];
+    }
+    const secret = interpolate(shares, SECRET_INDEX);
+    const digestShare = interpolate(shares, DIGEST_INDEX);
+    const digest = digestShare.slice(0, DIGEST_LENGTH);
+    if (!bytesEqual(digest, createDigest(digestShare.slice(DIGEST_LENGTH), secret))) {
+        throw new Slip39Error("Shares do not combine to a valid secret. Check that they belong together.");
+    }
+    return secret;
+}
+
+function roundFunction(
+    round: number,
+    passphrase: Uint8Array,
+    iterationExponent: number,
+    salt: Uint8Array,
+    r: Uint8Array
+): Uint8Array {
+    return pbkdf2(sha256, concatBytes(new Uint8Array([round]), passphrase), concatBytes(salt, r), {
+        c: (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT,
+        dkLen: r.length,
+    });
+}
+
+function getSalt(identifier: number, extendable: boolean): Uint8Array {
+    if (extendable) {
+        return new Uint8Array(0);
+    }
+    return concatBytes(
+        new Uint8Array(customizationString(false)),
+        new Uint8Array([identifier >> 8, identifier & 0xff])
+    );
+}
+
+/**
+ * Four-round Feistel cipher over the master secret. Decryption runs the
+ * rounds in reverse.
+ */
+function feistel(
+    secret: Uint8Array,
+    passphrase: string,
+    iterationExponent: number,
+    identifier: number,
+    extendable: boolean,
+    rounds: number[]
+): Uint8Array {
+    const half = secret.length / 2;
+    let l: Uint8Array = secret.slice(0, half);
+    let r: Uint8Array = secret.slice(half);
+    const salt = getSalt(identifier, extendable);
+    const passphraseBytes = new TextEncoder().encode(passphrase);
+    for (const round of rounds) {
+        [l, r] = [r, xorBytes(l, roundFunction(round, passphraseBytes, iterationExponent, salt, r))];
+    }
+    return concatBytes(r, l);
+}
+
+function encodeShare(share: Slip39Share): string {
+    const idExp =
+        (share.identifier << 5) | (Number(share.extendable) << 4) | share.iterationExponent;
+    const groupParams =
+        (share.groupIndex << 16) |
+        ((share.groupThreshold - 1) << 12) |
+        ((share.groupCount - 1) << 8) |
+        (share.memberIndex << 4) |
+        (share.memberThreshold - 1);
+
+    const valueWordCount = Math.ceil((share.value.length * 8) / RADIX_BITS);
+    const padding = new Array(valueWordCount * RADIX_BITS - share.value.length * 8).fill(0);
+    const valueWords = fromBits(padding.concat(toBits(share.value, 8)), RADIX_BITS);
+
+    const data = fromBits(toBits([idExp, groupParams], 20), RADIX_BITS).concat(valueWords);
+    return data
+        .concat(rs1024CreateChecksum(data, share.extendable))
+        .map((index) => SLIP39_WORDLIST[index])
+        .join(" ");
+}
+
+/**
+ * Decodes and checks a single share mnemonic.
+ *
+ * @throws {Slip39Error} On unknown words, bad length, checksum or padding
+ */
+export function decodeShare(mnemonic: string): Slip39Share {
+    const words = mnemonic.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const indices = words.map((word, i) => {
+        const index = WORD_INDEX.get(word);
+        if (index === undefined) {
+            throw new Slip39Error(`Word ${i + 1} is not in the SLIP-39 wordlist.`);
+        }
+        return index;
+    });
+
+    const paddingBits = (RADIX_BITS * (indices.length - METADATA_WORDS)) % 16;
+    if (indices.length < MIN_MNEMONIC_WORDS || paddingBits > 8) {
+        throw new Slip39Error(`A share cannot have ${indices.length} words.`);
+    }
+
+    const [idExp, groupParams] = fromBits(toBits(indices.slice(0, 4), RADIX_BITS), 20);
+    const extendable = ((idExp >> 4) & 1) === 1;
+    if (!rs1024VerifyChecksum(indices, extendable)) {
+        throw new Slip39Error("Checksum is invalid. Check for a mistyped word.");
+    }
+
+    const valueBits = toBits(indices.slice(4, -CHECKSUM_WORDS), RADIX_BITS);
+    if (valueBits.slice(0, paddingBits).some(Boolean)) {
+        throw new Slip39Error("Share padding is invalid.");
+    }
+
+    const share: Slip39Share = {
+        identifier: idExp >> 5,
+        extendable,
+        iterationExponent: idExp & 0xf,
+        groupIndex: groupParams >> 16,
+        groupThreshold: ((groupParams >> 12) & 0xf) + 1,
+        groupCount: ((groupParams >> 8) & 0xf) + 1,
+        memberIndex: (groupParams >> 4) & 0xf,
+        memberThreshold: (groupParams & 0xf) + 1,
+        value: new Uint8Array(fromBits(valueBits.slice(paddingBits), 8)),
+    };
+    if (share.groupThreshold > share.groupCount) {
+        throw new Slip39Error("Group threshold is greater than the group count.");
+    }
+    return share;
+}
+
+/**
+ * Splits a master secret into SLIP-39 shares.
+ *
+ * @param masterSecret - At least 16 bytes, even length
+ * @param groupThreshold - Number of groups needed to recover
+ * @param groups - Member threshold and count per group
+ * @param passphrase - SLIP-39 passphrase (printable ASCII)
+ * @throws {Slip39Error} If the parameters are not allowed by SLIP-39
+ */
+export function splitMasterSecret(
+    masterSecret: Uint8Array,
+    groupThreshold: number,
+    groups: Slip39Group[],
+    passphrase = ""
+): Slip39ShareSet {
+    if (masterSecret.length * 8 < MIN_STRENGTH_BITS || masterSecret.length % 2 !== 0) {
+        throw new Slip39Error("The master secret must be at least 16 bytes and an even length.");
+    }
+    if (!/^[\x20-\x7e]*$/.test(passphrase)) {
+        throw new Slip39Error("The passphrase must be printable ASCII.");
+    }
+    if (groups.length < 1 || groups.length > MAX_SHARE_COUNT) {
+        throw new Slip39Error(`Use between 1 and ${MAX_SHARE_COUNT} groups.`);
+    }
+    if (groupThreshold < 1 || groupThreshold > groups.length) {
+        throw new Slip39Error("The group threshold must be between 1 and the number of groups.");
+    }
+    groups.forEach(({ threshold, count }, i) => {
+        if (count < 1 || count > MAX_SHARE_COUNT || threshold < 1 || threshold > count) {
+            throw new Slip39Error(`Group ${i + 1} needs 1 to ${MAX_SHARE_COUNT} shares and a threshold no greater than its share count.`);
+        }
+        if (threshold === 1 && count > 1) {
+            throw new Slip39Error(`Group ${i + 1}: a threshold of 1 with several shares is not allowed; use 1-of-1.`);
+        }
+    });
+
+    const random = randomBytes(2);
+    const identifier = ((random[0] << 8) | random[1]) & ((1 << ID_BITS) - 1);
+    const extendable = true;
+    const encryptedSecret = feistel(
+        masterSecret,
+        passphrase,
+        ITERATION_EXPONENT,
+        identifier,
+        extendable,
+        [0, 1, 2, 3]
+    );
+
+    const groupShares = splitSecret(groupThreshold, groups.length, encryptedSecret);
+    return groupShares.map(([groupIndex, groupSecret]) => {
+        const { threshold, count } = groups[groupIndex];
+        return splitSecret(threshold, count, groupSecret).map(([memberIndex, value]) =>
+            encodeShare({
+                identifier,
+                extendable,
+                iterationExponent: ITERATION_EXPONENT,
+                groupIndex,
+                groupThreshold,
+                groupCount: groups.length,
+                memberIndex,
+                memberThreshold: threshold,
+                value,
+            })
+        );
+    });
+}
+
+/**
+ * Result of checking one entered share.
+ */
+export interface ShareCheck {
+    share?: Slip39Share;
+    error?: string;
+}
+
+/**
+ * Recovery progress of one group.
+ */
+export interface GroupProgress {
+    groupIndex: number;
+    shareCount: number;
+    memberThreshold: number;
+}
+
+/**
+ * Per-share results plus threshold progress for a set of entered shares.
+ */
+export interface ShareSetCheck {
+    checks: ShareCheck[];
+    groups: GroupProgress[];
+    groupThreshold: number | null;
+    isComplete: boolean;
+}
+
+/**
+ * Checks every entered share on its own, then against the others: same
+ * share set, no duplicates, consistent group thresholds. Empty entries
+ * get an empty check.
+ */
+export function checkShares(mnemonics: string[]): ShareSetCheck {
+    const checks: ShareCheck[] = mnemonics.map((mnemonic) => {
+        if (!mnemonic.trim()) {
+            return {};
+        }
+        try {
+            return { share: decodeShare(mnemonic) };
+        } catch (error) {
+            return { error: error instanceof Slip39Error ? error.message : "Share could not be read." };
+        }
+    });
+
+    const reference = checks.find((check) => check.share)?.share;
+    const groups = new Map<number, GroupProgress>();
+    const seen = new Set<string>();
+
+    for (const check of checks) {
+        const share = check.share;
+        if (!share || !reference) {
+            continue;
+        }
+        if (
+            share.identifier !== reference.identifier ||
+            share.extendable !== reference.extendable ||
+            share.iterationExponent !== reference.iterationExponent ||
+            share.groupThreshold !== reference.groupThreshold ||
+            share.groupCount !== reference.groupCount ||
+            share.value.length !== reference.value.length
+        ) {
+            check.error = "Belongs to a different share set than the first share.";
+            continue;
+        }
+
+        const key = `${share.groupIndex}/${share.memberIndex}`;
+        if (seen.has(key)) {
+            check.error = "Duplicate of another share.";
+            continue;
+        }
+
+        const group = groups.get(share.groupIndex);
+        if (group && group.memberThreshold !== share.memberThreshold) {
+            check.error = `Member threshold differs from other shares of group ${share.groupIndex + 1}.`;
+            continue;
+        }
+        seen.add(key);
+        groups.set(share.groupIndex, {
+            groupIndex: share.groupIndex,
+            shareCount: (group?.shareCount ?? 0) + 1,
+            memberThreshold: share.memberThreshold,
+        });
+    }
+
+    const groupList = Array.from(groups.values()).sort((a, b) => a.groupIndex - b.groupIndex);
+    const groupThreshold = reference?.groupThreshold ?? null;
+    const completeGroups = groupList.filter((group) => group.shareCount >= group.memberThreshold);
+    return {
+        checks,
+        groups: groupList,
+        groupThreshold,
+        isComplete:
+            groupThreshold !== null &&
+            completeGroups.length >= groupThreshold &&
+            checks.every((check) => !check.error),
+    };
+}
+
+/**
+ * Recombines shares into the master secret.
+ *
+ * @param mnemonics - Entered shares; empty entries are ignored
+ * @param passphrase - SLIP-39 passphrase used when splitting
+ * @throws {Slip39Error} If a share is invalid, thresholds are not met, or
+ *         the shares do not belong together
+ */
+export function combineShares(mnemonics: string[], passphrase = ""): Uint8Array {
+    const { checks, groupThreshold, isComplete } = checkShares(mnemonics);
+    const failed = checks.findIndex((check) => check.error);
+    if (failed !== -1) {
+        throw new Slip39Error(`Share ${failed + 1}: ${checks[failed].error}`);
+    }
+    if (!isComplete || groupThreshold === null) {
+        throw new Slip39Error("Not enough shares to meet the threshold.");
+    }
+
+    const shares = checks.flatMap((check) => (check.share ? [check.share] : []));
+    const groupSecrets: [number, Uint8Array][] = [];
+    for (const share of shares) {
+        if (groupSecrets.length === groupThreshold) {
+            break;
+        }
+        if (groupSecrets.some(([groupIndex]) => groupIndex === share.groupIndex)) {
+            continue;
+        }
+        const members = shares.filter((member) => member.groupIndex === share.groupIndex);
+        if (members.length < share.memberThreshold) {
+            continue;
+        }
+        groupSecrets.push([
+            share.groupIndex,
+            recoverSecret(
+                share.memberThreshold,
+                members
+                    .slice(0, share.memberThreshold)
+                    .map((member): [number, Uint8Array] => [member.memberIndex, member.value])
+            ),
+        ]);
+    }
+
+    const { identifier, extendable, iterationExponent } = shares[0];
+    return feistel(
+        recoverSecret(groupThreshold, groupSecrets),
+        passphrase,
+        iterationExponent,
+        identifier,
+        extendable,
+        [3, 2, 1, 0]
+    );
+}
+
+/**
+ * Splits a BIP39 phrase into SLIP-39 shares, using its entropy as the
+ * master secret.
+ *
+ * SECURITY: Caller MUST validate the mnemonic before splitting.
+ */
+export function splitMnemonicIntoShares(
+    words: string[],
+    languageId: string | undefined,
+    groupThreshold: number,
+    groups: Slip39Group[]
+): Slip39ShareSet {
+    const { wordlist } = getMnemonicLanguage(languageId);
+    const entropy = hexToBytes(mnemonicToEntropy(words.join(" "), wordlist));
+    return splitMasterSecret(entropy, groupThreshold, groups);
+}
+
+/**
+ * Recombines shares made by splitMnemonicIntoShares into BIP39 words.
+ *
+ * @throws {Slip39Error} If the shares cannot be combined, or their secret
+ *         is not a valid BIP39 entropy length
+ */
+export function recoverMnemonicFromShares(
+    mnemonics: string[],
+    languageId: string | undefined
+): string[] {
+    const secret = combineShares(mnemonics);
+    if (![16, 20, 24, 28, 32].includes(secret.length)) {
+        throw new Slip39Error("The recovered secret is not the length of a BIP39 phrase.");
+    }
+    const { wordlist } = getMnemonicLanguage(languageId);
+    return splitMnemonic(entropyToMnemonic(bytesToHex(secret), wordlist));
+}
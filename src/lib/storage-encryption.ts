@@ -0,0 +1,190 @@
+/**
+ * Password-based encryption for persisted wallet data.
+ * 
+ * The password is stretched with PBKDF2-SHA256 into a non-extractable
+ * AES-256-GCM key (WebCrypto). Only the key is kept in memory while the
+ * app is unlocked; the password itself is never stored.
+ * 
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material
+ * - No console logging of secrets or passwords
+ */
+
+import { base64 } from "@scure/base";
+import { StorageCorruptionError } from "./storage-schema";
+
+/**
+ * Shortest password accepted for storage and backup encryption.
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Bound for KDF parameters read from storage or a file, so crafted data
+// cannot stall the browser.
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+
+/**
+ * Key-derivation parameters stored next to the ciphertext.
+ */
+export interface KdfParams {
+    name: "PBKDF2";
+    hash: "SHA-256";
+    iterations: number;
+    salt: string;         // base64
+}
+
+/**
+ * AES-GCM sealed payload as written to localStorage.
+ */
+export interface EncryptedPayload {
+    kdf: KdfParams;
+    iv: string;           // base64
+    ciphertext: string;   // base64, includes the GCM tag
+}
+
+/**
+ * In-memory handle to the derived storage key while the app is unlocked.
+ */
+export interface StorageKey {
+    key: CryptoKey;
+    kdf: KdfParams;
+}
+
+/**
+ * Error thrown when a payload cannot be decrypted, i.e. the password is
+ * wrong or the ciphertext was modified.
+ */
+export class IncorrectPasswordError extends Error {
+    constructor() {
+        super("Incorrect password");
+        this.name = "IncorrectPasswordError";
+    }
+}
+
+// Copies into a fresh ArrayBuffer-backed array, as WebCrypto requires.
+function fromBase64(value: string) {
+    return new Uint8Array(base64.decode(value));
+}
+
+function isBase64(value: unknown): boolean {
+    if (typeof value !== "string") {
+        return false;
+    }
+    try {
+        base64.decode(value);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isKdfParams(value: unknown): value is KdfParams {
+    const kdf = value as KdfParams;
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        kdf.name === "PBKDF2" &&
+        kdf.hash === "SHA-256" &&
+        Number.isInteger(kdf.iterations) &&
+        kdf.iterations > 0 &&
+        kdf.iterations <= MAX_PBKDF2_ITERATIONS &&
+        isBase64(kdf.salt)
+    );
+}
+
+/**
+ * Returns true if a value read from storage or a file has the shape of an
+ * EncryptedPayload, with supported KDF parameters and Base64 fields.
+ */
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+    const payload = value as EncryptedPayload;
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        isKdfParams(payload.kdf) &&
+        isBase64(payload.iv) &&
+        isBase64(payload.ciphertext)
+    );
+}
+
+/**
+ * Creates fresh KDF parameters with a random salt.
+ */
+export function createKdfParams(): KdfParams {
+    return {
+        name: "PBKDF2",
+        hash: "SHA-256",
+        iterations: PBKDF2_ITERATIONS,
+        salt: base64.encode(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+    };
+}
+
+/**
+ * Stretches a password into an AES-GCM key. Intentionally slow.
+ */
+export async function deriveStorageKey(password: string, kdf: KdfParams): Promise<StorageKey> {
+    const passwordKey = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(password),
+        "PBKDF2",
+        false,
+        ["deriveKey"]
+    );
+    const key = await crypto.subtle.deriveKey(
+        {
+            name: "PBKDF2",
+            hash: kdf.hash,
+            iterations: kdf.iterations,
+            salt: fromBase64(kdf.salt),
+        },
+        passwordKey,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+    return { key, kdf };
+}
+
+/**
+ * Serializes and seals a value with the storage key.
+ */
+export async function encryptJson(value: unknown, storageKey: StorageKey): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        storageKey.key,
+        new TextEncoder().encode(JSON.stringify(value))
+    );
+    return {
+        kdf: storageKey.kdf,
+        iv: base64.encode(iv),
+        ciphertext: base64.encode(new Uint8Array(ciphertext)),
+    };
+}
+
+/**
+ * Opens a sealed payload and parses the JSON inside.
+ * 
+ * @throws {IncorrectPasswordError} If authentication fails
+ * @throws {StorageCorruptionError} If the plaintext is not JSON
+ */
+export async function decryptJson<T>(payload: EncryptedPayload, storageKey: StorageKey): Promise<T> {
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: fromBase64(payload.iv) },
+            storageKey.key,
+            fromBase64(payload.ciphertext)
+        );
+    } catch {
+        throw new IncorrectPasswordError();
+    }
+    try {
+        return JSON.parse(new TextDecoder().decode(plaintext));
+    } catch (error) {
+        throw new StorageCorruptionError("The encrypted data does not contain valid JSON.", error);
+    }
+}
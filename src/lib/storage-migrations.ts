@@ -0,0 +1,275 @@
+/**
+ * Migration pipeline for persisted wallet data.
+ * 
+ * Each entry in MIGRATIONS upgrades data from version N to N + 1. Stored
+ * data is run through every step from its recorded version up to
+ * CURRENT_SCHEMA_VERSION, then validated against the current schema.
+ * 
+ * Version history:
+ * - 0: Original single-seed layout, read from the `wallets`, `mnemonics`
+ *      and `chain` keys as `{ wallets, mnemonics, chain }`
+ * - 1: Named vaults, `{ vaults, activeVaultId }`
+ * - 2: Wallets carry a stable `id` and their account `index`; vaults
+ *      record `nextAccountIndex`
+ * - 3: Deleted vaults and wallets are kept in `trash`
+ * - 4: Vaults hold several chains: wallets carry their `chain`, vaults
+ *      list `chains` and keep `nextAccountIndex` per chain
+ * - 5: Opt-in RPC balance lookups in `rpc`, off by default
+ * - 6: Wallets from the original SLIP-10 Ethereum derivation are marked
+ *      with `legacyDerivation` instead of being recognised by their path
+ * 
+ * To change the schema: bump CURRENT_SCHEMA_VERSION, add the step that
+ * produces it, and update validateStoredData.
+ */
+
+import { StorageCorruptionError } from "./storage-schema";
+import { getChainAdapter } from "./chains";
+import { matchPathIndex } from "./derivation-paths";
+
+export const CURRENT_SCHEMA_VERSION = 6;
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+type UnknownObject = Record<string, unknown>;
+
+// Path of the original SLIP-10 Ethereum derivation (see wallet-derivation).
+const LEGACY_ETHEREUM_TEMPLATE = "m/44'/60'/0'/{index}'";
+const ETHEREUM_CHAIN = "60";
+
+function isObject(value: unknown): value is UnknownObject {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Version 1 → 2 for one vault. Indices are read back from each wallet's
+ * path using its own template or any template the chain knows; wallets
+ * whose path fits none keep their position among derived wallets, which
+ * is the index they were derived with before deletions were possible.
+ */
+function addWalletIndexes(vault: unknown): unknown {
+    if (!isObject(vault) || !Array.isArray(vault.wallets)) {
+        return vault;
+    }
+    const adapter = getChainAdapter(String(vault.chain));
+    const chainTemplates = [
+        adapter?.defaultPathTemplate,
+        ...(adapter?.pathTemplates ?? []).map((template) => template.template),
+        ...(adapter?.addressTypes ?? []).map((addressType) => addressType.pathTemplate),
+        LEGACY_ETHEREUM_TEMPLATE,
+    ];
+
+    let position = 0;
+    const wallets = vault.wallets.map((wallet: unknown) => {
+        if (!isObject(wallet)) {
+            return wallet;
+        }
+        if (wallet.source !== undefined) {
+            return { ...wallet, id: crypto.randomUUID() };
+        }
+        const templates = [wallet.pathTemplate, ...chainTemplates].filter(
+            (template): template is string => typeof template === "string"
+        );
+        const matched = templates
+            .map((template) => matchPathIndex(String(wallet.path), template))
+            .find((index) => index !== null);
+        const fallback = position++;
+        return { ...wallet, id: crypto.randomUUID(), index: matched ?? fallback };
+    });
+
+    const indexes = wallets
+        .map((wallet) => (isObject(wallet) ? wallet.index : undefined))
+        .filter((index): index is number => typeof index === "number");
+    return {
+        ...vault,
+        wallets,
+        nextAccountIndex: indexes.length > 0 ? Math.max(...indexes) + 1 : 0,
+    };
+}
+
+/**
+ * Version 3 → 4 for one vault: its single `chain` becomes its only tab
+ * and is copied onto every wallet.
+ */
+function splitVaultChains(vault: unknown): unknown {
+    if (!isObject(vault)) {
+        return vault;
+    }
+    const { chain, ...rest } = vault;
+    return {
+        ...rest,
+        chains: [chain],
+        wallets: Array.isArray(vault.wallets)
+            ? vault.wallets.map((wallet: unknown) => (isObject(wallet) ? { ...wallet, chain } : wallet))
+            : vault.wallets,
+        nextAccountIndex: { [String(chain)]: vault.nextAccountIndex },
+    };
+}
+
+/**
+ * Version 3 → 4 for the trash. Trashed wallets take the chain of their
+ * vault, live or trashed. Items whose vault is gone for good could never
+ * be restored and are dropped.
+ */
+function splitTrashChains(trash: unknown, vaults: unknown): unknown {
+    if (!isObject(trash) || !Array.isArray(trash.items)) {
+        return trash;
+    }
+    const vaultChains = new Map<unknown, unknown>();
+    [
+        ...(Array.isArray(vaults) ? vaults : []),
+        ...trash.items.map((item: unknown) => (isObject(item) ? item.vault : undefined)),
+    ].forEach((vault) => {
+        if (isObject(vault)) {
+            vaultChains.set(vault.id, vault.chain);
+        }
+    });
+
+    const items = trash.items
+        .filter((item: unknown) => !isObject(item) || item.kind !== "wallets" || vaultChains.has(item.vaultId))
+        .map((item: unknown) => {
+            if (!isObject(item)) {
+                return item;
+            }
+            if (item.kind === "vault") {
+                return { ...item, vault: splitVaultChains(item.vault) };
+            }
+            const chain = vaultChains.get(item.vaultId);
+            return {
+                ...item,
+                wallets: Array.isArray(item.wallets)
+                    ? item.wallets.map((wallet: unknown) => (isObject(wallet) ? { ...wallet, chain } : wallet))
+                    : item.wallets,
+            };
+        });
+    return { ...trash, items };
+}
+
+/**
+ * Version 5 → 6 for a list of wallets. The original derivation left wallets
+ * on the legacy path without a `pathTemplate`; wallets derived since carry
+ * their template, including custom ones that happen to use the same path.
+ * It also stored their keys as bare hex, which is rewritten 0x-prefixed like
+ * every other Ethereum key.
+ */
+function markLegacyWallets(wallets: unknown): unknown {
+    if (!Array.isArray(wallets)) {
+        return wallets;
+    }
+    return wallets.map((wallet: unknown) =>
+        isObject(wallet) &&
+        wallet.chain === ETHEREUM_CHAIN &&
+        wallet.source === undefined &&
+        wallet.pathTemplate === undefined &&
+        matchPathIndex(String(wallet.path), LEGACY_ETHEREUM_TEMPLATE) !== null
+            ? {
+                  ...wallet,
+                  privateKey:
+                      typeof wallet.privateKey === "string" && /^[0-9a-fA-F]{64}$/.test(wallet.privateKey)
+                          ? `0x${wallet.privateKey.toLowerCase()}`
+                          : wallet.privateKey,
+                  legacyDerivation: true,
+              }
+            : wallet
+    );
+}
+
+function markVaultLegacyWallets(vault: unknown): unknown {
+    return isObject(vault) ? { ...vault, wallets: markLegacyWallets(vault.wallets) } : vault;
+}
+
+/**
+ * Version 5 → 6 for the trash: wallets of trashed vaults and trashed
+ * wallets are marked like live ones.
+ */
+function markTrashLegacyWallets(trash: unknown): unknown {
+    if (!isObject(trash) || !Array.isArray(trash.items)) {
+        return trash;
+    }
+    return {
+        ...trash,
+        items: trash.items.map((item: unknown) => {
+            if (!isObject(item)) {
+                return item;
+            }
+            return item.kind === "vault"
+                ? { ...item, vault: markVaultLegacyWallets(item.vault) }
+                : { ...item, wallets: markLegacyWallets(item.wallets) };
+        }),
+    };
+}
+
+const MIGRATIONS: Record<number, Migration> = {
+    0: (data) => {
+        const id = crypto.randomUUID();
+        return {
+            vaults: [
+                {
+                    id,
+                    name: "Vault 1",
+                    mnemonic: data.mnemonics,
+                    chain: data.chain,
+                    wallets: data.wallets,
+                    createdAt: Date.now(),
+                },
+            ],
+            activeVaultId: id,
+        };
+    },
+    1: (data) => ({
+        ...data,
+        vaults: Array.isArray(data.vaults) ? data.vaults.map(addWalletIndexes) : data.vaults,
+    }),
+    2: (data) => ({
+        ...data,
+        trash: { items: [], retentionDays: null },
+    }),
+    3: (data) => ({
+        ...data,
+        vaults: Array.isArray(data.vaults) ? data.vaults.map(splitVaultChains) : data.vaults,
+        trash: splitTrashChains(data.trash, data.vaults),
+    }),
+    4: (data) => ({
+        ...data,
+        rpc: { enabled: false, endpoints: {} },
+    }),
+    5: (data) => ({
+        ...data,
+        vaults: Array.isArray(data.vaults) ? data.vaults.map(markVaultLegacyWallets) : data.vaults,
+        trash: markTrashLegacyWallets(data.trash),
+    }),
+};
+
+/**
+ * Upgrades stored data to CURRENT_SCHEMA_VERSION.
+ * 
+ * @param data - Parsed data as stored at fromVersion
+ * @param fromVersion - Schema version the data was written with
+ * @returns Data in the current schema (not yet validated)
+ * @throws {StorageCorruptionError} If the version is unknown or a step fails
+ */
+export function migrateStoredData(data: unknown, fromVersion: number): unknown {
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+        throw new StorageCorruptionError(`Unknown storage version: ${fromVersion}.`);
+    }
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+        throw new StorageCorruptionError(
+            `Storage version ${fromVersion} was written by a newer version of ForgeSphere.`
+        );
+    }
+
+    let migrated = data;
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+        if (typeof migrated !== "object" || migrated === null) {
+            throw new StorageCorruptionError(`Cannot migrate storage from version ${version}.`);
+        }
+        try {
+            migrated = MIGRATIONS[version](migrated as Record<string, unknown>);
+        } catch (error) {
+            throw new StorageCorruptionError(
+                `Cannot migrate storage from version ${version}.`,
+                error
+            );
+        }
+    }
+    return migrated;
+}
@@ -0,0 +1,291 @@
+/**
+ * Schema validation for persisted wallet data.
+ * 
+ * Stored data can be corrupt or hand-edited, so everything read from
+ * localStorage is checked here before it reaches React state.
+ * 
+ * SECURITY: Error messages name the offending field only, never its value,
+ * because values may be mnemonics or private keys.
+ */
+
+import {
+    RpcSettings,
+    Trash,
+    TrashItem,
+    Vault,
+    Wallet,
+    WalletAddress,
+    WALLET_SOURCES,
+    WalletSource,
+} from "./wallet-types";
+import type { StoredWalletData } from "./wallet-storage";
+
+/**
+ * Error thrown when stored data cannot be read: unparseable JSON, an
+ * unknown schema version, a failed migration or a schema violation.
+ */
+export class StorageCorruptionError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = "StorageCorruptionError";
+    }
+}
+
+type UnknownObject = Record<string, unknown>;
+
+function fail(path: string, expected: string): never {
+    throw new StorageCorruptionError(`Invalid stored data: ${path} must be ${expected}.`);
+}
+
+function expectObject(value: unknown, path: string): UnknownObject {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        fail(path, "an object");
+    }
+    return value as UnknownObject;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+        fail(path, "an array");
+    }
+    return value;
+}
+
+function expectString(value: unknown, path: string): string {
+    if (typeof value !== "string") {
+        fail(path, "a string");
+    }
+    return value;
+}
+
+function expectOptionalString(value: unknown, path: string): string | undefined {
+    return value === undefined ? undefined : expectString(value, path);
+}
+
+function expectOptionalBoolean(value: unknown, path: string): boolean | undefined {
+    if (value !== undefined && typeof value !== "boolean") {
+        fail(path, "a boolean");
+    }
+    return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+        fail(path, "a number");
+    }
+    return value;
+}
+
+function expectAccountIndex(value: unknown, path: string): number {
+    if (!Number.isInteger(value) || (value as number) < 0) {
+        fail(path, "a non-negative integer");
+    }
+    return value as number;
+}
+
+function validateWalletAddress(value: unknown, path: string): WalletAddress {
+    const address = expectObject(value, path);
+    return {
+        type: expectString(address.type, `${path}.type`),
+        publicKey: expectString(address.publicKey, `${path}.publicKey`),
+        privateKey: expectString(address.privateKey, `${path}.privateKey`),
+        path: expectString(address.path, `${path}.path`),
+    };
+}
+
+/**
+ * Validates one stored wallet.
+ * 
+ * @throws {StorageCorruptionError} If a field is missing or has the wrong type
+ */
+export function validateWallet(value: unknown, path: string): Wallet {
+    const wallet = expectObject(value, path);
+    const validated: Wallet = {
+        id: expectString(wallet.id, `${path}.id`),
+        chain: expectString(wallet.chain, `${path}.chain`),
+        publicKey: expectString(wallet.publicKey, `${path}.publicKey`),
+        privateKey: expectString(wallet.privateKey, `${path}.privateKey`),
+        path: expectString(wallet.path, `${path}.path`),
+    };
+
+    const pathTemplate = expectOptionalString(wallet.pathTemplate, `${path}.pathTemplate`);
+    if (pathTemplate !== undefined) {
+        validated.pathTemplate = pathTemplate;
+    }
+    if (wallet.index !== undefined) {
+        validated.index = expectAccountIndex(wallet.index, `${path}.index`);
+    }
+    const source = expectOptionalString(wallet.source, `${path}.source`);
+    if (source !== undefined) {
+        if (!(WALLET_SOURCES as readonly string[]).includes(source)) {
+            fail(`${path}.source`, "a known wallet source");
+        }
+        validated.source = source as WalletSource;
+    } else if (validated.index === undefined) {
+        fail(`${path}.index`, "set for derived wallets");
+    }
+    const network = expectOptionalString(wallet.network, `${path}.network`);
+    if (network !== undefined) {
+        validated.network = network;
+    }
+    if (expectOptionalBoolean(wallet.legacyDerivation, `${path}.legacyDerivation`)) {
+        validated.legacyDerivation = true;
+    }
+    if (wallet.addresses !== undefined) {
+        validated.addresses = expectArray(wallet.addresses, `${path}.addresses`).map(
+            (address, i) => validateWalletAddress(address, `${path}.addresses[${i}]`)
+        );
+    }
+    return validated;
+}
+
+/**
+ * Validates one stored vault.
+ * 
+ * @throws {StorageCorruptionError} If a field is missing or has the wrong type
+ */
+export function validateVault(value: unknown, path: string): Vault {
+    const vault = expectObject(value, path);
+    const validated: Vault = {
+        id: expectString(vault.id, `${path}.id`),
+        name: expectString(vault.name, `${path}.name`),
+        mnemonic: expectArray(vault.mnemonic, `${path}.mnemonic`).map((word, i) =>
+            expectString(word, `${path}.mnemonic[${i}]`)
+        ),
+        chains: expectArray(vault.chains, `${path}.chains`).map((chain, i) =>
+            expectString(chain, `${path}.chains[${i}]`)
+        ),
+        wallets: expectArray(vault.wallets, `${path}.wallets`).map((wallet, i) =>
+            validateWallet(wallet, `${path}.wallets[${i}]`)
+        ),
+        nextAccountIndex: Object.fromEntries(
+            Object.entries(expectObject(vault.nextAccountIndex, `${path}.nextAccountIndex`)).map(
+                ([chain, index]) => [
+                    chain,
+                    expectAccountIndex(index, `${path}.nextAccountIndex[${JSON.stringify(chain)}]`),
+                ]
+            )
+        ),
+        createdAt: expectNumber(vault.createdAt, `${path}.createdAt`),
+    };
+    if (new Set(validated.wallets.map((wallet) => wallet.id)).size !== validated.wallets.length) {
+        fail(`${path}.wallets[].id`, "unique");
+    }
+    validated.wallets.forEach((wallet, i) => {
+        if (!validated.chains.includes(wallet.chain)) {
+            fail(`${path}.wallets[${i}].chain`, "one of the vault's chains");
+        }
+    });
+
+    const language = expectOptionalString(vault.language, `${path}.language`);
+    if (language !== undefined) {
+        validated.language = language;
+    }
+    const backupVerified = expectOptionalBoolean(vault.backupVerified, `${path}.backupVerified`);
+    if (backupVerified !== undefined) {
+        validated.backupVerified = backupVerified;
+    }
+    const hasPassphrase = expectOptionalBoolean(vault.hasPassphrase, `${path}.hasPassphrase`);
+    if (hasPassphrase !== undefined) {
+        validated.hasPassphrase = hasPassphrase;
+    }
+    const passphrase = expectOptionalString(vault.passphrase, `${path}.passphrase`);
+    if (passphrase !== undefined) {
+        validated.passphrase = passphrase;
+    }
+    const fingerprint = expectOptionalString(vault.fingerprint, `${path}.fingerprint`);
+    if (fingerprint !== undefined) {
+        validated.fingerprint = fingerprint;
+    }
+    return validated;
+}
+
+function validateTrashItem(value: unknown, path: string): TrashItem {
+    const item = expectObject(value, path);
+    const id = expectString(item.id, `${path}.id`);
+    const deletedAt = expectNumber(item.deletedAt, `${path}.deletedAt`);
+
+    if (item.kind === "vault") {
+        return { kind: "vault", id, deletedAt, vault: validateVault(item.vault, `${path}.vault`) };
+    }
+    if (item.kind === "wallets") {
+        return {
+            kind: "wallets",
+            id,
+            deletedAt,
+            vaultId: expectString(item.vaultId, `${path}.vaultId`),
+            vaultName: expectString(item.vaultName, `${path}.vaultName`),
+            wallets: expectArray(item.wallets, `${path}.wallets`).map((wallet, i) =>
+                validateWallet(wallet, `${path}.wallets[${i}]`)
+            ),
+        };
+    }
+    fail(`${path}.kind`, "a known trash item kind");
+}
+
+/**
+ * Validates the trash of deleted vaults and wallets.
+ * 
+ * @throws {StorageCorruptionError} If an item is malformed
+ */
+export function validateTrash(value: unknown, path: string): Trash {
+    const trash = expectObject(value, path);
+    if (
+        trash.retentionDays !== null &&
+        (!Number.isInteger(trash.retentionDays) || (trash.retentionDays as number) < 1)
+    ) {
+        fail(`${path}.retentionDays`, "null or a positive integer");
+    }
+    return {
+        items: expectArray(trash.items, `${path}.items`).map((item, i) =>
+            validateTrashItem(item, `${path}.items[${i}]`)
+        ),
+        retentionDays: trash.retentionDays as number | null,
+    };
+}
+
+/**
+ * Validates the RPC settings. Endpoints must be keyed by chain id.
+ * 
+ * @throws {StorageCorruptionError} If a field is malformed
+ */
+function validateRpcSettings(value: unknown, path: string): RpcSettings {
+    const rpc = expectObject(value, path);
+    if (typeof rpc.enabled !== "boolean") {
+        fail(`${path}.enabled`, "a boolean");
+    }
+    const endpoints = expectObject(rpc.endpoints, `${path}.endpoints`);
+    return {
+        enabled: rpc.enabled,
+        endpoints: Object.fromEntries(
+            Object.entries(endpoints).map(([chain, url]) => [
+                chain,
+                expectString(url, `${path}.endpoints.${chain}`),
+            ])
+        ),
+    };
+}
+
+/**
+ * Validates data in the current schema version.
+ * 
+ * @throws {StorageCorruptionError} If the data does not match the schema
+ */
+export function validateStoredData(value: unknown): StoredWalletData {
+    const data = expectObject(value, "data");
+    const vaults = expectArray(data.vaults, "data.vaults").map((vault, i) =>
+        validateVault(vault, `data.vaults[${i}]`)
+    );
+    const activeVaultId =
+        data.activeVaultId === null ? null : expectString(data.activeVaultId, "data.activeVaultId");
+
+    if (new Set(vaults.map((vault) => vault.id)).size !== vaults.length) {
+        fail("data.vaults[].id", "unique");
+    }
+    return {
+        vaults,
+        activeVaultId: vaults.some((vault) => vault.id === activeVaultId) ? activeVaultId : null,
+        trash: validateTrash(data.trash, "data.trash"),
+        rpc: validateRpcSettings(data.rpc, "data.rpc"),
+    };
+}
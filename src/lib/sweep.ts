@@ -0,0 +1,287 @@
+/**
+ * Sweeps: moving a wallet's whole native balance to another address, for
+ * key rotation. prepareSweep fetches the chain state through the
+ * configured RPC endpoint, works out the transferable amount after fees
+ * and signs the transfer locally; nothing is sent until submitSweep.
+ *
+ * - Solana: the balance minus the network fees is sent, and empty token
+ *   accounts are closed with their rent going to the destination: up to
+ *   MAX_CLOSES_PER_TRANSACTION in the transfer, the rest in closing
+ *   transactions submitted and confirmed before it. The transfer drains
+ *   the wallet to zero, since a system account may not be left below the
+ *   rent-exempt minimum. Token accounts that still hold tokens are left.
+ * - Ethereum: a 21000-gas EIP-1559 transfer with the median recent tip
+ *   and a max fee of twice the next base fee plus that tip. The value is
+ *   the balance minus gasLimit × max fee; whatever of the max fee is not
+ *   charged stays in the wallet as dust. Only chains whose fee is gas ×
+ *   price are supported: rollups add an L1 data fee a sweep cannot
+ *   account for.
+ *
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material (rule #1): only addresses and
+ *   the signed transaction are sent, through the guarded RPC module
+ * - No console logging of secrets
+ * - Error messages never include key material
+ */
+
+import { ethers } from "ethers";
+import { Wallet } from "./wallet-types";
+import { getChainAdapter } from "./chains";
+import { solanaAdapter } from "./chains/solana";
+import { ethereumAdapter } from "./chains/ethereum";
+import { SignedTransaction, signTokenAccountClosure, signTransfer } from "./transactions";
+import {
+    fetchEthereumAccountState,
+    fetchSolanaAccountState,
+    SolanaTokenAccount,
+    submitTransaction,
+} from "./rpc";
+
+// Solana's base fee per signature; each sweep transaction has one signer.
+const SOLANA_FEE_LAMPORTS = BigInt(5000);
+// CloseAccount instructions per transaction; 20 plus a transfer is about
+// 1030 bytes of Solana's 1232-byte limit.
+const MAX_CLOSES_PER_TRANSACTION = 20;
+// How long submitSweep waits for closing transactions before the transfer.
+const CONFIRMATION_POLL_MS = 2000;
+const CONFIRMATION_POLLS = 20;
+const ETHEREUM_TRANSFER_GAS = BigInt(21000);
+// Mainnet, Sepolia, Holesky, Hoodi and local dev nodes (geth, anvil and
+// hardhat): chains whose fee is only gas × price.
+const GAS_ONLY_CHAIN_IDS = ["1", "11155111", "17000", "560048", "1337", "31337"];
+
+/**
+ * A signed sweep, ready for review and submission.
+ */
+export interface SweepPlan {
+    chain: string;
+    from: string;
+    to: string;
+    amount: string;           // Sent, e.g. "1.2 SOL"
+    fee: string;              // Network fee of all transactions (the most charged on Ethereum), e.g. "0.000005 SOL"
+    closedAccounts: SolanaTokenAccount[]; // Empty token accounts closed (Solana)
+    reclaimedRent?: string;   // Rent of the closed accounts, sent to the destination
+    remainingTokenAccounts: SolanaTokenAccount[]; // Token accounts with balances, left as is
+    transactions: SignedTransaction[]; // Any closing transactions (Solana), then the transfer last
+    balanceBeforeTransfer?: bigint; // Lamports left once the closing transactions landed
+}
+
+/**
+ * A stored wallet offered as a sweep destination.
+ */
+export interface SweepDestination {
+    label: string;            // e.g. "Wallet 2 in Savings"
+    address: string;
+}
+
+/**
+ * Error thrown when a wallet cannot be swept, e.g. it is empty or the
+ * destination is invalid.
+ */
+export class SweepError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SweepError";
+    }
+}
+
+function formatSol(lamports: bigint): string {
+    return `${ethers.formatUnits(lamports, 9)} SOL`;
+}
+
+async function prepareSolanaSweep(
+    wallet: Wallet,
+    to: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<SweepPlan> {
+    const state = await fetchSolanaAccountState(wallet.publicKey, endpoint, knownSecrets);
+    const closedAccounts = state.tokenAccounts.filter((account) => account.isEmpty);
+    const batches: { address: string; programId: string }[][] = [];
+    for (let i = 0; i < closedAccounts.length; i += MAX_CLOSES_PER_TRANSACTION) {
+        batches.push(
+            closedAccounts
+                .slice(i, i + MAX_CLOSES_PER_TRANSACTION)
+                .map(({ address, programId }) => ({ address, programId }))
+        );
+    }
+    // The last batch rides along with the transfer; the others go first in
+    // closing transactions, each paying its own fee from the wallet.
+    const closingBatches = batches.slice(0, -1);
+    const balanceBeforeTransfer =
+        state.lamports - SOLANA_FEE_LAMPORTS * BigInt(closingBatches.length);
+    const fee = SOLANA_FEE_LAMPORTS * BigInt(closingBatches.length + 1);
+    if (balanceBeforeTransfer <= SOLANA_FEE_LAMPORTS) {
+        throw new SweepError("Nothing to sweep: the balance does not cover the network fees.");
+    }
+    const lamports = balanceBeforeTransfer - SOLANA_FEE_LAMPORTS;
+    const reclaimed = closedAccounts.reduce((sum, account) => sum + account.lamports, BigInt(0));
+
+    return {
+        chain: wallet.chain,
+        from: wallet.publicKey,
+        to,
+        amount: formatSol(lamports),
+        fee: formatSol(fee),
+        closedAccounts,
+        reclaimedRent: closedAccounts.length > 0 ? formatSol(reclaimed) : undefined,
+        remainingTokenAccounts: state.tokenAccounts.filter((account) => !account.isEmpty),
+        transactions: [
+            ...closingBatches.map((closeTokenAccounts) =>
+                signTokenAccountClosure(wallet, {
+                    to,
+                    blockhash: state.blockhash,
+                    closeTokenAccounts,
+                })
+            ),
+            signTransfer(wallet, {
+                kind: "solana",
+                to,
+                amount: ethers.formatUnits(lamports, 9),
+                blockhash: state.blockhash,
+                closeTokenAccounts: batches[batches.length - 1],
+            }),
+        ],
+        balanceBeforeTransfer: closingBatches.length > 0 ? balanceBeforeTransfer : undefined,
+    };
+}
+
+async function prepareEthereumSweep(
+    wallet: Wallet,
+    to: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<SweepPlan> {
+    const state = await fetchEthereumAccountState(wallet.publicKey, to, endpoint, knownSecrets);
+    if (state.isDestinationContract) {
+        throw new SweepError("The destination is a contract; sweeps only go to plain addresses.");
+    }
+    if (!GAS_ONLY_CHAIN_IDS.includes(state.chainId.toString())) {
+        throw new SweepError(
+            "Sweeps are only available on Ethereum mainnet, its testnets and local nodes; " +
+                "other chains may charge fees a sweep cannot predict."
+        );
+    }
+    // Twice the next base fee covers six full blocks of base fee increases;
+    // only the actual base fee plus the tip is charged.
+    // The transaction builder needs a tip above zero; idle chains report none.
+    const priorityFee = state.priorityFee > BigInt(0) ? state.priorityFee : BigInt(1);
+    const maxFeePerGas = state.baseFee * BigInt(2) + priorityFee;
+    const fee = maxFeePerGas * ETHEREUM_TRANSFER_GAS;
+    if (state.balance <= fee) {
+        throw new SweepError("Nothing to sweep: the balance does not cover the network fee.");
+    }
+    const value = state.balance - fee;
+
+    return {
+        chain: wallet.chain,
+        from: wallet.publicKey,
+        to: ethers.getAddress(to),
+        amount: `${ethers.formatEther(value)} ETH`,
+        fee: `up to ${ethers.formatEther(fee)} ETH`,
+        closedAccounts: [],
+        remainingTokenAccounts: [],
+        transactions: [
+            signTransfer(wallet, {
+                kind: "ethereum",
+                to,
+                amount: ethers.formatEther(value),
+                chainId: state.chainId.toString(),
+                nonce: state.nonce.toString(),
+                gasLimit: ETHEREUM_TRANSFER_GAS.toString(),
+                maxFeePerGas: ethers.formatUnits(maxFeePerGas, "gwei"),
+                maxPriorityFeePerGas: ethers.formatUnits(priorityFee, "gwei"),
+            }),
+        ],
+    };
+}
+
+/**
+ * Builds and signs a sweep of a wallet's whole balance to an address.
+ * This is the dry run: nothing is submitted.
+ *
+ * @param knownSecrets - Every secret held in memory, for the RPC guard
+ * @throws {SweepError} If the destination is invalid or there is nothing
+ *         to sweep
+ * @throws {RpcError} If the endpoint fails
+ * @throws {RpcGuardError} If a request body may carry key material
+ * @throws {TransactionBuildError} If the transfer cannot be built
+ */
+export async function prepareSweep(
+    wallet: Wallet,
+    to: string,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<SweepPlan> {
+    const destination = to.trim();
+    if (!getChainAdapter(wallet.chain)?.isValidAddress(destination)) {
+        throw new SweepError("The destination is not a valid address on this chain.");
+    }
+    if (destination.toLowerCase() === wallet.publicKey.toLowerCase()) {
+        throw new SweepError("The destination is the wallet being swept.");
+    }
+    if (wallet.chain === solanaAdapter.id) {
+        return prepareSolanaSweep(wallet, destination, endpoint, knownSecrets);
+    }
+    if (wallet.chain === ethereumAdapter.id) {
+        return prepareEthereumSweep(wallet, destination, endpoint, knownSecrets);
+    }
+    throw new SweepError("Sweeps are not available for this chain.");
+}
+
+/**
+ * Waits until the closing transactions of a Solana sweep have landed, i.e.
+ * the wallet holds exactly what the transfer expects.
+ *
+ * @throws {SweepError} If the balance changed otherwise or they did not land
+ *         in time
+ */
+async function waitForBalanceBeforeTransfer(
+    plan: SweepPlan,
+    expected: bigint,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<void> {
+    for (let attempt = 0; attempt < CONFIRMATION_POLLS; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_POLL_MS));
+        const { lamports } = await fetchSolanaAccountState(plan.from, endpoint, knownSecrets);
+        if (lamports === expected) {
+            return;
+        }
+        if (lamports < expected) {
+            break;
+        }
+    }
+    throw new SweepError(
+        "The token accounts were closed, but the balance did not settle as expected; " +
+            "nothing was transferred. Preview the sweep again."
+    );
+}
+
+/**
+ * Broadcasts a prepared sweep in plan order. On Solana, the transfer is
+ * only sent once the closing transactions before it have landed.
+ *
+ * @returns The transaction signatures (Solana) or hash (Ethereum)
+ * @throws {RpcError} If the node rejects a transaction, e.g. because a
+ *         Solana blockhash expired; the transfer is then not sent
+ * @throws {SweepError} If the closing transactions did not land as expected
+ * @throws {RpcGuardError} If the request may carry key material
+ */
+export async function submitSweep(
+    plan: SweepPlan,
+    endpoint: string,
+    knownSecrets: string[]
+): Promise<string[]> {
+    const ids: string[] = [];
+    const closings = plan.transactions.slice(0, -1);
+    for (const transaction of closings) {
+        ids.push(await submitTransaction(plan.chain, transaction.serialized, endpoint, knownSecrets));
+    }
+    if (closings.length > 0 && plan.balanceBeforeTransfer !== undefined) {
+        await waitForBalanceBeforeTransfer(plan, plan.balanceBeforeTransfer, endpoint, knownSecrets);
+    }
+    const transfer = plan.transactions[plan.transactions.length - 1];
+    ids.push(await submitTransaction(plan.chain, transfer.serialized, endpoint, knownSecrets));
+    return ids;
+}
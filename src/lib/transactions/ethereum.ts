@@ -0,0 +1,217 @@
+import { ethers } from "ethers";
+import { ethereumAdapter } from "../chains/ethereum";
+import {
+    DecodedInstruction,
+    InspectedTransaction,
+    parseAmount,
+    parseInteger,
+    SignedTransaction,
+    TransactionBuildError,
+    TransactionDecodeError,
+    TransactionField,
+} from "./transaction";
+
+const ETH_DECIMALS = 18;
+const GWEI_DECIMALS = 9;
+const TRANSFER_GAS = BigInt(21000);
+
+/**
+ * An EIP-1559 (type 2) ETH transfer from the signing wallet. Nothing is
+ * looked up: nonce, gas and chain id come from the user. Fees are in gwei.
+ */
+export interface EthereumTransferInput {
+    kind: "ethereum";
+    to: string;
+    amount: string;           // ETH
+    chainId: string;
+    nonce: string;
+    gasLimit: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string;
+}
+
+/**
+ * Builds and signs an EIP-1559 ETH transfer, without touching the network.
+ * 
+ * @param privateKey - The wallet's 32-byte secp256k1 private key
+ * @returns The raw transaction as 0x-prefixed hex, identified by its hash
+ * @throws {TransactionBuildError} If a field is invalid
+ */
+export function signEthereumTransfer(
+    privateKey: Uint8Array,
+    input: EthereumTransferInput
+): SignedTransaction {
+    if (!ethers.isAddress(input.to.trim())) {
+        throw new TransactionBuildError("Recipient is not a valid Ethereum address.");
+    }
+    const chainId = parseInteger(input.chainId, "Chain ID");
+    if (chainId === BigInt(0)) {
+        throw new TransactionBuildError("Chain ID must be greater than zero.");
+    }
+    const gasLimit = parseInteger(input.gasLimit, "Gas limit");
+    if (gasLimit < TRANSFER_GAS) {
+        throw new TransactionBuildError(`Gas limit must be at least ${TRANSFER_GAS}.`);
+    }
+    const maxFeePerGas = parseAmount(input.maxFeePerGas, GWEI_DECIMALS, "Max fee");
+    const maxPriorityFeePerGas = parseAmount(
+        input.maxPriorityFeePerGas,
+        GWEI_DECIMALS,
+        "Priority fee"
+    );
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+        throw new TransactionBuildError("Priority fee cannot exceed the max fee.");
+    }
+
+    const transaction = ethers.Transaction.from({
+        type: 2,
+        to: ethers.getAddress(input.to.trim()),
+        value: parseAmount(input.amount, ETH_DECIMALS, "Amount"),
+        chainId,
+        nonce: Number(parseInteger(input.nonce, "Nonce")),
+        gasLimit,
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+    });
+    transaction.signature = new ethers.SigningKey(ethers.hexlify(privateKey)).sign(
+        transaction.unsignedHash
+    );
+    return {
+        serialized: transaction.serialized,
+        encoding: "hex",
+        id: transaction.hash as string,
+    };
+}
+
+// Common token functions, decoded by selector in the inspector.
+const KNOWN_FUNCTIONS = new ethers.Interface([
+    "function transfer(address to, uint256 amount)",
+    "function approve(address spender, uint256 amount)",
+    "function transferFrom(address from, address to, uint256 amount)",
+    "function safeTransferFrom(address from, address to, uint256 tokenId)",
+    "function setApprovalForAll(address operator, bool approved)",
+    "function deposit()",
+    "function withdraw(uint256 amount)",
+]);
+
+const TRANSACTION_FORMATS: Record<number, string> = {
+    0: "Legacy",
+    1: "EIP-2930",
+    2: "EIP-1559",
+};
+
+function formatGwei(wei: bigint): string {
+    return `${ethers.formatUnits(wei, "gwei")} gwei`;
+}
+
+function decodeTransaction(input: string): ethers.Transaction {
+    const trimmed = input.replace(/\s+/g, "");
+    let transaction: ethers.Transaction;
+    try {
+        transaction = ethers.Transaction.from(trimmed.startsWith("0x") ? trimmed : `0x${trimmed}`);
+    } catch {
+        throw new TransactionDecodeError("This is not an RLP-encoded Ethereum transaction.");
+    }
+    if (transaction.type === null || !TRANSACTION_FORMATS[transaction.type]) {
+        throw new TransactionDecodeError("Only legacy, EIP-2930 and EIP-1559 transactions are supported.");
+    }
+    return transaction;
+}
+
+/**
+ * Decodes calldata against KNOWN_FUNCTIONS, or shows its selector.
+ */
+function describeCall(transaction: ethers.Transaction): DecodedInstruction {
+    const to = transaction.to ?? "";
+    const base = {
+        program: to ? "Contract call" : "Contract creation",
+        programId: to,
+        accounts: [],
+    };
+    const call = to ? KNOWN_FUNCTIONS.parseTransaction({ data: transaction.data }) : null;
+    if (!call) {
+        return {
+            ...base,
+            name: to ? `Unknown function ${transaction.data.slice(0, 10)}` : "Deploy",
+            fields: [
+                { label: "Selector", value: transaction.data.slice(0, 10) },
+                { label: "Calldata", value: transaction.data },
+            ],
+        };
+    }
+    return {
+        ...base,
+        name: call.signature,
+        fields: [
+            { label: "Selector", value: call.selector },
+            ...call.fragment.inputs.map((param, i) => ({
+                label: `${param.name} (${param.type})`,
+                value: String(call.args[i]),
+            })),
+        ],
+    };
+}
+
+/**
+ * Decodes a hex RLP Ethereum transaction (legacy, EIP-2930 or EIP-1559).
+ * Unsigned transactions do not name a sender, so any Ethereum key can
+ * sign them.
+ * 
+ * @throws {TransactionDecodeError} If the input is not a supported transaction
+ */
+export function inspectEthereumTransaction(input: string): InspectedTransaction {
+    const transaction = decodeTransaction(input);
+    const fees: TransactionField[] =
+        transaction.type === 2
+            ? [
+                { label: "Max fee", value: formatGwei(transaction.maxFeePerGas ?? BigInt(0)) },
+                { label: "Priority fee", value: formatGwei(transaction.maxPriorityFeePerGas ?? BigInt(0)) },
+            ]
+            : [{ label: "Gas price", value: formatGwei(transaction.gasPrice ?? BigInt(0)) }];
+    const from = transaction.from;
+
+    return {
+        chain: ethereumAdapter.id,
+        format: TRANSACTION_FORMATS[transaction.type as number],
+        fields: [
+            {
+                label: "Chain ID",
+                value: transaction.chainId === BigInt(0)
+                    ? "none (valid on every chain)"
+                    : String(transaction.chainId),
+            },
+            { label: "To", value: transaction.to ?? "none (contract creation)" },
+            {
+                label: "Value",
+                value: `${ethers.formatEther(transaction.value)} ETH (${transaction.value} wei)`,
+            },
+            { label: "Nonce", value: String(transaction.nonce) },
+            { label: "Gas limit", value: String(transaction.gasLimit) },
+            ...fees,
+            ...(from ? [{ label: "Signed by", value: from }] : []),
+        ],
+        instructions: transaction.data !== "0x" ? [describeCall(transaction)] : [],
+        signers: from ? [from] : [],
+        signed: from ? [from] : [],
+    };
+}
+
+/**
+ * Signs an unsigned hex RLP Ethereum transaction as is.
+ * 
+ * @param privateKey - The wallet's 32-byte secp256k1 private key
+ * @throws {TransactionBuildError} If the transaction is already signed
+ */
+export function signEthereumTransaction(input: string, privateKey: Uint8Array): SignedTransaction {
+    const transaction = decodeTransaction(input);
+    if (transaction.signature) {
+        throw new TransactionBuildError("This transaction is already signed.");
+    }
+    transaction.signature = new ethers.SigningKey(ethers.hexlify(privateKey)).sign(
+        transaction.unsignedHash
+    );
+    return {
+        serialized: transaction.serialized,
+        encoding: "hex",
+        id: transaction.hash as string,
+    };
+}
@@ -0,0 +1,146 @@
+/**
+ * Offline transaction building, inspection and signing for air-gapped use.
+ * 
+ * Every input (blockhash or nonce, gas, chain id) is supplied by the user;
+ * nothing here touches the network. Transactions built by other tools can
+ * be decoded for review and signed as they are. The signed transaction is
+ * handed back for broadcasting from another machine.
+ * 
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material
+ * - No console logging of secrets
+ * - Error messages never include key material
+ */
+
+import { Wallet } from "../wallet-types";
+import { getChainAdapter } from "../chains";
+import { solanaAdapter } from "../chains/solana";
+import { ethereumAdapter } from "../chains/ethereum";
+import {
+    inspectSolanaTransaction,
+    signSolanaAccountClosure,
+    signSolanaTransaction,
+    signSolanaTransfer,
+    SolanaCloseAccountsInput,
+    SolanaTransferInput,
+} from "./solana";
+import {
+    EthereumTransferInput,
+    inspectEthereumTransaction,
+    signEthereumTransaction,
+    signEthereumTransfer,
+} from "./ethereum";
+import { InspectedTransaction, SignedTransaction, TransactionBuildError } from "./transaction";
+
+export type {
+    DecodedInstruction,
+    InspectedTransaction,
+    SignedTransaction,
+    TransactionField,
+} from "./transaction";
+export type {
+    SolanaCloseAccountsInput,
+    SolanaTokenAccountRef,
+    SolanaTransferInput,
+} from "./solana";
+export type { EthereumTransferInput } from "./ethereum";
+export { TransactionBuildError, TransactionDecodeError } from "./transaction";
+
+export type TransferInput = SolanaTransferInput | EthereumTransferInput;
+
+// Transfer kind for each chain adapter id that supports transfers.
+const TRANSFER_KINDS: Record<string, TransferInput["kind"]> = {
+    [solanaAdapter.id]: "solana",
+    [ethereumAdapter.id]: "ethereum",
+};
+
+/**
+ * Returns which transfer form a chain uses, or undefined if the chain
+ * has no transaction builder.
+ */
+export function getTransferKind(chain: string): TransferInput["kind"] | undefined {
+    return TRANSFER_KINDS[chain];
+}
+
+/**
+ * Builds and signs a transfer from a wallet with its own key.
+ * 
+ * @throws {TransactionBuildError} If a field is invalid or the input does
+ *         not match the wallet's chain
+ */
+export function signTransfer(wallet: Wallet, input: TransferInput): SignedTransaction {
+    const adapter = getChainAdapter(wallet.chain);
+    if (!adapter?.decodePrivateKey || getTransferKind(wallet.chain) !== input.kind) {
+        throw new TransactionBuildError("This wallet cannot sign this transaction.");
+    }
+    const privateKey = adapter.decodePrivateKey(wallet.privateKey);
+    return input.kind === "solana"
+        ? signSolanaTransfer(privateKey, input)
+        : signEthereumTransfer(privateKey, input);
+}
+
+/**
+ * Signs a transaction closing empty token accounts of a Solana wallet.
+ *
+ * @throws {TransactionBuildError} If the wallet is not a Solana wallet or a
+ *         field is invalid
+ */
+export function signTokenAccountClosure(
+    wallet: Wallet,
+    input: SolanaCloseAccountsInput
+): SignedTransaction {
+    const adapter = getChainAdapter(wallet.chain);
+    if (!adapter?.decodePrivateKey || wallet.chain !== solanaAdapter.id) {
+        throw new TransactionBuildError("This wallet cannot sign this transaction.");
+    }
+    return signSolanaAccountClosure(adapter.decodePrivateKey(wallet.privateKey), input);
+}
+
+/**
+ * Hex (with or without 0x) is an Ethereum transaction; anything else is
+ * read as a Base64 Solana transaction.
+ */
+function isHexTransaction(input: string): boolean {
+    return /^(0x)?[0-9a-fA-F]+$/.test(input.replace(/\s+/g, ""));
+}
+
+/**
+ * Decodes a transaction built elsewhere: a Base64 Solana transaction
+ * (legacy or version 0) or a hex RLP Ethereum transaction.
+ * 
+ * @throws {TransactionDecodeError} If the input is neither
+ */
+export function inspectTransaction(input: string): InspectedTransaction {
+    return isHexTransaction(input)
+        ? inspectEthereumTransaction(input)
+        : inspectSolanaTransaction(input);
+}
+
+/**
+ * Signs a transaction from inspectTransaction with the given wallets,
+ * all of the transaction's chain. Solana transactions take any number of
+ * required signers; Ethereum transactions take exactly one wallet.
+ * 
+ * @throws {TransactionBuildError} If a wallet cannot sign the transaction
+ * @throws {TransactionDecodeError} If the input is not a transaction
+ */
+export function signInspectedTransaction(input: string, wallets: Wallet[]): SignedTransaction {
+    const { chain } = inspectTransaction(input);
+    const adapter = getChainAdapter(chain);
+    if (
+        !adapter?.decodePrivateKey ||
+        wallets.length === 0 ||
+        wallets.some((wallet) => wallet.chain !== chain)
+    ) {
+        throw new TransactionBuildError("Pick wallets of the transaction's chain to sign with.");
+    }
+    const decodePrivateKey = adapter.decodePrivateKey;
+    const privateKeys = wallets.map((wallet) => decodePrivateKey(wallet.privateKey));
+    if (chain === solanaAdapter.id) {
+        return signSolanaTransaction(input, privateKeys);
+    }
+    if (privateKeys.length !== 1) {
+        throw new TransactionBuildError("An Ethereum transaction is signed by one wallet.");
+    }
+    return signEthereumTransaction(input, privateKeys[0]);
+}
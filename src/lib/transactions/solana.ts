@@ -0,0 +1,472 @@
+import {
+    ComputeBudgetProgram,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import bs58 from "bs58";
+import { base64 } from "@scure/base";
+import { ethers } from "ethers";
+import { solanaAdapter } from "../chains/solana";
+import {
+    DecodedInstruction,
+    InspectedTransaction,
+    parseAmount,
+    SignedTransaction,
+    TransactionBuildError,
+    TransactionDecodeError,
+    TransactionField,
+} from "./transaction";
+
+const SOL_DECIMALS = 9;
+
+const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+// Token program instruction index of CloseAccount (same in Token-2022).
+const TOKEN_CLOSE_ACCOUNT = 9;
+
+/**
+ * A SOL transfer from the signing wallet. Without a nonce account,
+ * `blockhash` is a recent blockhash and the transaction expires after
+ * about a minute; with one, it is the nonce account's stored nonce and the
+ * transaction stays valid until the nonce is advanced. The wallet must be
+ * the nonce account's authority.
+ *
+ * Empty token accounts of the wallet listed in closeTokenAccounts are
+ * closed in the same transaction, with their rent going to the recipient.
+ */
+export interface SolanaTransferInput {
+    kind: "solana";
+    to: string;
+    amount: string;           // SOL
+    blockhash: string;
+    nonceAccount?: string;
+    closeTokenAccounts?: SolanaTokenAccountRef[];
+}
+
+/**
+ * An empty Token or Token-2022 account owned by the signing wallet.
+ */
+export interface SolanaTokenAccountRef {
+    address: string;
+    programId: string;
+}
+
+/**
+ * Closes empty token accounts of the signing wallet, with their rent going
+ * to `to`, without a transfer. Used when the accounts do not fit into one
+ * transfer transaction.
+ */
+export interface SolanaCloseAccountsInput {
+    to: string;
+    blockhash: string;        // Recent blockhash
+    closeTokenAccounts: SolanaTokenAccountRef[];
+}
+
+function parsePublicKey(input: string, field: string): PublicKey {
+    try {
+        return new PublicKey(input.trim());
+    } catch {
+        throw new TransactionBuildError(`${field} is not a valid Solana address.`);
+    }
+}
+
+function parseBlockhash(input: string, field: string): string {
+    const trimmed = input.trim();
+    let bytes: Uint8Array;
+    try {
+        bytes = bs58.decode(trimmed);
+    } catch {
+        throw new TransactionBuildError(`${field} must be a Base58 hash.`);
+    }
+    if (bytes.length !== 32) {
+        throw new TransactionBuildError(`${field} must be a 32-byte hash.`);
+    }
+    return trimmed;
+}
+
+function closeAccountInstruction(
+    account: SolanaTokenAccountRef,
+    to: PublicKey,
+    owner: PublicKey
+): TransactionInstruction {
+    const programId = account.programId.trim();
+    if (programId !== TOKEN_PROGRAM_ID && programId !== TOKEN_2022_PROGRAM_ID) {
+        throw new TransactionBuildError("Only Token and Token-2022 accounts can be closed.");
+    }
+    return new TransactionInstruction({
+        programId: new PublicKey(programId),
+        keys: [
+            { pubkey: parsePublicKey(account.address, "Token account"), isSigner: false, isWritable: true },
+            { pubkey: to, isSigner: false, isWritable: true },
+            { pubkey: owner, isSigner: true, isWritable: false },
+        ],
+        data: Buffer.from([TOKEN_CLOSE_ACCOUNT]),
+    });
+}
+
+/**
+ * Signs a built transaction with its fee payer.
+ *
+ * @throws {TransactionBuildError} If it does not fit into a packet
+ */
+function signLegacyTransaction(transaction: Transaction, keypair: Keypair): SignedTransaction {
+    transaction.sign(keypair);
+
+    const signature = transaction.signature;
+    if (!signature) {
+        throw new TransactionBuildError("The transaction could not be signed.");
+    }
+    let serialized: Buffer;
+    try {
+        serialized = transaction.serialize();
+    } catch {
+        throw new TransactionBuildError(
+            "The transaction is larger than Solana allows; close fewer token accounts at once."
+        );
+    }
+    return {
+        serialized: serialized.toString("base64"),
+        encoding: "base64",
+        id: bs58.encode(signature),
+    };
+}
+
+/**
+ * Builds and signs a SOL transfer, without touching the network.
+ * 
+ * @param seed - The wallet's 32-byte ed25519 seed
+ * @returns The transaction as Base64, identified by its signature
+ * @throws {TransactionBuildError} If a field is invalid
+ */
+export function signSolanaTransfer(seed: Uint8Array, input: SolanaTransferInput): SignedTransaction {
+    const keypair = Keypair.fromSeed(seed);
+    const to = parsePublicKey(input.to, "Recipient");
+    const lamports = parseAmount(input.amount, SOL_DECIMALS, "Amount");
+
+    const transaction = new Transaction();
+    transaction.feePayer = keypair.publicKey;
+    if (input.nonceAccount?.trim()) {
+        transaction.recentBlockhash = parseBlockhash(input.blockhash, "Nonce");
+        transaction.add(
+            SystemProgram.nonceAdvance({
+                noncePubkey: parsePublicKey(input.nonceAccount, "Nonce account"),
+                authorizedPubkey: keypair.publicKey,
+            })
+        );
+    } else {
+        transaction.recentBlockhash = parseBlockhash(input.blockhash, "Recent blockhash");
+    }
+    for (const account of input.closeTokenAccounts ?? []) {
+        transaction.add(closeAccountInstruction(account, to, keypair.publicKey));
+    }
+    transaction.add(
+        SystemProgram.transfer({ fromPubkey: keypair.publicKey, toPubkey: to, lamports })
+    );
+    return signLegacyTransaction(transaction, keypair);
+}
+
+/**
+ * Builds and signs a transaction that only closes empty token accounts.
+ *
+ * @param seed - The wallet's 32-byte ed25519 seed
+ * @throws {TransactionBuildError} If a field is invalid or there are too
+ *         many accounts for one transaction
+ */
+export function signSolanaAccountClosure(
+    seed: Uint8Array,
+    input: SolanaCloseAccountsInput
+): SignedTransaction {
+    const keypair = Keypair.fromSeed(seed);
+    const to = parsePublicKey(input.to, "Recipient");
+    if (input.closeTokenAccounts.length === 0) {
+        throw new TransactionBuildError("No token accounts to close.");
+    }
+
+    const transaction = new Transaction();
+    transaction.feePayer = keypair.publicKey;
+    transaction.recentBlockhash = parseBlockhash(input.blockhash, "Recent blockhash");
+    for (const account of input.closeTokenAccounts) {
+        transaction.add(closeAccountInstruction(account, to, keypair.publicKey));
+    }
+    return signLegacyTransaction(transaction, keypair);
+}
+
+/**
+ * What a known instruction does: its name, account roles in order, and
+ * fields read from its data.
+ */
+interface InstructionLayout {
+    name: string;
+    accounts?: string[];
+    decode?: (data: DataView) => TransactionField[];
+}
+
+function formatSol(lamports: bigint): string {
+    return `${ethers.formatUnits(lamports, SOL_DECIMALS)} SOL (${lamports} lamports)`;
+}
+
+function readPublicKey(data: DataView, offset: number): string {
+    return bs58.encode(new Uint8Array(data.buffer, data.byteOffset + offset, 32));
+}
+
+// System program instructions, by u32 index.
+const SYSTEM_INSTRUCTIONS: Record<number, InstructionLayout> = {
+    0: {
+        name: "Create account",
+        accounts: ["Funding account", "New account"],
+        decode: (data) => [
+            { label: "Lamports", value: formatSol(data.getBigUint64(4, true)) },
+            { label: "Space", value: `${data.getBigUint64(12, true)} bytes` },
+            { label: "Owner program", value: readPublicKey(data, 20) },
+        ],
+    },
+    1: {
+        name: "Assign",
+        accounts: ["Account"],
+        decode: (data) => [{ label: "Owner program", value: readPublicKey(data, 4) }],
+    },
+    2: {
+        name: "Transfer",
+        accounts: ["From", "To"],
+        decode: (data) => [{ label: "Amount", value: formatSol(data.getBigUint64(4, true)) }],
+    },
+    4: {
+        name: "Advance nonce",
+        accounts: ["Nonce account", "Recent blockhashes sysvar", "Nonce authority"],
+    },
+    8: {
+        name: "Allocate",
+        accounts: ["Account"],
+        decode: (data) => [{ label: "Space", value: `${data.getBigUint64(4, true)} bytes` }],
+    },
+};
+
+// Compute budget program instructions, by u8 discriminator.
+const COMPUTE_BUDGET_INSTRUCTIONS: Record<number, InstructionLayout> = {
+    2: {
+        name: "Set compute unit limit",
+        decode: (data) => [{ label: "Units", value: String(data.getUint32(1, true)) }],
+    },
+    3: {
+        name: "Set compute unit price",
+        decode: (data) => [
+            { label: "Price", value: `${data.getBigUint64(1, true)} micro-lamports per unit` },
+        ],
+    },
+};
+
+// SPL Token (and Token-2022) instructions, by u8 discriminator. Amounts
+// are in the mint's base units.
+const TOKEN_INSTRUCTIONS: Record<number, InstructionLayout> = {
+    3: {
+        name: "Transfer",
+        accounts: ["Source", "Destination", "Owner"],
+        decode: (data) => [{ label: "Amount", value: `${data.getBigUint64(1, true)} base units` }],
+    },
+    4: {
+        name: "Approve",
+        accounts: ["Source", "Delegate", "Owner"],
+        decode: (data) => [{ label: "Amount", value: `${data.getBigUint64(1, true)} base units` }],
+    },
+    9: {
+        name: "Close account",
+        accounts: ["Account", "Destination", "Owner"],
+    },
+    12: {
+        name: "Transfer checked",
+        accounts: ["Source", "Mint", "Destination", "Owner"],
+        decode: (data) => [
+            {
+                label: "Amount",
+                value: ethers.formatUnits(data.getBigUint64(1, true), data.getUint8(9)),
+            },
+        ],
+    },
+    13: {
+        name: "Approve checked",
+        accounts: ["Source", "Mint", "Delegate", "Owner"],
+        decode: (data) => [
+            {
+                label: "Amount",
+                value: ethers.formatUnits(data.getBigUint64(1, true), data.getUint8(9)),
+            },
+        ],
+    },
+};
+
+// Known programs: display name and how to find an instruction's layout.
+const PROGRAMS: Record<string, { name: string; getLayout?: (data: DataView) => InstructionLayout | undefined }> = {
+    [SystemProgram.programId.toBase58()]: {
+        name: "System Program",
+        getLayout: (data) => SYSTEM_INSTRUCTIONS[data.getUint32(0, true)],
+    },
+    [ComputeBudgetProgram.programId.toBase58()]: {
+        name: "Compute Budget",
+        getLayout: (data) => COMPUTE_BUDGET_INSTRUCTIONS[data.getUint8(0)],
+    },
+    [TOKEN_PROGRAM_ID]: {
+        name: "Token Program",
+        getLayout: (data) => TOKEN_INSTRUCTIONS[data.getUint8(0)],
+    },
+    [TOKEN_2022_PROGRAM_ID]: {
+        name: "Token-2022",
+        getLayout: (data) => TOKEN_INSTRUCTIONS[data.getUint8(0)],
+    },
+    ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: {
+        name: "Associated Token Account",
+        getLayout: (data) => ({
+            name: data.byteLength > 0 && data.getUint8(0) === 1 ? "Create (idempotent)" : "Create",
+            accounts: ["Funding account", "Token account", "Wallet", "Mint"],
+        }),
+    },
+    MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr: { name: "Memo" },
+    Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo: { name: "Memo (v1)" },
+};
+
+/**
+ * Decodes one instruction's data. Data that does not fit the layout (a
+ * newer or malformed instruction) falls back to raw hex.
+ */
+function describeInstructionData(
+    programId: string,
+    data: Uint8Array
+): { name: string; accountNames: string[]; fields: TransactionField[] } {
+    const program = PROGRAMS[programId];
+    if (program?.name.startsWith("Memo")) {
+        return {
+            name: "Memo",
+            accountNames: [],
+            fields: [{ label: "Text", value: new TextDecoder().decode(data) }],
+        };
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    try {
+        const layout = program?.getLayout?.(view);
+        if (layout) {
+            return {
+                name: layout.name,
+                accountNames: layout.accounts ?? [],
+                fields: layout.decode?.(view) ?? [],
+            };
+        }
+    } catch {
+        // RangeError: shorter than the layout
+    }
+    return {
+        name: program ? "Unknown instruction" : "Instruction",
+        accountNames: [],
+        fields: data.length > 0 ? [{ label: "Data", value: ethers.hexlify(data) }] : [],
+    };
+}
+
+function decodeTransactionBytes(input: string): VersionedTransaction {
+    let bytes: Uint8Array;
+    try {
+        bytes = base64.decode(input.replace(/\s+/g, ""));
+    } catch {
+        throw new TransactionDecodeError("Expected a Base64 Solana transaction or hex Ethereum transaction.");
+    }
+    try {
+        return VersionedTransaction.deserialize(bytes);
+    } catch {
+        throw new TransactionDecodeError("This is not a Solana transaction.");
+    }
+}
+
+function hasSignature(signature: Uint8Array): boolean {
+    return signature.some((byte) => byte !== 0);
+}
+
+/**
+ * Decodes a Base64 Solana transaction (legacy or version 0), signed or
+ * not. Accounts loaded from address lookup tables cannot be resolved
+ * offline and are shown as table and index.
+ * 
+ * @throws {TransactionDecodeError} If the input is not a Solana transaction
+ */
+export function inspectSolanaTransaction(input: string): InspectedTransaction {
+    const transaction = decodeTransactionBytes(input);
+    const { message } = transaction;
+    const staticKeys = message.staticAccountKeys.map((key) => key.toBase58());
+    const lookups = message.addressTableLookups;
+    // Loaded addresses follow the static keys: all writable, then all readonly.
+    const loadedKeys = [
+        ...lookups.flatMap((lookup) =>
+            lookup.writableIndexes.map((i) => `${lookup.accountKey.toBase58()} #${i} (lookup table)`)
+        ),
+        ...lookups.flatMap((lookup) =>
+            lookup.readonlyIndexes.map((i) => `${lookup.accountKey.toBase58()} #${i} (lookup table)`)
+        ),
+    ];
+    const getKey = (index: number) => staticKeys[index] ?? loadedKeys[index - staticKeys.length] ?? "?";
+    const signerCount = message.header.numRequiredSignatures;
+    const signers = staticKeys.slice(0, signerCount);
+
+    const instructions: DecodedInstruction[] = message.compiledInstructions.map((instruction) => {
+        const programId = getKey(instruction.programIdIndex);
+        const { name, accountNames, fields } = describeInstructionData(programId, instruction.data);
+        return {
+            program: PROGRAMS[programId]?.name ?? programId,
+            programId,
+            name,
+            fields,
+            accounts: instruction.accountKeyIndexes.map((index, i) => {
+                const roles = [
+                    index < signerCount ? "signer" : "",
+                    message.isAccountWritable(index) ? "writable" : "",
+                ].filter(Boolean);
+                return {
+                    label: [accountNames[i] ?? `Account ${i + 1}`, ...roles].join(" · "),
+                    value: getKey(index),
+                };
+            }),
+        };
+    });
+
+    return {
+        chain: solanaAdapter.id,
+        format: message.version === "legacy" ? "Legacy" : `Version ${message.version}`,
+        fields: [
+            { label: "Fee payer", value: signers[0] ?? "none" },
+            { label: "Blockhash or nonce", value: message.recentBlockhash },
+            { label: "Signatures", value: `${transaction.signatures.filter(hasSignature).length} of ${signerCount}` },
+            ...(lookups.length > 0
+                ? [{ label: "Lookup tables", value: lookups.map((l) => l.accountKey.toBase58()).join(", ") }]
+                : []),
+        ],
+        instructions,
+        signers,
+        signed: signers.filter((_, i) => hasSignature(transaction.signatures[i])),
+    };
+}
+
+/**
+ * Adds signatures to a Base64 Solana transaction. Existing signatures are
+ * kept, so the result can be passed on to other signers.
+ * 
+ * @param seeds - 32-byte ed25519 seeds of required signers
+ * @throws {TransactionBuildError} If a key is not a required signer
+ */
+export function signSolanaTransaction(input: string, seeds: Uint8Array[]): SignedTransaction {
+    const transaction = decodeTransactionBytes(input);
+    const signers = transaction.message.staticAccountKeys
+        .slice(0, transaction.message.header.numRequiredSignatures);
+    const keypairs = seeds.map((seed) => Keypair.fromSeed(seed));
+    keypairs.forEach((keypair) => {
+        if (!signers.some((signer) => signer.equals(keypair.publicKey))) {
+            throw new TransactionBuildError(
+                `${keypair.publicKey.toBase58()} is not a signer of this transaction.`
+            );
+        }
+    });
+    transaction.sign(keypairs);
+    return {
+        serialized: base64.encode(transaction.serialize()),
+        encoding: "base64",
+        id: bs58.encode(transaction.signatures[0]),
+    };
+}
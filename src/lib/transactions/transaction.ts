@@ -0,0 +1,103 @@
+import { ethers } from "ethers";
+
+/**
+ * Error thrown when transaction fields are missing or malformed.
+ * 
+ * SECURITY: Messages name the offending field, never key material.
+ */
+export class TransactionBuildError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TransactionBuildError";
+    }
+}
+
+/**
+ * Error thrown when pasted data is not a supported transaction.
+ */
+export class TransactionDecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TransactionDecodeError";
+    }
+}
+
+/**
+ * A labelled value of a decoded transaction, formatted for display.
+ */
+export interface TransactionField {
+    label: string;
+    value: string;
+}
+
+/**
+ * A Solana instruction or an Ethereum contract call, decoded as far as
+ * the program or function is known.
+ */
+export interface DecodedInstruction {
+    program: string;          // Program or contract name, or its address
+    programId: string;
+    name: string;             // Instruction or function name
+    fields: TransactionField[];
+    accounts: TransactionField[]; // Role (e.g. "Source · writable") → address
+}
+
+/**
+ * A transaction built elsewhere, decoded for review before signing.
+ */
+export interface InspectedTransaction {
+    chain: string;            // Chain adapter id
+    format: string;           // e.g. "Version 0" or "EIP-1559"
+    fields: TransactionField[];
+    instructions: DecodedInstruction[];
+    /**
+     * Addresses that must sign, in order. Empty when any key of the chain
+     * can sign (an unsigned Ethereum transaction names no sender).
+     */
+    signers: string[];
+    signed: string[];         // Signers whose signature is already present
+}
+
+/**
+ * A signed transaction, ready to be broadcast from another machine.
+ */
+export interface SignedTransaction {
+    serialized: string;
+    encoding: "base64" | "hex";
+    /** Transaction signature (Solana) or hash (Ethereum), for explorers. */
+    id: string;
+}
+
+/**
+ * Parses a decimal amount into base units, e.g. "1.5" SOL → 1500000000.
+ * 
+ * @throws {TransactionBuildError} If the amount is not a positive decimal
+ *         with at most `decimals` fractional digits
+ */
+export function parseAmount(input: string, decimals: number, field: string): bigint {
+    let amount: bigint;
+    try {
+        amount = ethers.parseUnits(input.trim(), decimals);
+    } catch {
+        throw new TransactionBuildError(
+            `${field} must be a decimal number with at most ${decimals} decimals.`
+        );
+    }
+    if (amount <= BigInt(0)) {
+        throw new TransactionBuildError(`${field} must be greater than zero.`);
+    }
+    return amount;
+}
+
+/**
+ * Parses a non-negative whole number, e.g. a nonce or gas limit.
+ * 
+ * @throws {TransactionBuildError} If the input is not a whole number
+ */
+export function parseInteger(input: string, field: string): bigint {
+    const trimmed = input.trim();
+    if (!/^\d+$/.test(trimmed)) {
+        throw new TransactionBuildError(`${field} must be a whole number.`);
+    }
+    return BigInt(trimmed);
+}
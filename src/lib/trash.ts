@@ -0,0 +1,129 @@
+/**
+ * Pure helpers for the trash of deleted vaults and wallets.
+ *
+ * Deleting moves data here instead of dropping it, so a mis-click can be
+ * undone. Items stay until they are restored, purged by the user, or
+ * auto-purged once older than the trash's retention period.
+ *
+ * All functions return new arrays/objects so callers can pass the result
+ * straight to React state and storage.
+ */
+
+import { Trash, TrashItem, Vault, Wallet } from "./wallet-types";
+import { addVaultWallet } from "./vaults";
+
+/** Auto-purge periods offered in the UI, in days. */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90] as const;
+
+export const EMPTY_TRASH: Trash = { items: [], retentionDays: null };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error thrown when a trash item cannot be put back.
+ */
+export class TrashRestoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TrashRestoreError";
+    }
+}
+
+/**
+ * Moves wallets of a vault to the trash as one item.
+ */
+export function trashWallets(trash: Trash, vault: Vault, wallets: Wallet[]): Trash {
+    if (wallets.length === 0) {
+        return trash;
+    }
+    const item: TrashItem = {
+        kind: "wallets",
+        id: crypto.randomUUID(),
+        deletedAt: Date.now(),
+        vaultId: vault.id,
+        vaultName: vault.name,
+        wallets,
+    };
+    return { ...trash, items: [item, ...trash.items] };
+}
+
+/**
+ * Moves a whole vault (mnemonic and wallets) to the trash.
+ */
+export function trashVault(trash: Trash, vault: Vault): Trash {
+    const item: TrashItem = {
+        kind: "vault",
+        id: crypto.randomUUID(),
+        deletedAt: Date.now(),
+        vault,
+    };
+    return { ...trash, items: [item, ...trash.items] };
+}
+
+/**
+ * Drops one item from the trash, after it was restored or to purge it.
+ */
+export function removeTrashItem(trash: Trash, itemId: string): Trash {
+    return { ...trash, items: trash.items.filter((item) => item.id !== itemId) };
+}
+
+/**
+ * Drops items older than the trash's retention period. Without a
+ * retention period the trash is returned unchanged.
+ */
+export function purgeExpiredTrash(trash: Trash, now: number = Date.now()): Trash {
+    if (trash.retentionDays === null) {
+        return trash;
+    }
+    const cutoff = now - trash.retentionDays * DAY_MS;
+    const items = trash.items.filter((item) => item.deletedAt > cutoff);
+    return items.length === trash.items.length ? trash : { ...trash, items };
+}
+
+/**
+ * Returns when an item will be auto-purged, or null if it is kept until
+ * purged by hand.
+ */
+export function getPurgeDate(trash: Trash, item: TrashItem): number | null {
+    return trash.retentionDays === null ? null : item.deletedAt + trash.retentionDays * DAY_MS;
+}
+
+/**
+ * Puts a trash item back into the vault list. Restored wallets go back
+ * into their vault at their account index; wallets whose address is
+ * already there again (e.g. re-added by hand) are skipped. A restored
+ * vault whose id has been reused gets a new one.
+ *
+ * The caller removes the item from the trash afterwards.
+ *
+ * @returns The new vault list
+ * @throws {TrashRestoreError} If the wallets' vault no longer exists
+ */
+export function restoreTrashItem(vaults: Vault[], item: TrashItem): Vault[] {
+    if (item.kind === "vault") {
+        const id = vaults.some((vault) => vault.id === item.vault.id)
+            ? crypto.randomUUID()
+            : item.vault.id;
+        return [...vaults, { ...item.vault, id }];
+    }
+
+    const vault = vaults.find((v) => v.id === item.vaultId);
+    if (!vault) {
+        throw new TrashRestoreError(
+            `"${item.vaultName}" was deleted. Restore the vault first.`
+        );
+    }
+    return item.wallets
+        .filter((wallet) => !vault.wallets.some((existing) => existing.publicKey === wallet.publicKey))
+        .reduce(
+            (updated, wallet) =>
+                addVaultWallet(
+                    updated,
+                    vault.id,
+                    vault.wallets.some((existing) => existing.id === wallet.id)
+                        ? { ...wallet, id: crypto.randomUUID() }
+                        : wallet
+                ),
+            vaults
+        );
+}
@@ -0,0 +1,297 @@
+/**
+ * EIP-712 typed data (`eth_signTypedData_v4` payloads): parsing, a
+ * readable breakdown for review, warnings about risky payloads, and
+ * signing with an Ethereum wallet's key.
+ *
+ * Payloads are the JSON dapps pass to wallets: `types`, `primaryType`,
+ * `domain` and `message`. Hashing and encoding are done by ethers'
+ * TypedDataEncoder; only the types reachable from `primaryType` are
+ * passed to it, so payloads listing unrelated types still work.
+ *
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material
+ * - No console logging of secrets
+ * - Error messages never include key material
+ */
+
+import { ethers } from "ethers";
+
+/**
+ * A parsed `eth_signTypedData_v4` payload.
+ */
+export interface TypedData {
+    types: Record<string, ethers.TypedDataField[]>;
+    primaryType: string;
+    domain: ethers.TypedDataDomain;
+    message: Record<string, unknown>;
+}
+
+/**
+ * One field of the domain or message, formatted for display. Structs and
+ * arrays have children instead of a value.
+ */
+export interface TypedDataEntry {
+    name: string;
+    type: string;
+    value?: string;
+    children?: TypedDataEntry[];
+}
+
+/**
+ * Chains offered as the expected chain when reviewing typed data.
+ */
+export const EVM_CHAINS: { id: number; name: string }[] = [
+    { id: 1, name: "Ethereum" },
+    { id: 11155111, name: "Sepolia" },
+    { id: 17000, name: "Holesky" },
+    { id: 10, name: "OP Mainnet" },
+    { id: 8453, name: "Base" },
+    { id: 42161, name: "Arbitrum One" },
+    { id: 137, name: "Polygon" },
+];
+
+// Order and types of the standard EIP712Domain fields.
+const DOMAIN_FIELDS: ethers.TypedDataField[] = [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "verifyingContract", type: "address" },
+    { name: "salt", type: "bytes32" },
+];
+
+// Amount fields at or above half their type's range are treated as
+// unlimited. Other large integers (salts, nonces, token ids) are random or
+// hashed and are not checked.
+const AMOUNT_FIELD_PATTERN = /amount|value|allowance|wad/i;
+
+/**
+ * Error thrown when a payload is not valid EIP-712 typed data.
+ */
+export class InvalidTypedDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "InvalidTypedDataError";
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Strips array suffixes, e.g. "Order[2][]" → "Order".
+ */
+function getBaseType(type: string): string {
+    return type.replace(/(\[\d*\])+$/, "");
+}
+
+/**
+ * The struct types used by the primary type, without EIP712Domain.
+ */
+function getSigningTypes(data: TypedData): Record<string, ethers.TypedDataField[]> {
+    const signingTypes: Record<string, ethers.TypedDataField[]> = {};
+    const pending = [data.primaryType];
+    while (pending.length > 0) {
+        const type = pending.pop() as string;
+        if (signingTypes[type] || !data.types[type]) {
+            continue;
+        }
+        signingTypes[type] = data.types[type];
+        data.types[type].forEach((field) => pending.push(getBaseType(field.type)));
+    }
+    return signingTypes;
+}
+
+/**
+ * Returns the EIP-712 digest that is signed, as 0x-prefixed hex.
+ */
+export function getTypedDataHash(data: TypedData): string {
+    return ethers.TypedDataEncoder.hash(data.domain, getSigningTypes(data), data.message);
+}
+
+/**
+ * Parses and checks a typed-data JSON payload. The message must match its
+ * types, so anything that parses can be hashed and signed.
+ *
+ * @throws {InvalidTypedDataError} If the payload is not valid typed data
+ */
+export function parseTypedData(json: string): TypedData {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        throw new InvalidTypedDataError("This is not valid JSON.");
+    }
+    if (
+        !isObject(value) ||
+        !isObject(value.types) ||
+        typeof value.primaryType !== "string" ||
+        !isObject(value.domain) ||
+        !isObject(value.message)
+    ) {
+        throw new InvalidTypedDataError(
+            "Expected an object with types, primaryType, domain and message."
+        );
+    }
+    const types = value.types;
+    const isTypeList = (fields: unknown) =>
+        Array.isArray(fields) &&
+        fields.every(
+            (field) =>
+                isObject(field) && typeof field.name === "string" && typeof field.type === "string"
+        );
+    if (!Object.values(types).every(isTypeList)) {
+        throw new InvalidTypedDataError("Each type must be a list of { name, type } fields.");
+    }
+    if (value.primaryType === "EIP712Domain" || !types[value.primaryType]) {
+        throw new InvalidTypedDataError(`The primary type "${value.primaryType}" is not defined.`);
+    }
+
+    const data: TypedData = {
+        types: types as Record<string, ethers.TypedDataField[]>,
+        primaryType: value.primaryType,
+        domain: value.domain as ethers.TypedDataDomain,
+        message: value.message,
+    };
+    try {
+        getTypedDataHash(data);
+    } catch (error) {
+        const reason = (error as { shortMessage?: string }).shortMessage;
+        throw new InvalidTypedDataError(
+            reason
+                ? `The payload does not match its types: ${reason}.`
+                : "The payload does not match its types."
+        );
+    }
+    return data;
+}
+
+function formatValue(type: string, value: unknown): string {
+    if (type === "address" && typeof value === "string") {
+        return ethers.getAddress(value);
+    }
+    if (/^u?int\d*$/.test(type)) {
+        return ethers.getBigInt(value as ethers.BigNumberish).toString();
+    }
+    return String(value);
+}
+
+function describeField(
+    types: Record<string, ethers.TypedDataField[]>,
+    name: string,
+    type: string,
+    value: unknown
+): TypedDataEntry {
+    const arrayMatch = type.match(/^(.*)\[\d*\]$/);
+    if (arrayMatch && Array.isArray(value)) {
+        return {
+            name,
+            type,
+            children: value.map((item, i) => describeField(types, `[${i}]`, arrayMatch[1], item)),
+        };
+    }
+    if (types[type] && isObject(value)) {
+        return {
+            name,
+            type,
+            children: types[type].map((field) =>
+                describeField(types, field.name, field.type, value[field.name])
+            ),
+        };
+    }
+    return { name, type, value: formatValue(type, value) };
+}
+
+/**
+ * Breaks a parsed payload down into display entries, fields in type order.
+ */
+export function describeTypedData(data: TypedData): {
+    domain: TypedDataEntry[];
+    message: TypedDataEntry[];
+} {
+    const signingTypes = getSigningTypes(data);
+    const domain = data.domain as Record<string, unknown>;
+    return {
+        domain: DOMAIN_FIELDS.filter((field) => domain[field.name] != null).map((field) =>
+            describeField(signingTypes, field.name, field.type, domain[field.name])
+        ),
+        message: signingTypes[data.primaryType].map((field) =>
+            describeField(signingTypes, field.name, field.type, data.message[field.name])
+        ),
+    };
+}
+
+function getChainName(chainId: bigint): string {
+    const chain = EVM_CHAINS.find((c) => BigInt(c.id) === chainId);
+    return chain ? `${chain.name} (${chainId})` : `chain ${chainId}`;
+}
+
+/**
+ * Flags payloads that are easy to sign by mistake: a domain for another
+ * chain than expected (or for every chain), chain ids in the message that
+ * disagree with the domain, and unlimited token approvals.
+ *
+ * @returns Warnings in display order; empty if nothing stood out
+ */
+export function getTypedDataWarnings(data: TypedData, expectedChainId: number): string[] {
+    const warnings: string[] = [];
+    const domainChainId =
+        data.domain.chainId != null ? ethers.getBigInt(data.domain.chainId) : null;
+    if (domainChainId === null) {
+        warnings.push("The domain has no chainId, so the signature is valid on every chain.");
+    } else if (domainChainId !== BigInt(expectedChainId)) {
+        warnings.push(
+            `The domain is for ${getChainName(domainChainId)}, not ${getChainName(BigInt(expectedChainId))}.`
+        );
+    }
+
+    const visit = (entry: TypedDataEntry, path: string) => {
+        if (entry.children) {
+            entry.children.forEach((child) =>
+                visit(child, child.name.startsWith("[") ? `${path}${child.name}` : `${path}.${child.name}`)
+            );
+            return;
+        }
+        const bits = entry.type.match(/^uint(\d*)$/);
+        if (!bits || entry.value === undefined) {
+            return;
+        }
+        const value = BigInt(entry.value);
+        if (/^chainid$/i.test(entry.name)) {
+            if (domainChainId !== null && value !== domainChainId) {
+                warnings.push(
+                    `${path} is ${getChainName(value)}, but the domain is for ${getChainName(domainChainId)}.`
+                );
+            }
+            return;
+        }
+        const size = BigInt(bits[1] || 256);
+        const max = (BigInt(1) << size) - BigInt(1);
+        if (AMOUNT_FIELD_PATTERN.test(entry.name) && value > max >> BigInt(1)) {
+            warnings.push(
+                value === max
+                    ? `${path} is the maximum uint${size}: an unlimited approval.`
+                    : `${path} is effectively unlimited (${value}).`
+            );
+        }
+    };
+    describeTypedData(data).message.forEach((entry) => visit(entry, `message.${entry.name}`));
+
+    // DAI-style permits approve everything with a boolean instead of an amount.
+    if (data.primaryType === "Permit" && data.message.allowed === true) {
+        warnings.push("message.allowed is true: an unlimited approval.");
+    }
+    return warnings;
+}
+
+/**
+ * Signs typed data with an Ethereum private key, as
+ * `eth_signTypedData_v4` does.
+ *
+ * @param privateKey - The 32 private key bytes, as decoded by the chain adapter
+ * @returns The 65-byte signature as 0x-prefixed hex
+ */
+export function signTypedData(privateKey: Uint8Array, data: TypedData): string {
+    const signingKey = new ethers.SigningKey(ethers.hexlify(privateKey));
+    return signingKey.sign(getTypedDataHash(data)).serialized;
+}
@@ -0,0 +1,348 @@
+/**
+ * Password-encrypted backup files of all vaults, and merging them back in.
+ *
+ * A backup is versioned JSON (see BackupFile). Its payload is the whole
+ * StoredWalletData, sealed with AES-256-GCM under a PBKDF2 key derived
+ * from the backup password (./storage-encryption), so the file is
+ * authenticated as well as encrypted. On import the payload goes through
+ * the same migrations and schema validation as localStorage data, so
+ * older backups keep working as vault metadata grows.
+ *
+ * SECURITY INVARIANTS (from SECURITY.md):
+ * - No network transmission of key material; files are only handed to
+ *   a user-initiated download
+ * - No console logging of secrets or passwords
+ * - Error messages never include vault contents
+ */
+
+import { Vault, Wallet } from "./wallet-types";
+import { addVaultWallet } from "./vaults";
+import type { StoredWalletData } from "./wallet-storage";
+import {
+    createKdfParams,
+    decryptJson,
+    deriveStorageKey,
+    encryptJson,
+    EncryptedPayload,
+    isEncryptedPayload,
+} from "./storage-encryption";
+import { CURRENT_SCHEMA_VERSION, migrateStoredData } from "./storage-migrations";
+import { StorageCorruptionError, validateStoredData } from "./storage-schema";
+
+const BACKUP_FORMAT = "forgesphere-backup";
+const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Backup file layout. `version` is the file format version;
+ * `schemaVersion` is the storage schema version of the sealed data.
+ */
+interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    schemaVersion: number;
+    createdAt: number;    // Unix epoch milliseconds
+    encrypted: EncryptedPayload;
+}
+
+/**
+ * Error thrown when a file is not a readable ForgeSphere backup.
+ * A wrong password throws IncorrectPasswordError instead.
+ */
+export class InvalidBackupError extends Error {
+    constructor(message: string, public readonly cause?: unknown) {
+        super(message);
+        this.name = "InvalidBackupError";
+    }
+}
+
+/**
+ * Parses and checks the unencrypted part of a backup file.
+ *
+ * @throws {InvalidBackupError} If the file is not a supported backup
+ */
+function parseBackupFile(content: string): BackupFile {
+    let file: BackupFile;
+    try {
+        file = JSON.parse(content);
+    } catch (error) {
+        throw new InvalidBackupError("This file is not a ForgeSphere backup.", error);
+    }
+    if (typeof file !== "object" || file === null || file.format !== BACKUP_FORMAT) {
+        throw new InvalidBackupError("This file is not a ForgeSphere backup.");
+    }
+    if (typeof file.version !== "number" || file.version > BACKUP_FORMAT_VERSION) {
+        throw new InvalidBackupError("This backup was made by a newer version of ForgeSphere.");
+    }
+    if (typeof file.schemaVersion !== "number" || !isEncryptedPayload(file.encrypted)) {
+        throw new InvalidBackupError("This backup file is damaged.");
+    }
+    return file;
+}
+
+/**
+ * Encrypts all vaults into backup file content.
+ *
+ * SECURITY: Passphrases the user chose not to persist are not part of
+ * StoredWalletData and are therefore not in the backup. Trashed items
+ * are left out too: the trash is local to this browser.
+ *
+ * @returns JSON to write to a file
+ */
+export async function createBackup(data: StoredWalletData, password: string): Promise<string> {
+    const storageKey = await deriveStorageKey(password, createKdfParams());
+    const file: BackupFile = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_FORMAT_VERSION,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        createdAt: Date.now(),
+        encrypted: await encryptJson(
+            { ...data, trash: { ...data.trash, items: [] } },
+            storageKey
+        ),
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Decrypts, migrates and validates a backup file.
+ *
+ * @throws {IncorrectPasswordError} If the password is wrong or the file was modified
+ * @throws {InvalidBackupError} If the file is not a readable backup
+ */
+export async function openBackup(content: string, password: string): Promise<StoredWalletData> {
+    const file = parseBackupFile(content);
+    const storageKey = await deriveStorageKey(password, file.encrypted.kdf);
+    try {
+        const rawData = await decryptJson(file.encrypted, storageKey);
+        return validateStoredData(migrateStoredData(rawData, file.schemaVersion));
+    } catch (error) {
+        if (error instanceof StorageCorruptionError) {
+            throw new InvalidBackupError(error.message, error);
+        }
+        throw error;
+    }
+}
+
+/**
+ * A vault setting that differs between this browser and the backup.
+ * Values are display strings and never contain secrets.
+ */
+export interface VaultFieldChange {
+    field: string;
+    current: string;
+    incoming: string;
+}
+
+/**
+ * How one vault from a backup relates to the vaults already here.
+ */
+export interface VaultImportDiff {
+    incoming: Vault;
+    existing?: Vault;          // Same seed already here; unset for a new vault
+    status: "new" | "identical" | "changed";
+    fieldChanges: VaultFieldChange[];
+    addedWallets: Wallet[];    // Only in the backup
+    removedWallets: Wallet[];  // Only here; dropped when replacing
+    changedWallets: Wallet[];  // Same address, different details (backup version)
+}
+
+/**
+ * "merge" keeps this browser's settings and adds wallets that are missing
+ * here. "replace" swaps matching vaults for the backup's version.
+ */
+export type BackupImportMode = "merge" | "replace";
+
+/**
+ * Vault settings compared by diffBackup, as display strings.
+ * Seed-related fields are not listed: they decide whether vaults match.
+ */
+const DIFF_FIELDS: { field: string; describe: (vault: Vault) => string }[] = [
+    { field: "Name", describe: (vault) => vault.name },
+    {
+        field: "Backup",
+        describe: (vault) => (vault.backupVerified === false ? "not verified" : "verified"),
+    },
+    {
+        field: "Passphrase",
+        describe: (vault) =>
+            vault.passphrase !== undefined
+                ? "remembered"
+                : vault.hasPassphrase
+                    ? "asked each session"
+                    : "none",
+    },
+];
+
+/**
+ * Two vaults hold the same seed: same phrase and passphrase, whatever
+ * chains they use. Vaults created before fingerprints were stored match
+ * on the phrase.
+ */
+function isSameSeed(a: Vault, b: Vault): boolean {
+    return (
+        a.mnemonic.join(" ") === b.mnemonic.join(" ") &&
+        Boolean(a.hasPassphrase) === Boolean(b.hasPassphrase) &&
+        (!a.fingerprint || !b.fingerprint || a.fingerprint === b.fingerprint)
+    );
+}
+
+/**
+ * JSON with sorted keys, so objects built in different orders compare equal.
+ */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(",")}]`;
+    }
+    if (typeof value === "object" && value !== null) {
+        return `{${Object.keys(value)
+            .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+            .join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Compares backup vaults with the vaults here. A backup vault matches an
+ * existing vault with the same id and seed, or else any vault with the
+ * same seed; wallets are matched by address.
+ */
+export function diffBackup(current: Vault[], incoming: Vault[]): VaultImportDiff[] {
+    const matched = new Set<string>();
+
+    return incoming.map((vault) => {
+        const candidates = current.filter(
+            (existing) => !matched.has(existing.id) && isSameSeed(existing, vault)
+        );
+        const existing =
+            candidates.find((candidate) => candidate.id === vault.id) ?? candidates[0];
+        if (!existing) {
+            return {
+                incoming: vault,
+                status: "new",
+                fieldChanges: [],
+                addedWallets: vault.wallets,
+                removedWallets: [],
+                changedWallets: [],
+            };
+        }
+        matched.add(existing.id);
+
+        const fieldChanges = DIFF_FIELDS.map(({ field, describe }) => ({
+            field,
+            current: describe(existing),
+            incoming: describe(vault),
+        })).filter((change) => change.current !== change.incoming);
+
+        const existingWallets = new Map(
+            existing.wallets.map((wallet) => [wallet.publicKey, wallet])
+        );
+        const incomingKeys = new Set(vault.wallets.map((wallet) => wallet.publicKey));
+        const addedWallets = vault.wallets.filter(
+            (wallet) => !existingWallets.has(wallet.publicKey)
+        );
+        // Wallet ids are per browser (assigned by migration), so ignore them.
+        const changedWallets = vault.wallets.filter((wallet) => {
+            const match = existingWallets.get(wallet.publicKey);
+            return (
+                match !== undefined &&
+                canonicalJson({ ...match, id: undefined }) !==
+                    canonicalJson({ ...wallet, id: undefined })
+            );
+        });
+        const removedWallets = existing.wallets.filter(
+            (wallet) => !incomingKeys.has(wallet.publicKey)
+        );
+
+        const isIdentical =
+            fieldChanges.length === 0 &&
+            addedWallets.length === 0 &&
+            changedWallets.length === 0 &&
+            removedWallets.length === 0;
+        return {
+            incoming: vault,
+            existing,
+            status: isIdentical ? "identical" : "changed",
+            fieldChanges,
+            addedWallets,
+            removedWallets,
+            changedWallets,
+        };
+    });
+}
+
+/**
+ * Merges two vaults' per-chain high-water marks, keeping the higher one.
+ */
+function mergeAccountIndexes(
+    a: Record<string, number>,
+    b: Record<string, number>
+): Record<string, number> {
+    const merged = { ...a };
+    Object.entries(b).forEach(([chain, index]) => {
+        merged[chain] = Math.max(merged[chain] ?? 0, index);
+    });
+    return merged;
+}
+
+/**
+ * Gives added wallets new ids where they clash with the vault's own, so
+ * wallet ids stay unique after a merge.
+ */
+function withFreshIds(added: Wallet[], existing: Wallet[]): Wallet[] {
+    const takenIds = new Set(existing.map((wallet) => wallet.id));
+    return added.map((wallet) =>
+        takenIds.has(wallet.id) ? { ...wallet, id: crypto.randomUUID() } : wallet
+    );
+}
+
+/**
+ * Merges a backup's version of a vault into the stored one: its new chains
+ * are appended, and its new wallets are inserted in account index order
+ * like wallets added by hand.
+ */
+function mergeVault(vault: Vault, diff: VaultImportDiff): Vault {
+    const withChains: Vault = {
+        ...vault,
+        chains: [
+            ...vault.chains,
+            ...diff.incoming.chains.filter((chain) => !vault.chains.includes(chain)),
+        ],
+        nextAccountIndex: mergeAccountIndexes(vault.nextAccountIndex, diff.incoming.nextAccountIndex),
+    };
+    return withFreshIds(diff.addedWallets, vault.wallets).reduce(
+        (merged, wallet) => addVaultWallet([merged], merged.id, wallet)[0],
+        withChains
+    );
+}
+
+/**
+ * Applies a diff from diffBackup. Vaults that are not in the backup are
+ * always kept, and existing vaults keep their ids.
+ *
+ * @returns The new vault list
+ */
+export function applyBackupImport(
+    current: Vault[],
+    diffs: VaultImportDiff[],
+    mode: BackupImportMode
+): Vault[] {
+    const takenIds = new Set(current.map((vault) => vault.id));
+    const updated = current.map((vault) => {
+        const diff = diffs.find((d) => d.existing?.id === vault.id);
+        if (!diff || diff.status !== "changed") {
+            return vault;
+        }
+        return mode === "replace" ? { ...diff.incoming, id: vault.id } : mergeVault(vault, diff);
+    });
+
+    diffs
+        .filter((diff) => diff.status === "new")
+        .forEach(({ incoming }) => {
+            const id = takenIds.has(incoming.id) ? crypto.randomUUID() : incoming.id;
+            takenIds.add(id);
+            updated.push({ ...incoming, id });
+        });
+    return updated;
+}
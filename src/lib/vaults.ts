@@ -0,0 +1,185 @@
+/**
+ * Pure helpers for working with the vault list.
+ * 
+ * All functions return new arrays/objects so callers can pass the result
+ * straight to React state and storage.
+ */
+
+import { Vault, Wallet } from "./wallet-types";
+import { DEFAULT_MNEMONIC_LANGUAGE } from "./mnemonic";
+
+/**
+ * Options for createVault.
+ */
+export interface CreateVaultOptions {
+    /** BIP39 wordlist id; omitted for English. */
+    language?: string;
+    passphrase?: string;
+    /** Persist the passphrase with the vault instead of keeping it in memory only. */
+    rememberPassphrase?: boolean;
+    fingerprint?: string;
+    /** The phrase was generated here, so its backup is not verified yet. */
+    generated?: boolean;
+}
+
+/**
+ * Creates a new, empty vault for a mnemonic, with one chain tab.
+ * 
+ * SECURITY: Caller MUST validate the mnemonic before creating a vault.
+ */
+export function createVault(
+    name: string,
+    mnemonic: string[],
+    chain: string,
+    options: CreateVaultOptions = {}
+): Vault {
+    const vault: Vault = {
+        id: crypto.randomUUID(),
+        name,
+        mnemonic,
+        chains: [chain],
+        wallets: [],
+        nextAccountIndex: {},
+        createdAt: Date.now(),
+        fingerprint: options.fingerprint,
+    };
+    if (options.language && options.language !== DEFAULT_MNEMONIC_LANGUAGE) {
+        vault.language = options.language;
+    }
+    if (options.generated) {
+        vault.backupVerified = false;
+    }
+    if (options.passphrase) {
+        vault.hasPassphrase = true;
+        if (options.rememberPassphrase) {
+            vault.passphrase = options.passphrase;
+        }
+    }
+    return vault;
+}
+
+/**
+ * Returns a default display name for the next vault ("Vault 1", "Vault 2", ...),
+ * skipping names that are already taken.
+ */
+export function nextVaultName(vaults: Vault[]): string {
+    let n = vaults.length + 1;
+    while (vaults.some((vault) => vault.name === `Vault ${n}`)) {
+        n++;
+    }
+    return `Vault ${n}`;
+}
+
+/**
+ * Returns the wallets of one chain tab.
+ */
+export function getChainWallets(vault: Vault, chain: string): Wallet[] {
+    return vault.wallets.filter((wallet) => wallet.chain === chain);
+}
+
+/**
+ * Returns the account index "Add Wallet" should derive next on a chain:
+ * the chain's high-water mark, skipping indices a re-added wallet already
+ * took.
+ */
+export function getNextAccountIndex(vault: Vault, chain: string): number {
+    const wallets = getChainWallets(vault, chain);
+    let index = vault.nextAccountIndex[chain] ?? 0;
+    while (wallets.some((wallet) => wallet.index === index)) {
+        index++;
+    }
+    return index;
+}
+
+/**
+ * Account indices of a chain below its high-water mark that no wallet
+ * uses, i.e. wallets that were deleted and can be re-added on purpose.
+ */
+export function getDeletedAccountIndexes(vault: Vault, chain: string): number[] {
+    const used = new Set(getChainWallets(vault, chain).map((wallet) => wallet.index));
+    return Array.from({ length: vault.nextAccountIndex[chain] ?? 0 }, (_, i) => i).filter(
+        (index) => !used.has(index)
+    );
+}
+
+/**
+ * Adds a chain tab to one vault. Adding a chain it already has is a no-op.
+ */
+export function addVaultChain(vaults: Vault[], vaultId: string, chain: string): Vault[] {
+    return vaults.map((vault) =>
+        vault.id === vaultId && !vault.chains.includes(chain)
+            ? { ...vault, chains: [...vault.chains, chain] }
+            : vault
+    );
+}
+
+/**
+ * Removes a chain tab that has no wallets. Its high-water mark is kept in
+ * case the chain is added again.
+ */
+export function removeVaultChain(vaults: Vault[], vaultId: string, chain: string): Vault[] {
+    return vaults.map((vault) =>
+        vault.id === vaultId && getChainWallets(vault, chain).length === 0
+            ? { ...vault, chains: vault.chains.filter((c) => c !== chain) }
+            : vault
+    );
+}
+
+/**
+ * Adds a wallet to one vault, adding its chain tab if needed. Derived
+ * wallets are kept in index order within their chain (imported ones stay
+ * at the end) and raise the chain's high-water mark.
+ */
+export function addVaultWallet(vaults: Vault[], vaultId: string, wallet: Wallet): Vault[] {
+    return addVaultChain(vaults, vaultId, wallet.chain).map((vault) => {
+        if (vault.id !== vaultId) {
+            return vault;
+        }
+        if (wallet.index === undefined) {
+            return { ...vault, wallets: [...vault.wallets, wallet] };
+        }
+
+        const index = wallet.index;
+        const position = vault.wallets.findIndex(
+            (existing) =>
+                existing.chain === wallet.chain &&
+                (existing.index === undefined || existing.index > index)
+        );
+        const wallets = [...vault.wallets];
+        wallets.splice(position === -1 ? wallets.length : position, 0, wallet);
+        return {
+            ...vault,
+            wallets,
+            nextAccountIndex: {
+                ...vault.nextAccountIndex,
+                [wallet.chain]: Math.max(vault.nextAccountIndex[wallet.chain] ?? 0, index + 1),
+            },
+        };
+    });
+}
+
+/**
+ * Removes one wallet by id. The vault's high-water mark is kept, so the
+ * index is not reused by "Add Wallet".
+ */
+export function removeVaultWallet(vaults: Vault[], vaultId: string, walletId: string): Vault[] {
+    return vaults.map((vault) =>
+        vault.id === vaultId
+            ? { ...vault, wallets: vault.wallets.filter((wallet) => wallet.id !== walletId) }
+            : vault
+    );
+}
+
+/**
+ * Replaces the wallets of one vault.
+ */
+export function setVaultWallets(vaults: Vault[], vaultId: string, wallets: Wallet[]): Vault[] {
+    return vaults.map((vault) => (vault.id === vaultId ? { ...vault, wallets } : vault));
+}
+
+/**
+ * Removes a vault, including its mnemonic and wallets.
+ */
+export function removeVault(vaults: Vault[], vaultId: string): Vault[] {
+    return vaults.filter((vault) => vault.id !== vaultId);
+}
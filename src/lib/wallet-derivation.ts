@@ -11,12 +11,16 @@
  */
 
 import { mnemonicToSeedSync } from "bip39";
-import { derivePath } from "ed25519-hd-key";
-import nacl from "tweetnacl";
-import { Keypair } from "@solana/web3.js";
-import bs58 from "bs58";
 import { ethers } from "ethers";
-import { Wallet } from "./wallet-types";
+import { Wallet, WalletAddress } from "./wallet-types";
+import {
+    derivePrivateKey,
+    formatPath,
+    getChainAdapter,
+    getChainNetwork,
+} from "./chains";
+import { ethereumAdapter } from "./chains/ethereum";
+import { normalizePathTemplate } from "./derivation-paths";
 
 /**
  * Error thrown when an unsupported path type is provided.
@@ -38,14 +42,34 @@ export class WalletDerivationError extends Error {
     }
 }
 
+/**
+ * Optional inputs to generateWalletFromMnemonic.
+ */
+export interface DerivationOptions {
+    /** Network for multi-network chains (defaults to the adapter's first). */
+    network?: string;
+    /** Path template (defaults to the adapter's defaultPathTemplate). */
+    pathTemplate?: string;
+    /** BIP39 passphrase ("25th word"); empty or unset means none. */
+    passphrase?: string;
+}
+
 /**
  * Generates a wallet from a mnemonic phrase using BIP44 HD derivation.
  * 
- * @param pathType - The BIP44 coin type ("501" for Solana, "60" for Ethereum)
+ * The curve, path template and key encoding come from the chain's
+ * registered ChainAdapter (see ./chains).
+ * 
+ * @param pathType - The chain id / BIP44 coin type ("501" for Solana, "60" for Ethereum)
  * @param mnemonic - A valid BIP39 mnemonic phrase (must be pre-validated by caller)
  * @param accountIndex - The account index for derivation path
- * @returns The generated Wallet object
- * @throws {UnsupportedPathTypeError} If pathType is not "501" or "60"
+ * @param options - Network and path template overrides
+ * @returns The generated Wallet object, with a new random id and
+ *          `index: accountIndex`. For adapters with address types,
+ *          every type is derived on its own fixed path (options.pathTemplate
+ *          is ignored) and the first becomes the primary key pair.
+ * @throws {UnsupportedPathTypeError} If no adapter is registered for pathType
+ * @throws {InvalidDerivationPathError} If options.pathTemplate is malformed
  * @throws {WalletDerivationError} If derivation fails for any other reason
  * 
  * SECURITY: Caller MUST validate mnemonic with bip39.validateMnemonic() before calling.
@@ -53,46 +77,117 @@ export class WalletDerivationError extends Error {
 export function generateWalletFromMnemonic(
     pathType: string,
     mnemonic: string,
-    accountIndex: number
+    accountIndex: number,
+    options: DerivationOptions = {}
 ): Wallet {
-    try {
-        const seedBuffer = mnemonicToSeedSync(mnemonic);
-        const path = `m/44'/${pathType}'/0'/${accountIndex}'`;
-        const { key: derivedSeed } = derivePath(path, seedBuffer.toString("hex"));
-
-        let publicKeyEncoded: string;
-        let privateKeyEncoded: string;
+    const adapter = getChainAdapter(pathType);
+    if (!adapter) {
+        throw new UnsupportedPathTypeError(pathType);
+    }
+    const pathTemplate = adapter.addressTypes
+        ? undefined
+        : normalizePathTemplate(
+            options.pathTemplate ?? adapter.defaultPathTemplate,
+            adapter.curve
+        );
 
-        if (pathType === "501") {
-            // Solana derivation
-            const { secretKey } = nacl.sign.keyPair.fromSeed(derivedSeed);
-            const keypair = Keypair.fromSecretKey(secretKey);
+    try {
+        const seed = mnemonicToSeedSync(mnemonic, options.passphrase);
+        const network = getChainNetwork(adapter, options.network);
 
-            privateKeyEncoded = bs58.encode(secretKey);
-            publicKeyEncoded = keypair.publicKey.toBase58();
-        } else if (pathType === "60") {
-            // Ethereum derivation
-            const privateKey = Buffer.from(derivedSeed).toString("hex");
-            privateKeyEncoded = privateKey;
+        if (!pathTemplate) {
+            const addresses: WalletAddress[] = (adapter.addressTypes ?? []).map((addressType) => {
+                const path = formatPath(addressType.pathTemplate, accountIndex, network);
+                const privateKey = derivePrivateKey(adapter.curve, seed, path);
+                return {
+                    type: addressType.id,
+                    ...adapter.encodeKeyPair(privateKey, {
+                        network: network?.id,
+                        addressType: addressType.id,
+                    }),
+                    path,
+                };
+            });
+            const [primary] = addresses;
 
-            const wallet = new ethers.Wallet(privateKey);
-            publicKeyEncoded = wallet.address;
-        } else {
-            throw new UnsupportedPathTypeError(pathType);
+            return {
+                id: crypto.randomUUID(),
+                chain: adapter.id,
+                index: accountIndex,
+                publicKey: primary.publicKey,
+                privateKey: primary.privateKey,
+                path: primary.path,
+                network: network?.id,
+                addresses,
+            };
         }
 
+        const path = formatPath(pathTemplate, accountIndex, network);
+        const privateKey = derivePrivateKey(adapter.curve, seed, path);
+
         return {
-            publicKey: publicKeyEncoded,
-            privateKey: privateKeyEncoded,
+            id: crypto.randomUUID(),
+            chain: adapter.id,
+            index: accountIndex,
+            ...adapter.encodeKeyPair(privateKey, { network: network?.id }),
             path,
+            pathTemplate,
+            ...(network && { network: network.id }),
         };
     } catch (error) {
-        if (error instanceof UnsupportedPathTypeError) {
-            throw error;
-        }
         throw new WalletDerivationError(
             "Failed to generate wallet",
             error
         );
     }
 }
+
+/**
+ * Computes the BIP32 master key fingerprint of a mnemonic + passphrase:
+ * the first 4 bytes of HASH160 of the master public key, as hex.
+ * 
+ * This is the same value hardware wallets show, so users can confirm they
+ * entered the same passphrase without revealing it. It is not secret.
+ * 
+ * SECURITY: Caller MUST validate mnemonic with bip39.validateMnemonic() before calling.
+ */
+export function getSeedFingerprint(mnemonic: string, passphrase?: string): string {
+    const seed = mnemonicToSeedSync(mnemonic, passphrase);
+    return ethers.HDNodeWallet.fromSeed(seed).fingerprint.slice(2);
+}
+
+/**
+ * Returns true if the wallet was produced by the original Ethereum
+ * derivation, which ran SLIP-10 ed25519 over `m/44'/60'/0'/{i}'` and reused
+ * the output as a secp256k1 key. Those addresses exist nowhere else, so
+ * such wallets are kept as-is and flagged for migration rather than
+ * re-derived. The storage migration to schema version 6 sets the marker;
+ * the path alone cannot tell, since a custom template may use the same one.
+ */
+export function isLegacyEthereumWallet(wallet: Wallet): boolean {
+    return wallet.legacyDerivation === true;
+}
+
+/**
+ * Derives the standards-compliant counterpart of a legacy Ethereum wallet,
+ * i.e. the wallet at the same account index on `m/44'/60'/0'/0/{i}`.
+ * 
+ * @param legacyWallet - A wallet for which isLegacyEthereumWallet() is true
+ * @param mnemonic - The mnemonic the legacy wallet was derived from
+ * @param passphrase - The vault's BIP39 passphrase; empty or unset means none
+ * @returns The standard wallet, or null if legacyWallet is not legacy
+ * @throws {WalletDerivationError} If derivation fails
+ */
+export function deriveMigrationTarget(
+    legacyWallet: Wallet,
+    mnemonic: string,
+    passphrase?: string
+): Wallet | null {
+    if (!isLegacyEthereumWallet(legacyWallet) || legacyWallet.index === undefined) {
+        return null;
+    }
+    return generateWalletFromMnemonic(ethereumAdapter.id, mnemonic, legacyWallet.index, {
+        pathTemplate: ethereumAdapter.defaultPathTemplate,
+        passphrase,
+    });
+}
@@ -1,81 +1,257 @@
 /**
  * localStorage helpers for wallet persistence.
  * 
- * SECURITY NOTE: Wallets are stored as plaintext JSON.
- * This is a known limitation documented in SECURITY.md.
+ * Everything is stored in one versioned envelope under STORAGE_KEYS.STATE.
+ * On load the envelope is parsed, decrypted if needed, migrated to the
+ * current schema version (./storage-migrations) and validated
+ * (./storage-schema). Anything unreadable surfaces as a
+ * StorageCorruptionError so the UI can offer recovery instead of crashing.
+ * 
+ * SECURITY NOTE: By default vaults (mnemonics and private keys) are stored
+ * as plaintext JSON, a known limitation documented in SECURITY.md. Users
+ * can opt in to password encryption (see ./storage-encryption), in which
+ * case only the sealed payload and its KDF parameters are written.
  * 
  * IMPORTANT: The storage keys MUST match the original implementation
  * to maintain backward compatibility with existing user data.
  */
 
-import { Wallet, STORAGE_KEYS } from "./wallet-types";
+import { RpcSettings, Trash, Vault, STORAGE_KEYS } from "./wallet-types";
+import {
+    createKdfParams,
+    decryptJson,
+    deriveStorageKey,
+    encryptJson,
+    EncryptedPayload,
+    isEncryptedPayload,
+    StorageKey,
+} from "./storage-encryption";
+import { CURRENT_SCHEMA_VERSION, migrateStoredData } from "./storage-migrations";
+import { StorageCorruptionError, validateStoredData } from "./storage-schema";
+
+export { StorageCorruptionError } from "./storage-schema";
 
 /**
- * Data structure returned when loading wallets from storage.
+ * Wallet data in the current schema version.
  */
 export interface StoredWalletData {
-    wallets: Wallet[];
-    mnemonics: string[];
-    chain: string;
+    vaults: Vault[];
+    activeVaultId: string | null;
+    trash: Trash;
+    rpc: RpcSettings;
+}
+
+/**
+ * Versioned envelope persisted under STORAGE_KEYS.STATE. Exactly one of
+ * `data` (plaintext) or `encrypted` is set; `version` is the schema
+ * version of the data, encrypted or not.
+ */
+interface StorageEnvelope {
+    version: number;
+    data?: unknown;
+    encrypted?: EncryptedPayload;
+}
+
+/**
+ * Error thrown when encrypted data is read without an unlocked key.
+ */
+export class StorageLockedError extends Error {
+    constructor() {
+        super("Wallet storage is locked");
+        this.name = "StorageLockedError";
+    }
+}
+
+const ALL_STORAGE_KEYS = Object.values(STORAGE_KEYS);
+
+// Saves are serialized so a slow encryption cannot overwrite a newer write.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function parseJson(raw: string, key: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch (error) {
+        throw new StorageCorruptionError(`"${key}" does not contain valid JSON.`, error);
+    }
 }
 
 /**
- * Loads wallet data from localStorage.
+ * Reads the envelope, or builds one from an older unversioned layout.
  * 
- * @returns The stored wallet data, or null if no complete data exists.
- *          All three keys (wallets, mnemonics, chain) must be present.
+ * @returns The envelope, or null if nothing is stored
+ * @throws {StorageCorruptionError} If stored JSON is unreadable or the
+ *         encrypted payload is malformed
  */
-export function loadWalletsFromStorage(): StoredWalletData | null {
-    const storedWallets = localStorage.getItem(STORAGE_KEYS.WALLETS);
-    const storedMnemonic = localStorage.getItem(STORAGE_KEYS.MNEMONICS);
-    const storedChain = localStorage.getItem(STORAGE_KEYS.CHAIN);
-    console.log("storedWallets", storedWallets, "storedMnemonic", storedMnemonic, "storedChain", storedChain);
-    if (storedWallets && storedMnemonic && storedChain) {
-        const storedWalletData: StoredWalletData = {
-            wallets: JSON.parse(storedWallets),
-            mnemonics: JSON.parse(storedMnemonic),
-            chain: JSON.parse(storedChain),
+function readEnvelope(): StorageEnvelope | null {
+    const rawState = localStorage.getItem(STORAGE_KEYS.STATE);
+    if (rawState) {
+        const envelope = parseJson(rawState, STORAGE_KEYS.STATE);
+        if (
+            typeof envelope !== "object" ||
+            envelope === null ||
+            typeof (envelope as StorageEnvelope).version !== "number"
+        ) {
+            throw new StorageCorruptionError("Stored data has no schema version.");
+        }
+        const { encrypted } = envelope as StorageEnvelope;
+        if (encrypted !== undefined && !isEncryptedPayload(encrypted)) {
+            throw new StorageCorruptionError("Stored encrypted data is damaged.");
+        }
+        return envelope as StorageEnvelope;
+    }
+
+    const rawVaults = localStorage.getItem(STORAGE_KEYS.VAULTS);
+    if (rawVaults) {
+        const stored = parseJson(rawVaults, STORAGE_KEYS.VAULTS);
+        if (typeof stored !== "object" || stored === null || !("encrypted" in stored)) {
+            return { version: 1, data: stored };
+        }
+        if (!isEncryptedPayload(stored.encrypted)) {
+            throw new StorageCorruptionError("Stored encrypted data is damaged.");
+        }
+        return { version: 1, encrypted: stored.encrypted };
+    }
+
+    const rawWallets = localStorage.getItem(STORAGE_KEYS.WALLETS);
+    const rawMnemonics = localStorage.getItem(STORAGE_KEYS.MNEMONICS);
+    const rawChain = localStorage.getItem(STORAGE_KEYS.CHAIN);
+    if (rawWallets && rawMnemonics && rawChain) {
+        return {
+            version: 0,
+            data: {
+                wallets: parseJson(rawWallets, STORAGE_KEYS.WALLETS),
+                mnemonics: parseJson(rawMnemonics, STORAGE_KEYS.MNEMONICS),
+                chain: parseJson(rawChain, STORAGE_KEYS.CHAIN),
+            },
         };
-        return storedWalletData;
     }
     return null;
 }
 
 /**
- * Saves wallet data to localStorage.
+ * Returns true if stored data is password-encrypted.
  * 
- * @param wallets - Array of wallet objects to persist
- * @param mnemonics - Array of mnemonic words to persist (optional)
- * @returns void
+ * @throws {StorageCorruptionError} If stored JSON is unreadable
+ */
+export function isStorageEncrypted(): boolean {
+    return readEnvelope()?.encrypted !== undefined;
+}
+
+/**
+ * Derives the storage key from a password and checks it against the
+ * stored ciphertext.
  * 
- * Usage:
- * - (wallets, mnemonics) to save both wallets and mnemonics for first time 
- * wallet addition
- * - (wallets) to save only wallets used for deleting wallets
+ * @returns The key to pass to load/save while unlocked
+ * @throws {IncorrectPasswordError} If the password is wrong
+ * @throws {StorageCorruptionError} If stored data is unreadable
  */
-export function saveWalletsToStorage(
-    wallets: Wallet[],
-    mnemonics?: string[],
-    chain?: string
-): void {
-    localStorage.setItem(STORAGE_KEYS.WALLETS, JSON.stringify(wallets));
-
-    if (mnemonics) {
-        localStorage.setItem(
-            STORAGE_KEYS.MNEMONICS,
-            JSON.stringify(mnemonics)
-        );
+export async function unlockStorage(password: string): Promise<StorageKey> {
+    const envelope = readEnvelope();
+    if (!envelope?.encrypted) {
+        throw new StorageCorruptionError("Stored data is not encrypted.");
+    }
+
+    const storageKey = await deriveStorageKey(password, envelope.encrypted.kdf);
+    await decryptJson(envelope.encrypted, storageKey);
+    return storageKey;
+}
+
+/**
+ * Loads, migrates and validates wallet data from localStorage.
+ * Data from an older schema version is re-saved in the current one.
+ * 
+ * @param storageKey - Required when storage is encrypted
+ * @returns The stored vaults, or null if nothing is stored.
+ * @throws {StorageLockedError} If storage is encrypted and no key is given
+ * @throws {IncorrectPasswordError} If the key does not open the payload
+ * @throws {StorageCorruptionError} If the data cannot be read or migrated
+ */
+export async function loadWalletsFromStorage(
+    storageKey?: StorageKey | null
+): Promise<StoredWalletData | null> {
+    const envelope = readEnvelope();
+    if (!envelope) {
+        return null;
     }
 
-    if (chain) {
-        localStorage.setItem(STORAGE_KEYS.CHAIN, JSON.stringify(chain));
+    let rawData = envelope.data;
+    if (envelope.encrypted) {
+        if (!storageKey) {
+            throw new StorageLockedError();
+        }
+        rawData = await decryptJson(envelope.encrypted, storageKey);
     }
+
+    const data = validateStoredData(migrateStoredData(rawData, envelope.version));
+    if (envelope.version !== CURRENT_SCHEMA_VERSION) {
+        await saveWalletsToStorage(data, envelope.encrypted ? storageKey : null);
+    }
+    return data;
+}
+
+/**
+ * Saves all vaults to localStorage, encrypted if a storage key is given.
+ * 
+ * Removes older unversioned keys so secrets are not kept twice.
+ * 
+ * @param data - Vaults, the active vault id and the trash to persist
+ * @param storageKey - Key from unlockStorage/setStoragePassword, or null for plaintext
+ */
+export function saveWalletsToStorage(
+    data: StoredWalletData,
+    storageKey?: StorageKey | null
+): Promise<void> {
+    pendingWrite = pendingWrite
+        .catch(() => undefined)
+        .then(async () => {
+            const envelope: StorageEnvelope = storageKey
+                ? { version: CURRENT_SCHEMA_VERSION, encrypted: await encryptJson(data, storageKey) }
+                : { version: CURRENT_SCHEMA_VERSION, data };
+
+            localStorage.setItem(STORAGE_KEYS.STATE, JSON.stringify(envelope));
+            ALL_STORAGE_KEYS.filter((key) => key !== STORAGE_KEYS.STATE).forEach((key) =>
+                localStorage.removeItem(key)
+            );
+        });
+    return pendingWrite;
+}
+
+/**
+ * Encrypts stored data under a new password, replacing any previous one.
+ * Used both to enable encryption and to change the password.
+ * 
+ * @returns The new storage key
+ */
+export async function setStoragePassword(
+    data: StoredWalletData,
+    password: string
+): Promise<StorageKey> {
+    const storageKey = await deriveStorageKey(password, createKdfParams());
+    await saveWalletsToStorage(data, storageKey);
+    return storageKey;
+}
+
+/**
+ * Returns the raw contents of every wallet storage key, for export before
+ * a reset. Values are returned verbatim, including plaintext secrets.
+ * 
+ * SECURITY: The result may contain mnemonics and private keys. Only hand
+ * it to a user-initiated file download.
+ */
+export function exportRawStorage(): Record<string, string> {
+    const raw: Record<string, string> = {};
+    ALL_STORAGE_KEYS.forEach((key) => {
+        const value = localStorage.getItem(key);
+        if (value !== null) {
+            raw[key] = value;
+        }
+    });
+    return raw;
 }
 
 /**
- * Clears all wallet data from localStorage.
+ * Clears all wallet data from localStorage, including older layouts.
  */
 export function clearWalletStorage(): void {
-    localStorage.removeItem(STORAGE_KEYS.WALLETS);
-    localStorage.removeItem(STORAGE_KEYS.MNEMONICS);
+    ALL_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
 }
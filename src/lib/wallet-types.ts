@@ -6,28 +6,119 @@
  */
 
 /**
- * Represents a generated HD wallet.
+ * One address format of a wallet, for chains that derive several
+ * (e.g. Bitcoin script types). Each format has its own path and key.
+ */
+export interface WalletAddress {
+    type: string;         // AddressType id from the chain's adapter
+    publicKey: string;
+    privateKey: string;
+    path: string;
+}
+
+/**
+ * Where an imported wallet's key came from: a keystore file or a raw
+ * private key. Wallets without a source were derived from the vault's
+ * mnemonic.
+ */
+export const WALLET_SOURCES = ["keystore", "private-key"] as const;
+
+export type WalletSource = (typeof WALLET_SOURCES)[number];
+
+/**
+ * Represents a generated HD wallet, or a key imported into a vault.
  */
 export interface Wallet {
-    publicKey: string;    // Base58 (Solana) or hex address (Ethereum)
-    privateKey: string;   // Base58 (Solana) or hex (Ethereum)
-    path: string;         // Derivation path used
+    id: string;           // Stable id, independent of list position
+    chain: string;        // Chain id (BIP44 coin type); one of the vault's chains
+    index?: number;       // Account index substituted for {index}; unset for imported keys
+    publicKey: string;    // Address, encoded by the chain's adapter
+    privateKey: string;   // Private key, encoded by the chain's adapter
+    path: string;         // Derivation path used; empty for imported keys
+    source?: WalletSource; // Set for imported keys; they take no account index
+    pathTemplate?: string; // Template `path` was resolved from, e.g. m/44'/501'/{index}'/0'
+    network?: string;     // Network id, for multi-network chains
+    addresses?: WalletAddress[]; // All address formats; the first mirrors the fields above
+    legacyDerivation?: boolean; // From the original SLIP-10 Ethereum derivation; set by migration only
+}
+
+/**
+ * A named seed with wallets on one or more chains.
+ * 
+ * SECURITY NOTE: Contains the mnemonic and, via wallets, private keys.
+ */
+export interface Vault {
+    id: string;
+    name: string;
+    mnemonic: string[];   // Mnemonic words (NFKD)
+    language?: string;    // BIP39 wordlist id; unset means English
+    backupVerified?: boolean; // false until a generated phrase passes the backup quiz
+    chains: string[];     // Chain ids shown as tabs, in the order they were added
+    wallets: Wallet[];
+    nextAccountIndex: Record<string, number>; // Next index for "Add Wallet", by chain id; never decreases, so deleted indices are not reused
+    createdAt: number;    // Unix epoch milliseconds
+    hasPassphrase?: boolean; // Seed uses a BIP39 passphrase
+    passphrase?: string;  // Only set if the user chose to persist it
+    fingerprint?: string; // BIP32 master fingerprint of mnemonic + passphrase
+}
+
+/**
+ * Wallets deleted from a vault, kept in the trash until restored or
+ * purged. One delete or "Clear Wallets" makes one item.
+ */
+export interface TrashedWallets {
+    kind: "wallets";
+    id: string;
+    deletedAt: number;    // Unix epoch milliseconds
+    vaultId: string;      // Vault the wallets are restored into
+    vaultName: string;    // Vault name at deletion time, for display
+    wallets: Wallet[];
+}
+
+/**
+ * A deleted vault, including its mnemonic and wallets.
+ */
+export interface TrashedVault {
+    kind: "vault";
+    id: string;
+    deletedAt: number;    // Unix epoch milliseconds
+    vault: Vault;
 }
 
+export type TrashItem = TrashedWallets | TrashedVault;
+
 /**
- * Human-readable names for BIP44 path types.
+ * Deleted data that can still be restored. Stored (and encrypted) with
+ * the vaults, since it holds the same secrets.
  */
-export const PATH_TYPE_NAMES: { [key: string]: string } = {
-    "501": "Solana",
-    "60": "Ethereum",
-};
+export interface Trash {
+    items: TrashItem[];
+    retentionDays: number | null; // Auto-purge after this many days; null keeps items until purged
+}
+
+/**
+ * Opt-in balance lookups through the user's own JSON-RPC endpoints.
+ * Stored (and encrypted) with the vaults, since endpoint URLs often embed
+ * API keys.
+ */
+export interface RpcSettings {
+    enabled: boolean;
+    endpoints: Record<string, string>; // JSON-RPC URL by chain id
+}
 
 /**
  * localStorage keys for wallet persistence.
  * These keys MUST NOT be changed to maintain backward compatibility.
+ * 
+ * STATE holds the versioned storage envelope. The other keys are older,
+ * unversioned layouts that are only read to migrate existing data:
+ * WALLETS/MNEMONICS/CHAIN (single seed, schema version 0) and VAULTS
+ * (named vaults, schema version 1).
  */
 export const STORAGE_KEYS = {
     WALLETS: "wallets",
     MNEMONICS: "mnemonics",
     CHAIN: "chain",
+    VAULTS: "vaults",
+    STATE: "forgesphere",
 } as const;